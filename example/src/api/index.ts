@@ -3,6 +3,7 @@ import userApi from './modules/user';
 import configApi from './modules/config';
 import conversationApi from './modules/conversation';
 import toolApi from './modules/tool';
+import uploadApi from './modules/upload';
 
 // 导出所有类型
 export * from './types';
@@ -16,7 +17,8 @@ export {
   userApi,
   configApi,
   conversationApi,
-  toolApi
+  toolApi,
+  uploadApi
 };
 
 // 默认导出合并的API对象
@@ -26,4 +28,5 @@ export default {
   config: configApi,
   conversation: conversationApi,
   tool: toolApi,
+  upload: uploadApi,
 }; 
\ No newline at end of file
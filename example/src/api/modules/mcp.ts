@@ -1,5 +1,5 @@
 import api from '../instance';
-import type { Mcp, UserMcps, ApiResponse } from '../types';
+import type { Mcp, McpPrompt, McpPromptMessage, McpResource, McpSamplingPolicy, UserMcps, ApiResponse } from '../types';
 
 /**
  * MCP相关API
@@ -23,12 +23,38 @@ export const mcpApi = {
    * 更新用户已启用的MCP
    * @param enabledMcps 启用的MCP名称列表（可选）
    * @param mcpConfigs MCP配置（可选）
+   * @param samplingPolicy 采样策略（可选）
    */
-  updateUserMcps: (enabledMcps?: string[], mcpConfigs?: Record<string, any>): ApiResponse<{
+  updateUserMcps: (enabledMcps?: string[], mcpConfigs?: Record<string, any>, samplingPolicy?: McpSamplingPolicy): ApiResponse<{
     message: string;
     enabledMcps: string[];
     mcpConfigs: Record<string, any>;
+    samplingPolicy: McpSamplingPolicy;
   }> => {
-    return api.put('/user/mcps', { enabledMcps, mcpConfigs });
+    return api.put('/user/mcps', { enabledMcps, mcpConfigs, samplingPolicy });
   },
-}; 
\ No newline at end of file
+
+  /**
+   * 获取已启用的MCP提供的资源
+   */
+  getResources: (): ApiResponse<McpResource[]> => {
+    return api.get('/user/mcps/resources');
+  },
+
+  /**
+   * 获取已启用的MCP提供的提示模板
+   */
+  getPrompts: (): ApiResponse<McpPrompt[]> => {
+    return api.get('/user/mcps/prompts');
+  },
+
+  /**
+   * 按参数生成提示模板的消息
+   * @param server MCP名称
+   * @param name 提示模板名称
+   * @param args 提示模板参数
+   */
+  getPrompt: (server: string, name: string, args: Record<string, string> = {}): ApiResponse<McpPromptMessage[]> => {
+    return api.post('/user/mcps/prompts/get', { server, name, arguments: args });
+  },
+};
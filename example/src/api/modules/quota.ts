@@ -0,0 +1,16 @@
+import api from '../instance';
+import type { QuotaStatus, ApiResponse } from '../types';
+
+/**
+ * 配额相关API
+ */
+export const quotaApi = {
+  /**
+   * 获取用户当天的配额使用情况
+   */
+  getUserQuota: (): ApiResponse<QuotaStatus> => {
+    return api.get('/user/quota');
+  },
+};
+
+export default quotaApi;
@@ -1,5 +1,5 @@
 import api from '../instance';
-import type { Tool, UserTools, ApiResponse } from '../types';
+import type { Tool, UserTools, ApiResponse, ToolApprovalDecision } from '../types';
 
 /**
  * 工具相关API
@@ -31,6 +31,15 @@ export const toolApi = {
   }> => {
     return api.put('/user/tools', { enabledTools, toolConfigs });
   },
+
+  /**
+   * 提交工具调用审批结果
+   * @param approvalId 审批ID
+   * @param decision 审批结果
+   */
+  respondApproval: (approvalId: string, decision: ToolApprovalDecision): ApiResponse<{ success: boolean }> => {
+    return api.post(`/tool-approvals/${encodeURIComponent(approvalId)}`, decision);
+  },
 };
 
 export default toolApi; 
\ No newline at end of file
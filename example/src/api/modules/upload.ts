@@ -0,0 +1,43 @@
+import api from '../instance';
+import type { Attachment, ApiResponse } from '../types';
+
+/**
+ * 读取文件内容为 base64 字符串（不含 data URL 前缀）
+ * @param file 文件
+ */
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^;]*;base64,/, ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * 附件相关API
+ */
+export const uploadApi = {
+  /**
+   * 上传附件
+   * @param file 要上传的文件（图片、PDF、音频）
+   */
+  upload: async (file: File): ApiResponse<Attachment> => {
+    const data = await readFileAsBase64(file);
+    return api.post('/uploads', {
+      name: file.name,
+      mimeType: file.type || 'application/octet-stream',
+      data
+    }, { timeout: 120000 });
+  },
+
+  /**
+   * 获取附件文件内容
+   * @param id 附件ID
+   */
+  getFile: (id: string): ApiResponse<Blob> => {
+    return api.get(`/uploads/${id}`, { responseType: 'blob' });
+  },
+};
+
+export default uploadApi;
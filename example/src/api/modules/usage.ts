@@ -0,0 +1,46 @@
+import api from '../instance';
+import type { UsageTotals, UsageBreakdownItem, UsageRange, ApiResponse } from '../types';
+
+type UsageBreakdown = ApiResponse<Required<UsageRange> & { items: UsageBreakdownItem[] }>;
+
+/**
+ * 用量相关API，未指定日期范围时统计最近30天
+ */
+export const usageApi = {
+  /**
+   * 获取用量汇总
+   */
+  getSummary: (range?: UsageRange): ApiResponse<Required<UsageRange> & { totals: UsageTotals }> => {
+    return api.get('/usage/summary', { params: range });
+  },
+
+  /**
+   * 按天统计用量
+   */
+  getDaily: (range?: UsageRange): UsageBreakdown => {
+    return api.get('/usage/daily', { params: range });
+  },
+
+  /**
+   * 按模型统计用量
+   */
+  getByModel: (range?: UsageRange): UsageBreakdown => {
+    return api.get('/usage/models', { params: range });
+  },
+
+  /**
+   * 按会话统计用量
+   */
+  getByConversation: (range?: UsageRange): UsageBreakdown => {
+    return api.get('/usage/conversations', { params: range });
+  },
+
+  /**
+   * 按用户统计所有用户的用量，仅管理员可用
+   */
+  getByUser: (range?: UsageRange): UsageBreakdown => {
+    return api.get('/usage/users', { params: range });
+  },
+};
+
+export default usageApi;
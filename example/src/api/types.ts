@@ -41,6 +41,23 @@ export interface FunctionCall {
   name: string;
   arguments: Record<string, any>;
   result?: any;
+  approvalId?: string; // 等待审批时的审批ID
+  approvalStatus?: 'pending' | 'submitted'; // 审批状态：等待审批或已提交审批结果
+  approval?: 'approved' | 'edited' | 'denied'; // 审批结果
+}
+
+// 工具调用审批结果
+export type ToolApprovalDecision =
+  | { type: 'approve' }
+  | { type: 'edit'; arguments: Record<string, any> }
+  | { type: 'deny'; reason?: string };
+
+// 附件相关类型
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
 }
 
 export interface ChatMessage {
@@ -50,6 +67,7 @@ export interface ChatMessage {
   content: string;
   blocks?: ContentBlock[];
   functionCalls?: FunctionCall[];
+  attachments?: Attachment[];
   timestamp: Date;
 }
 
@@ -74,17 +92,127 @@ export interface UserTools {
 }
 
 // MCP相关类型
+// MCP传输方式
+export type McpTransportType = 'stdio' | 'sse' | 'streamable-http';
+
 export interface Mcp {
   name: string;
   desc?: string;
-  command: string;
-  args: string[];
+  transport?: McpTransportType;
+  command?: string;
+  args?: string[];
   env?: Record<string, string>;
+  url?: string;
+  headers?: Record<string, string>;
+}
+
+// MCP资源引用
+export interface McpResourceReference {
+  uri: string;
+  server?: string;
+}
+
+// MCP资源
+export interface McpResource extends McpResourceReference {
+  name: string;
+  description?: string;
+  mimeType?: string;
 }
 
+// MCP提示模板
+export interface McpPrompt {
+  name: string;
+  server?: string;
+  description?: string;
+  arguments?: Array<{
+    name: string;
+    description?: string;
+    required?: boolean;
+  }>;
+}
+
+// MCP提示模板生成的消息
+export interface McpPromptMessage {
+  role: 'user' | 'assistant';
+  content: string | Array<{ type: string; text?: string }>;
+}
+
+// MCP采样策略
+export interface McpSamplingPolicy {
+  enabled: boolean;
+  maxTokens?: number;
+}
+
+// MCP服务发起的信息征询
+export interface McpElicitation {
+  elicitationId: string;
+  server?: string;
+  message: string;
+  requestedSchema: {
+    type?: string;
+    properties?: Record<string, {
+      type?: string;
+      title?: string;
+      description?: string;
+      enum?: string[];
+    }>;
+    required?: string[];
+  };
+}
+
+// 信息征询的回答
+export type McpElicitationResult =
+  | { action: 'accept'; content: Record<string, any> }
+  | { action: 'decline' }
+  | { action: 'cancel' };
+
 export interface UserMcps {
   enabledMcps: string[];
   mcpConfigs: Record<string, any>;
+  samplingPolicy: McpSamplingPolicy;
+}
+
+// 配额相关类型
+// 单项配额的使用情况，limit 为0时不限制，此时 remaining 为 null
+export interface QuotaUsage {
+  used: number;
+  limit: number;
+  remaining: number | null;
+}
+
+// 用户当天的配额状态
+export interface QuotaStatus {
+  date: string;
+  requests: QuotaUsage;
+  tokens: QuotaUsage;
+  requestsPerMinute: number;
+  resetAt: string;
+}
+
+// 用量相关类型
+// 用量汇总，cost 为按价格表估算的费用（美元）
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  toolCalls: number;
+  averageLatency: number;
+  cost: number;
+  errors: number;
+}
+
+// 分组的用量，key 为日期、模型、会话ID或用户ID
+export interface UsageBreakdownItem extends UsageTotals {
+  key: string | null;
+  title?: string | null;
+  username?: string | null;
+}
+
+// 用量查询的日期范围，格式为 YYYY-MM-DD
+export interface UsageRange {
+  from?: string;
+  to?: string;
 }
 
 // 响应类型
@@ -1,9 +1,10 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import { conversationApi } from '../api/modules/conversation'
-import { startAIStreamChat as startSocketStreamChat } from '../utils/socket-ai'
+import { toolApi } from '../api/modules/tool'
+import { startAIStreamChat as startSocketStreamChat, respondToolApproval as respondSocketToolApproval } from '../utils/socket-ai'
 import { startAIStreamChat as startSSEStreamChat } from '../utils/sse-ai'
-import type { ContentBlock, FunctionCall, ChatMessage, Conversation } from '../api/types'
+import type { Attachment, ContentBlock, FunctionCall, ChatMessage, Conversation, McpResourceReference, ToolApprovalDecision } from '../api/types'
 
 // 扩展API消息类型，添加前端需要的临时属性
 interface ExtendedChatMessage extends ChatMessage {
@@ -28,6 +29,9 @@ export const useChatStore = defineStore('chat', () => {
   // 消息发送状态
   const isSending = ref(false)
 
+  // 当前请求的取消控制器
+  let abortController: AbortController | null = null
+
   // 当前活跃会话的消息列表
   const activeMessages = ref<ExtendedChatMessage[]>([])
 
@@ -162,13 +166,17 @@ export const useChatStore = defineStore('chat', () => {
   /**
    * 发送消息到AI并处理响应
    * @param content 消息内容
+   * @param attachments 附件列表
+   * @param resources 作为上下文附加的MCP资源
    */
-  async function sendMessageToAI(content: string) {
+  async function sendMessageToAI(content: string, attachments: Attachment[] = [], resources: McpResourceReference[] = []) {
     if (!activeConversationId.value) return null
     
     // 防止重复发送
     if (isSending.value) return null
     isSending.value = true
+    abortController = new AbortController()
+    const signal = abortController.signal
     
     // 创建一个模拟的用户消息
     let userMessage: ExtendedChatMessage = {
@@ -176,6 +184,7 @@ export const useChatStore = defineStore('chat', () => {
       conversationId: activeConversationId.value,
       content,
       role: 'user',
+      attachments: attachments.length > 0 ? attachments : undefined,
       timestamp: new Date(),
       isLoading: false
     }
@@ -252,6 +261,19 @@ export const useChatStore = defineStore('chat', () => {
           loadingMessage.functionCalls.push(call)
         },
         
+        onFunctionCallApproval: (call) => {
+          console.log('函数调用等待审批:', call.name)
+          
+          // 标记工具块为等待审批，显示批准/拒绝按钮
+          const block = loadingMessage.blocks?.find(
+            item => item.type === 'tool' && item.data?.id === call.id
+          )
+          
+          if (block) {
+            block.data = { ...block.data, ...call, approvalStatus: 'pending' }
+          }
+        },
+        
         onFunctionCallEnd: (call) => {
           // 确保isLoading为true以维持打字机效果
           loadingMessage.isLoading = true
@@ -310,7 +332,12 @@ export const useChatStore = defineStore('chat', () => {
           loadingMessage.content = `发生错误: ${error}`
           loadingMessage.isLoading = false
         }
-      })
+      }, attachments.map(item => item.id), signal, resources)
+
+      // 已取消时结束加载状态，保留已生成的内容
+      if (signal.aborted) {
+        loadingMessage.isLoading = false
+      }
       
       // 流式处理完成后返回当前消息
       return {
@@ -337,7 +364,37 @@ export const useChatStore = defineStore('chat', () => {
       throw error
     } finally {
       isSending.value = false
+      abortController = null
+    }
+  }
+
+  /**
+   * 提交工具调用审批结果
+   * @param approvalId 审批ID
+   * @param decision 审批结果
+   */
+  async function respondToolApproval(approvalId: string, decision: ToolApprovalDecision) {
+    // 找到等待审批的工具块
+    const block = activeMessages.value
+      .flatMap(message => message.blocks || [])
+      .find(item => item.type === 'tool' && item.data?.approvalId === approvalId)
+    
+    if (useSSE.value) {
+      await toolApi.respondApproval(approvalId, decision)
+    } else {
+      await respondSocketToolApproval(approvalId, decision)
     }
+    
+    if (block?.data) {
+      block.data = { ...block.data, approvalStatus: 'submitted' }
+    }
+  }
+
+  /**
+   * 取消正在进行的AI响应
+   */
+  function cancelMessage() {
+    abortController?.abort()
   }
 
   // 在Pinia store创建时自动初始化
@@ -357,6 +414,8 @@ export const useChatStore = defineStore('chat', () => {
     deleteConversation,
     updateConversationTitle,
     updateSystemMessage,
-    sendMessageToAI
+    sendMessageToAI,
+    cancelMessage,
+    respondToolApproval
   }
 }) 
@@ -1,23 +1,41 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import { mcpApi } from '../api/modules/mcp'
-import type { Mcp } from '../api/types'
+import type { Mcp, McpSamplingPolicy, McpTransportType } from '../api/types'
 
 // MCP配置类型
 interface McpConfig {
   enabled: boolean;
   configs: {
     desc?: string;
-    command: string;
-    args: string[];
+    // 传输方式，默认为stdio
+    transport?: McpTransportType;
+    command?: string;
+    args?: string[];
     env?: Record<string, string>;
+    url?: string;
+    headers?: Record<string, string>;
   };
 }
 
+// 根据内置MCP生成配置
+function createPresetConfigs(mcp: Mcp): McpConfig['configs'] {
+  return {
+    desc: mcp.desc,
+    transport: mcp.transport,
+    command: mcp.command,
+    args: mcp.args ? [...mcp.args] : undefined,
+    env: mcp.env ? { ...mcp.env } : undefined,
+    url: mcp.url,
+    headers: mcp.headers ? { ...mcp.headers } : undefined
+  }
+}
+
 export const useMcpsStore = defineStore('mcps', () => {
   // MCP相关状态
   const mcps = ref<Mcp[]>([])
   const mcpConfigs = ref<Record<string, McpConfig>>({})
+  const samplingPolicy = ref<McpSamplingPolicy>({ enabled: false })
   const isLoading = ref<boolean>(false)
   const initialized = ref<boolean>(false)
   
@@ -31,9 +49,6 @@ export const useMcpsStore = defineStore('mcps', () => {
       .map(([name]) => name)
   )
   
-  // 获取当前激活的MCP（单选模式下，只能有一个）
-  const activeMcp = computed(() => enabledMcps.value.length > 0 ? enabledMcps.value[0] : null)
-  
   // 检查MCP是否可用
   function isMcpAvailable(mcpName: string): boolean {
     const config = mcpConfigs.value[mcpName]
@@ -42,8 +57,11 @@ export const useMcpsStore = defineStore('mcps', () => {
     }
     
     // 判断必要的配置是否齐全
-    const { command, args } = config.configs
-    return !!command && Array.isArray(args)
+    const { transport = 'stdio', command, args, url } = config.configs
+    if (transport === 'stdio') {
+      return !!command && Array.isArray(args)
+    }
+    return !!url
   }
   
   // 保存MCP配置到服务器
@@ -52,15 +70,6 @@ export const useMcpsStore = defineStore('mcps', () => {
       // 更新内存中的配置
       mcpConfigs.value[mcpName] = config
       
-      // 如果启用了此MCP，则确保其他MCP被禁用（单选模式）
-      if (config.enabled) {
-        for (const name in mcpConfigs.value) {
-          if (name !== mcpName && mcpConfigs.value[name].enabled) {
-            mcpConfigs.value[name].enabled = false
-          }
-        }
-      }
-      
       // 准备MCP配置数据
       const enabledMcps = Object.entries(mcpConfigs.value)
         .filter(([_, config]) => config.enabled)
@@ -78,6 +87,17 @@ export const useMcpsStore = defineStore('mcps', () => {
     }
   }
   
+  // 更新采样策略
+  async function updateSamplingPolicy(policy: McpSamplingPolicy): Promise<void> {
+    try {
+      const response = await mcpApi.updateUserMcps(undefined, undefined, policy)
+      samplingPolicy.value = response.data.samplingPolicy
+    } catch (error) {
+      console.error('保存采样策略失败:', error)
+      throw error
+    }
+  }
+  
   // 启用或禁用MCP
   async function toggleMcpEnabled(mcpName: string, enabled: boolean): Promise<void> {
     try {
@@ -95,12 +115,7 @@ export const useMcpsStore = defineStore('mcps', () => {
           // 使用预设配置
           config = {
             enabled,
-            configs: {
-              desc: presetMcp.desc,
-              command: presetMcp.command,
-              args: [...presetMcp.args],
-              env: presetMcp.env ? { ...presetMcp.env } : undefined
-            }
+            configs: createPresetConfigs(presetMcp)
           }
         } else {
           // 创建空配置
@@ -119,12 +134,7 @@ export const useMcpsStore = defineStore('mcps', () => {
           if (presetMcp) {
             config = {
               enabled: true,
-              configs: {
-                desc: presetMcp.desc,
-                command: presetMcp.command,
-                args: [...presetMcp.args],
-                env: presetMcp.env ? { ...presetMcp.env } : undefined
-              }
+              configs: createPresetConfigs(presetMcp)
             }
           }
         } else {
@@ -185,10 +195,8 @@ export const useMcpsStore = defineStore('mcps', () => {
       const config: McpConfig = {
         enabled: true,
         configs: {
-          command: mcpConfig.command || '',
-          args: mcpConfig.args || [],
-          desc: mcpConfig.desc,
-          env: mcpConfig.env
+          ...mcpConfig,
+          transport: mcpConfig.transport || 'stdio'
         }
       }
       
@@ -222,17 +230,13 @@ export const useMcpsStore = defineStore('mcps', () => {
       const userMcpsResponse = await mcpApi.getUserMcps()
       if (userMcpsResponse.data) {
         const { enabledMcps: userEnabledMcps, mcpConfigs: userMcpConfigs } = userMcpsResponse.data
+        samplingPolicy.value = userMcpsResponse.data.samplingPolicy || { enabled: false }
         
         // 初始化每个MCP的配置
         // 先添加内置MCP
         for (const mcp of mcps.value) {
           const isEnabled = userEnabledMcps.includes(mcp.name)
-          const configs = userMcpConfigs[mcp.name] || {
-            command: mcp.command,
-            args: mcp.args,
-            desc: mcp.desc,
-            env: mcp.env
-          }
+          const configs = userMcpConfigs[mcp.name] || createPresetConfigs(mcp)
           
           mcpConfigs.value[mcp.name] = {
             enabled: isEnabled,
@@ -263,14 +267,15 @@ export const useMcpsStore = defineStore('mcps', () => {
   return {
     allMcps,
     enabledMcps,
-    activeMcp,
     mcpConfigs,
+    samplingPolicy,
     isLoading,
     initialized,
     isMcpAvailable,
     toggleMcpEnabled,
     updateMcpConfig,
     addCustomMcp,
+    updateSamplingPolicy,
     initialize
   }
 }) 
\ No newline at end of file
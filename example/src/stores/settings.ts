@@ -1,11 +1,14 @@
 import { defineStore } from 'pinia'
 import { ref } from 'vue'
 import configApi from '../api/modules/config'
+import quotaApi from '../api/modules/quota'
+import type { QuotaStatus } from '../api/types'
 
 export const useSettingsStore = defineStore('settings', () => {
   const geminiApiKey = ref<string>('')
   const isLoading = ref<boolean>(false)
   const initialized = ref<boolean>(false)
+  const quota = ref<QuotaStatus | null>(null)
 
   // 保存设置到服务器
   async function saveSetting(type: string, value: string): Promise<void> {
@@ -84,6 +87,16 @@ export const useSettingsStore = defineStore('settings', () => {
     }
   }
   
+  // 获取当天的配额使用情况
+  async function loadQuota() {
+    try {
+      const response = await quotaApi.getUserQuota()
+      quota.value = response.data
+    } catch (error) {
+      console.error('获取配额失败:', error)
+    }
+  }
+  
   // 不再自动初始化
   // initialize()
   
@@ -91,7 +104,9 @@ export const useSettingsStore = defineStore('settings', () => {
     geminiApiKey,
     isLoading,
     initialized,
+    quota,
     initialize,
+    loadQuota,
     saveGeminiApiKey,
     clearGeminiApiKey
   }
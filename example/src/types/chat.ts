@@ -8,6 +8,9 @@ export interface FunctionCall {
   executionTime?: number
   result?: any
   executing?: boolean // 是否正在执行中
+  approvalId?: string // 等待审批时的审批ID
+  approvalStatus?: 'pending' | 'submitted' // 审批状态：等待审批或已提交审批结果
+  approval?: 'approved' | 'edited' | 'denied' // 审批结果
 }
 
 // 内容块类型定义
@@ -1,5 +1,5 @@
 import { getSocket, onEvent, offEvent, emitEvent } from './socket';
-import type { ContentBlock, FunctionCall } from '../api/types';
+import type { ContentBlock, FunctionCall, McpElicitationResult, McpResourceReference, ToolApprovalDecision } from '../api/types';
 
 /**
  * AI流式响应回调类型
@@ -9,6 +9,7 @@ export interface AIStreamCallbacks {
   onContent?: (content: string) => void;
   onFunctionCallStart?: (call: FunctionCall) => void;
   onFunctionCallEnd?: (call: FunctionCall) => void;
+  onFunctionCallApproval?: (call: FunctionCall) => void;
   onComplete?: (result: {
     userMessage: any,
     assistantMessage: any
@@ -21,11 +22,17 @@ export interface AIStreamCallbacks {
  * @param conversationId 会话ID
  * @param content 用户消息内容
  * @param callbacks 回调函数集合
+ * @param attachmentIds 附件ID列表
+ * @param signal 取消信号，取消后服务端停止生成并返回已生成的内容
+ * @param resources 作为上下文附加的MCP资源
  */
 export function startAIStreamChat(
   conversationId: string, 
   content: string,
-  callbacks: AIStreamCallbacks
+  callbacks: AIStreamCallbacks,
+  attachmentIds: string[] = [],
+  signal?: AbortSignal,
+  resources: McpResourceReference[] = []
 ): Promise<boolean> {
   return new Promise((resolve, reject) => {
     // 获取socket实例
@@ -98,6 +105,22 @@ export function startAIStreamChat(
             }
           }
         }
+      } else if (type === 'functionCallApprovalRequired' && eventData.functionCall) {
+        const call = { ...eventData.functionCall, approvalId: eventData.approvalId };
+        const blockIndex = contentBlocks.findIndex(
+          block => block.type === 'tool' && block.data?.id === call.id
+        );
+        if (blockIndex !== -1) {
+          contentBlocks[blockIndex].data = { ...contentBlocks[blockIndex].data, ...call };
+        }
+        
+        if (callbacks.onFunctionCallApproval) {
+          try {
+            callbacks.onFunctionCallApproval(call);
+          } catch (err) {
+            console.error('函数调用审批回调错误:', err);
+          }
+        }
       } else if (type === 'functionCallEnd' && eventData.functionCalls && eventData.functionCalls.length > 0) {
         for (const call of eventData.functionCalls) {
           const blockIndex = contentBlocks.findIndex(
@@ -147,15 +170,22 @@ export function startAIStreamChat(
     onEvent('ai:chatComplete', handleComplete);
     onEvent('ai:chatError', handleError);
     
+    // 取消时通知服务端停止生成，服务端仍会发送完成事件
+    const handleAbort = () => {
+      emitEvent('ai:cancel', { conversationId });
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+    
     // 清理函数，用于移除所有监听器
     const cleanup = () => {
       offEvent('ai:chatUpdate', handleUpdate);
       offEvent('ai:chatComplete', handleComplete);
       offEvent('ai:chatError', handleError);
+      signal?.removeEventListener('abort', handleAbort);
     };
     
     // 发送流式聊天请求
-    emitEvent('ai:chatStream', { conversationId, content }, (response: any) => {
+    emitEvent('ai:chatStream', { conversationId, content, attachmentIds, resources }, (response: any) => {
       if (!response.success) {
         const errorMsg = response.error || '发送消息失败';
         if (callbacks.onError) callbacks.onError(errorMsg);
@@ -166,6 +196,52 @@ export function startAIStreamChat(
   });
 }
 
+/**
+ * 提交工具调用审批结果
+ * @param approvalId 审批ID
+ * @param decision 审批结果
+ */
+export function respondToolApproval(approvalId: string, decision: ToolApprovalDecision): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (!getSocket()) {
+      reject(new Error('未连接到WebSocket服务器'));
+      return;
+    }
+    
+    emitEvent('ai:toolApproval', { approvalId, decision }, (response: any) => {
+      if (response?.success) {
+        resolve();
+      } else {
+        reject(new Error(response?.error || '提交审批结果失败'));
+      }
+    });
+  });
+}
+
+/**
+ * 回答MCP服务的信息征询
+ * @param elicitationId 信息征询ID
+ * @param result 回答
+ */
+export function respondElicitation(elicitationId: string, result: McpElicitationResult): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (!getSocket()) {
+      reject(new Error('未连接到WebSocket服务器'));
+      return;
+    }
+    
+    emitEvent('mcp:elicitationResponse', { elicitationId, result }, (response: any) => {
+      if (response?.success) {
+        resolve();
+      } else {
+        reject(new Error(response?.error || '提交回答失败'));
+      }
+    });
+  });
+}
+
 export default {
-  startAIStreamChat
+  startAIStreamChat,
+  respondToolApproval,
+  respondElicitation
 }; 
\ No newline at end of file
@@ -1,4 +1,4 @@
-import type { ContentBlock, FunctionCall } from '../api/types';
+import type { ContentBlock, FunctionCall, McpResourceReference } from '../api/types';
 import { fetchEventSource } from '@microsoft/fetch-event-source';
 
 /**
@@ -9,6 +9,7 @@ export interface AIStreamCallbacks {
   onContent?: (content: string) => void;
   onFunctionCallStart?: (call: FunctionCall) => void;
   onFunctionCallEnd?: (call: FunctionCall) => void;
+  onFunctionCallApproval?: (call: FunctionCall) => void;
   onComplete?: (result: {
     userMessage: any,
     assistantMessage: any
@@ -21,11 +22,17 @@ export interface AIStreamCallbacks {
  * @param conversationId 会话ID
  * @param content 用户消息内容
  * @param callbacks 回调函数集合
+ * @param attachmentIds 附件ID列表
+ * @param signal 取消信号，取消后断开连接，服务端会保存已生成的内容
+ * @param resources 作为上下文附加的MCP资源
  */
 export function startAIStreamChat(
   conversationId: string, 
   content: string,
-  callbacks: AIStreamCallbacks
+  callbacks: AIStreamCallbacks,
+  attachmentIds: string[] = [],
+  signal?: AbortSignal,
+  resources: McpResourceReference[] = []
 ): Promise<boolean> {
   return new Promise((resolve, reject) => {
     // 立即通知开始，确保UI可以立即显示加载状态
@@ -70,6 +77,12 @@ export function startAIStreamChat(
     const url = `${baseURL}/conversations/${encodeURIComponent(conversationId)}/messages/stream`;
     const controller = new AbortController();
 
+    // 外部取消时断开连接，保留已接收的内容
+    signal?.addEventListener('abort', () => {
+      controller.abort();
+      resolve(true);
+    }, { once: true });
+
     // 处理SSE事件
     function handleEvent(eventType: string, data: any) {
       switch (eventType) {
@@ -118,6 +131,23 @@ export function startAIStreamChat(
           }
           break;
           
+        case 'functionCallApprovalRequired':
+          if (data.functionCall) {
+            const call = { ...data.functionCall, approvalId: data.approvalId };
+            const blockIndex = contentBlocks.findIndex(
+              block => block.type === 'tool' && block.data?.id === call.id
+            );
+            
+            if (blockIndex !== -1) {
+              contentBlocks[blockIndex].data = { ...contentBlocks[blockIndex].data, ...call };
+            }
+            
+            if (callbacks.onFunctionCallApproval) {
+              callbacks.onFunctionCallApproval(call);
+            }
+          }
+          break;
+          
         case 'complete':
           if (callbacks.onComplete) {
             // 构造返回的消息结构以匹配WebSocket版本
@@ -159,7 +189,7 @@ export function startAIStreamChat(
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${token}`
       },
-      body: JSON.stringify({ content }),
+      body: JSON.stringify({ content, attachmentIds, resources }),
       signal: controller.signal,
       
       // 处理打开连接
@@ -171,6 +201,11 @@ export function startAIStreamChat(
             localStorage.removeItem('token');
             errorMessage = '认证失败，请重新登录';
           }
+          // 超出配额时服务端返回错误原因和重置时间
+          if (response.status === 429) {
+            const data = await response.json().catch(() => null);
+            errorMessage = data?.error || '请求过于频繁，请稍后重试';
+          }
           if (callbacks.onError) {
             callbacks.onError(errorMessage);
           }
@@ -191,7 +226,7 @@ export function startAIStreamChat(
       // 处理关闭连接
       onclose() {
         // 如果未完成则视为错误
-        if (fullContent === '') {
+        if (fullContent === '' && !signal?.aborted) {
           const errorMessage = '连接被意外关闭';
           if (callbacks.onError) {
             callbacks.onError(errorMessage);
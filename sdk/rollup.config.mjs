@@ -1,4 +1,5 @@
 import commonjs from '@rollup/plugin-commonjs'
+import json from '@rollup/plugin-json'
 import { nodeResolve } from '@rollup/plugin-node-resolve'
 import typescript from '@rollup/plugin-typescript'
 import dts from 'rollup-plugin-dts'
@@ -56,6 +57,8 @@ function createBuildConfig(module) {
     plugins: [
       nodeResolve(),
       commonjs(),
+      // ajv 依赖中包含 JSON 文件
+      json(),
       typescript({
         tsconfig: './tsconfig.json',
         compilerOptions: {
@@ -0,0 +1,128 @@
+import { z } from 'zod'
+import { MockModel } from '../models/mock'
+import { UnifiedAI } from '../models/unified'
+import { ChatRole } from '../types'
+import { ArgumentValidator, ContentHelper } from '../utils'
+import { createWeatherFunction } from './helpers'
+
+describe('argumentValidator tests', () => {
+  it('按 Zod 模式校验并转换函数参数', async () => {
+    const forecastFunction = {
+      name: 'getForecast',
+      description: '获取未来几天的天气预报',
+      parameters: z.object({ city: z.string(), days: z.number().int() }),
+      executor: jest.fn(async ({ city, days }) => ({ city, days })),
+    }
+    const model = new MockModel({
+      responses: [
+        { functionCalls: [{ id: 'call_1', name: 'getForecast', arguments: { city: '北京', days: '3' } }] },
+        '北京未来三天晴朗',
+      ],
+    })
+    const ai = new UnifiedAI(model, { functions: [forecastFunction] })
+
+    await ai.unifiedChat('北京未来三天天气怎么样？')
+
+    expect(forecastFunction.executor).toHaveBeenCalledWith({ city: '北京', days: 3 }, undefined, { signal: undefined })
+  })
+
+  it('参数校验失败时把错误返回给模型', async () => {
+    const weatherFunction = createWeatherFunction()
+    const model = new MockModel({
+      responses: [
+        { functionCalls: [{ id: 'call_1', name: 'getWeather', arguments: {} }] },
+        { functionCalls: [{ id: 'call_2', name: 'getWeather', arguments: { city: '北京' } }] },
+        '北京今天晴朗',
+      ],
+    })
+    const ai = new UnifiedAI(model, { functions: [weatherFunction] })
+
+    const response = await ai.unifiedChat('北京天气怎么样？')
+
+    expect(weatherFunction.executor).toHaveBeenCalledTimes(1)
+    expect(response.content).toBe('北京今天晴朗')
+    const toolMessage = model.calls[1].options?.history?.find(m => m.role === ChatRole.TOOL)
+    expect(JSON.parse(ContentHelper.getText(toolMessage!.content))).toEqual({
+      error: expect.stringContaining('参数校验失败'),
+      issues: [{ path: 'city', message: expect.any(String) }],
+    })
+  })
+
+  it('按 JSON Schema 校验函数参数', async () => {
+    const counterFunction = {
+      name: 'count',
+      description: '计数',
+      parameters: {
+        type: 'object',
+        properties: { count: { type: 'integer' } },
+        required: ['count'],
+      },
+      executor: jest.fn(async ({ count }) => ({ count })),
+    }
+    const model = new MockModel({
+      responses: [
+        {
+          functionCalls: [
+            { id: 'call_1', name: 'count', arguments: { count: 'abc' } },
+            { id: 'call_2', name: 'count', arguments: { count: '5' } },
+          ],
+        },
+        '完成',
+      ],
+    })
+    const ai = new UnifiedAI(model, { functions: [counterFunction] })
+
+    const response = await ai.unifiedChat('数一下')
+
+    expect(counterFunction.executor).toHaveBeenCalledTimes(1)
+    expect(counterFunction.executor).toHaveBeenCalledWith({ count: 5 }, undefined, { signal: undefined })
+    expect((response as any).functionCalls).toEqual([
+      expect.objectContaining({ id: 'call_1', result: expect.objectContaining({ issues: [{ path: 'count', message: expect.any(String) }] }) }),
+      expect.objectContaining({ id: 'call_2', result: { count: 5 } }),
+    ])
+  })
+
+  it('相同的参数模式只编译一次，编译结果不保留在校验器中', () => {
+    const ajv = (ArgumentValidator as any).ajv
+    const cacheSize = ajv._cache.size
+    const createFunction = () => ({
+      name: 'count',
+      parameters: { type: 'object', properties: { count: { type: 'integer' } }, required: ['count'] },
+    })
+
+    for (let i = 0; i < 100; i++) {
+      expect(ArgumentValidator.validate(createFunction(), { count: '5' })).toEqual({ success: true, data: { count: 5 } })
+    }
+
+    expect(ajv._cache.size).toBe(cacheSize)
+  })
+
+  it('不同工具的参数模式使用相同的 $id 时分别校验', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+    const searchFunction = {
+      name: 'search',
+      parameters: { $id: 'input', type: 'object', properties: { query: { type: 'string' } }, required: ['query'] },
+    }
+    const fetchFunction = {
+      name: 'fetch',
+      parameters: { $id: 'input', type: 'object', properties: { url: { type: 'string' } }, required: ['url'] },
+    }
+
+    expect(ArgumentValidator.validate(searchFunction, {}).success).toBe(false)
+    expect(ArgumentValidator.validate(fetchFunction, {})).toEqual({
+      success: false,
+      issues: [{ path: 'url', message: expect.any(String) }],
+    })
+    expect(warn).not.toHaveBeenCalled()
+    warn.mockRestore()
+  })
+
+  it('无法编译的参数模式跳过校验并输出警告', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+    const brokenFunction = { name: 'broken', parameters: { type: 'object', properties: { value: { $ref: '#/missing' } } } }
+
+    expect(ArgumentValidator.validate(brokenFunction, { value: 1 })).toEqual({ success: true, data: { value: 1 } })
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining(`函数 'broken'`))
+    warn.mockRestore()
+  })
+})
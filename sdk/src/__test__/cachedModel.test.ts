@@ -0,0 +1,123 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { z } from 'zod'
+import { FileCacheStore, LruCacheStore } from '../cache'
+import { CachedModel } from '../models/cached'
+import { MockModel } from '../models/mock'
+import { ChatRole } from '../types'
+import { ContentHelper } from '../utils'
+import { collect } from './helpers'
+
+describe('cachedModel tests', () => {
+  it('缓存模型复用相同请求的响应并按片段回放流式响应', async () => {
+    const model = new MockModel({
+      responses: [
+        { content: '标题：天气', usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 } },
+        { chunks: ['你好', '，', '我是助手'] },
+        '新的标题',
+      ],
+    })
+    const cached = new CachedModel(model, { ttl: 1000 })
+    const history = [{ role: ChatRole.USER, content: '你好' }, { role: ChatRole.ASSISTANT, content: '你好！' }]
+
+    // 空白、纯文本和文本片段、选项顺序的差异不影响缓存键
+    const first = await cached.unifiedChat('生成标题', { history, temperature: 0 })
+    const second = await cached.unifiedChat(' 生成标题 ', { temperature: 0, history: [{ ...history[0], content: [{ type: 'text', text: '你好' }] }, history[1]] })
+    expect(second.content).toBe(first.content)
+    expect(first.usage?.totalTokens).toBe(15)
+    expect(second.usage).toBeUndefined()
+    expect(model.calls).toHaveLength(1)
+
+    // 流式响应完整读取后缓存，命中时按原来的片段回放
+    const streamed = await collect(cached.unifiedChatStream('你好'))
+    const replayed = await collect(cached.unifiedChatStream('你好'))
+    expect(replayed.map(chunk => chunk.content)).toEqual(streamed.map(chunk => chunk.content))
+    expect(model.calls).toHaveLength(2)
+
+    // 过期后重新请求模型
+    const now = Date.now()
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now + 2000)
+    expect((await cached.unifiedChat('生成标题', { history, temperature: 0 })).content).toBe('新的标题')
+    spy.mockRestore()
+    expect(model.calls).toHaveLength(3)
+
+    // LRU 缓存超出数量时移除最久未使用的缓存，文件缓存在新实例中仍然有效
+    const lru = new LruCacheStore({ maxEntries: 2 })
+    await lru.set('a', { type: 'chat', response: 'a' })
+    await lru.set('b', { type: 'chat', response: 'b' })
+    await lru.get('a')
+    await lru.set('c', { type: 'chat', response: 'c' })
+    expect(await lru.get('b')).toBeUndefined()
+    expect(await lru.get('a')).toEqual({ type: 'chat', response: 'a' })
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'unified-ai-cache-'))
+    const fileModel = new MockModel({ responses: ['来自文件缓存'] })
+    await new CachedModel(fileModel, { store: new FileCacheStore({ dir }) }).unifiedChat('你好')
+    const fromFile = await new CachedModel(new MockModel(), { store: new FileCacheStore({ dir }) }).unifiedChat('你好')
+    expect(fromFile.content).toBe('来自文件缓存')
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('没有完整读取或出错的流式响应不缓存', async () => {
+    const model = new MockModel({
+      responses: [
+        { chunks: ['你好', '，', '我是助手'] },
+        { error: '服务繁忙' },
+        { chunks: ['你好', '！'] },
+      ],
+    })
+    const cached = new CachedModel(model)
+
+    // 读取第一个片段后停止
+    const partial = cached.unifiedChatStream('你好')
+    await partial.next()
+    await partial.return()
+    await expect(collect(cached.unifiedChatStream('你好'))).rejects.toThrow('服务繁忙')
+
+    const streamed = await collect(cached.unifiedChatStream('你好'))
+    const replayed = await collect(cached.unifiedChatStream('你好'))
+    expect(replayed.map(chunk => chunk.content)).toEqual(streamed.map(chunk => chunk.content))
+    expect(model.calls).toHaveLength(3)
+  })
+
+  it('不同的选项和命名空间使用不同的缓存，可以跳过或删除缓存', async () => {
+    const model = new MockModel({ defaultResponse: prompt => `回答 ${ContentHelper.getText(prompt)}` })
+    const store = new LruCacheStore()
+    const cached = new CachedModel(model, { store, shouldCache: prompt => ContentHelper.getText(prompt) !== '现在几点？' })
+
+    await cached.unifiedChat('你好', { temperature: 0 })
+    await cached.unifiedChat('你好', { temperature: 1 })
+    await cached.unifiedChat('你好', { systemMessage: '你是助手' })
+    await cached.unifiedChat('你好', { responseSchema: z.object({ answer: z.string() }) })
+    await new CachedModel(model, { store, namespace: 'title' }).unifiedChat('你好', { temperature: 0 })
+    expect(model.calls).toHaveLength(5)
+
+    await cached.unifiedChat('现在几点？')
+    await cached.unifiedChat('现在几点？')
+    expect(model.calls).toHaveLength(7)
+
+    await cached.invalidate('你好', { temperature: 0 })
+    await cached.unifiedChat('你好', { temperature: 0 })
+    expect(model.calls).toHaveLength(8)
+  })
+
+  it('缓存存储出错时直接请求模型', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+    const model = new MockModel({ defaultResponse: '你好' })
+    const store = {
+      get: jest.fn().mockRejectedValue(new Error('磁盘不可读')),
+      set: jest.fn().mockRejectedValue(new Error('磁盘已满')),
+      delete: jest.fn(),
+      clear: jest.fn(),
+    }
+    const cached = new CachedModel(model, { store })
+
+    expect((await cached.unifiedChat('你好')).content).toBe('你好')
+    expect((await cached.unifiedChat('你好')).content).toBe('你好')
+    expect(model.calls).toHaveLength(2)
+    expect(warn).toHaveBeenCalledWith('读取响应缓存失败: 磁盘不可读')
+    expect(warn).toHaveBeenCalledWith('写入响应缓存失败: 磁盘已满')
+    warn.mockRestore()
+  })
+})
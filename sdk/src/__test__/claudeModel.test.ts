@@ -0,0 +1,188 @@
+import type { IncomingMessage, Server, ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { createServer } from 'node:http'
+import { ClaudeModel } from '../models/claude'
+import { ChatRole } from '../types'
+
+type MockHandler = (body: Record<string, any>, res: ServerResponse) => void
+
+/**
+ * 以 Messages API 的 SSE 格式写出流式响应
+ */
+function writeStream(res: ServerResponse, events: Record<string, any>[]) {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+  for (const event of events) {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+  }
+  res.end()
+}
+
+describe('claudeModel tests', () => {
+  let server: Server
+  let baseURL: string
+  let handler: MockHandler
+  const requests: Record<string, any>[] = []
+
+  beforeAll(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      let raw = ''
+      req.on('data', (chunk) => {
+        raw += chunk
+      })
+      req.on('end', () => {
+        const body = JSON.parse(raw)
+        requests.push({ ...body, apiKey: req.headers['x-api-key'] })
+        handler(body, res)
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  beforeEach(() => {
+    requests.length = 0
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  it('历史记录与系统消息映射测试', async () => {
+    handler = (_body, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({
+        model: 'claude-test',
+        content: [{ type: 'text', text: '你好' }],
+        usage: { input_tokens: 10, output_tokens: 3 },
+      }))
+    }
+
+    const model = new ClaudeModel({ apiKey: 'test-key', baseURL })
+    const response = await model.unifiedChat('再说一遍', {
+      systemMessage: '你是助手',
+      history: [
+        { role: ChatRole.ASSISTANT, content: '欢迎' },
+        { role: ChatRole.USER, content: '你好' },
+        { role: ChatRole.USER, content: '在吗' },
+      ],
+    })
+
+    expect(response.content).toBe('你好')
+    expect(response.usage).toEqual({ promptTokens: 10, completionTokens: 3, totalTokens: 13 })
+    expect(requests[0].apiKey).toBe('test-key')
+    expect(requests[0].system).toBe('你是助手')
+    expect(requests[0].max_tokens).toBe(4096)
+    expect(requests[0].messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: '请继续。' }] },
+      { role: 'assistant', content: [{ type: 'text', text: '欢迎' }] },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: '你好' },
+          { type: 'text', text: '在吗' },
+          { type: 'text', text: '再说一遍' },
+        ],
+      },
+    ])
+  })
+
+  it('工具调用与工具结果消息映射测试', async () => {
+    handler = (_body, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ content: [{ type: 'text', text: '北京今天晴朗' }] }))
+    }
+
+    const model = new ClaudeModel({ apiKey: 'test-key', baseURL })
+    await model.unifiedChat('', {
+      history: [
+        { role: ChatRole.USER, content: '北京天气' },
+        { role: ChatRole.ASSISTANT, content: '', toolCalls: [{ id: 'toolu_1', name: 'getWeather', arguments: { city: '北京' } }] },
+        { role: ChatRole.TOOL, content: '{"condition":"晴朗"}', toolCallId: 'toolu_1', name: 'getWeather' },
+      ],
+    })
+
+    expect(requests[0].messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: '北京天气' }] },
+      { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'getWeather', input: { city: '北京' } }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: '{"condition":"晴朗"}' }] },
+    ])
+  })
+
+  it('图片与 PDF 附件映射测试', async () => {
+    handler = (_body, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ content: [{ type: 'text', text: '这是一份报告' }] }))
+    }
+
+    const model = new ClaudeModel({ apiKey: 'test-key', baseURL })
+    await model.unifiedChat([
+      { type: 'text', text: '总结一下' },
+      { type: 'image', data: 'aW1hZ2U=', mimeType: 'image/png' },
+      { type: 'file', data: 'cGRm', mimeType: 'application/pdf', name: 'report.pdf' },
+    ])
+
+    expect(requests[0].messages).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: '总结一下' },
+          { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'aW1hZ2U=' } },
+          { type: 'document', source: { type: 'base64', media_type: 'application/pdf', data: 'cGRm' }, title: 'report.pdf' },
+        ],
+      },
+    ])
+    await expect(model.unifiedChat([{ type: 'audio', data: 'YXVkaW8=', mimeType: 'audio/wav' }]))
+      .rejects
+      .toThrow(/不支持音频内容/)
+  })
+
+  it('流式 tool_use 转换为函数调用测试', async () => {
+    handler = (_body, res) => writeStream(res, [
+      { type: 'message_start', message: { usage: { input_tokens: 12, output_tokens: 1 } } },
+      { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '我来查一下' } },
+      { type: 'content_block_stop', index: 0 },
+      { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'getWeather', input: {} } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"city": ' } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"北京"}' } },
+      { type: 'content_block_stop', index: 1 },
+      { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 20 } },
+      { type: 'message_stop' },
+    ])
+
+    const model = new ClaudeModel({ apiKey: 'test-key', baseURL })
+    const chunks = []
+    for await (const chunk of model.unifiedChatStream('北京天气', {
+      tools: model.convertToolsFormat([{ name: 'getWeather', parameters: { city: { type: 'string' }, required: ['city'] } }]),
+    })) {
+      chunks.push(chunk)
+    }
+
+    expect(requests[0].tools[0].input_schema).toEqual({
+      type: 'object',
+      properties: { city: { type: 'string' } },
+      required: ['city'],
+    })
+    expect(chunks[0].content).toBe('我来查一下')
+    const lastChunk = chunks[chunks.length - 1]
+    expect(lastChunk.isLast).toBe(true)
+    expect(lastChunk.functionCalls).toEqual([
+      { id: 'toolu_1', name: 'getWeather', arguments: { city: '北京' } },
+    ])
+    expect(lastChunk.usage).toEqual({ promptTokens: 12, completionTokens: 20, totalTokens: 32 })
+  })
+
+  it('流式错误事件测试', async () => {
+    handler = (_body, res) => writeStream(res, [
+      { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+    ])
+
+    const model = new ClaudeModel({ apiKey: 'test-key', baseURL })
+    const consume = async () => {
+      for await (const _ of model.unifiedChatStream('你好')) {
+        // 消费流
+      }
+    }
+    await expect(consume()).rejects.toThrow(/Overloaded/)
+  })
+})
@@ -0,0 +1,111 @@
+import { z } from 'zod'
+import { MockModel } from '../models/mock'
+import { UnifiedAI } from '../models/unified'
+import { AgentEventType, ChatRole } from '../types'
+import { ContentHelper } from '../utils'
+import { collect } from './helpers'
+
+describe('contextBudget tests', () => {
+  it('超出上下文预算时移除较早的历史消息并截断过长的函数结果', async () => {
+    const report = '晴朗'.repeat(500)
+    const functions = [{
+      name: 'getReport',
+      description: '获取天气报告',
+      parameters: z.object({ city: z.string() }),
+      executor: async () => report,
+    }]
+    const history = Array.from({ length: 10 }, (_, i) => [
+      { role: ChatRole.USER, content: `第${i + 1}个问题：${'天气'.repeat(20)}` },
+      { role: ChatRole.ASSISTANT, content: `第${i + 1}个回答：${'晴朗'.repeat(20)}` },
+    ]).flat()
+
+    const baseTokens = await new UnifiedAI(new MockModel(), { functions }).countTokens('北京天气怎么样？')
+    const model = new MockModel({
+      responses: [
+        { functionCalls: [{ id: 'call_1', name: 'getReport', arguments: { city: '北京' } }] },
+        '北京今天晴朗',
+      ],
+    })
+    const ai = new UnifiedAI(model, {
+      functions,
+      contextBudget: { maxTokens: baseTokens + 150, maxToolResultTokens: 50 },
+    })
+
+    const callback = jest.fn()
+    const response = await ai.unifiedChat('北京天气怎么样？', { history }, callback)
+
+    const exceeded = callback.mock.calls.filter(([event]) => event === AgentEventType.CONTEXT_BUDGET_EXCEEDED)
+    expect(exceeded[0][1]).toMatchObject({ depth: 0, maxTokens: baseTokens + 150 })
+    expect(exceeded[0][1].trimmedMessages).toBeGreaterThan(0)
+    expect(exceeded[0][1].finalTokens).toBeLessThan(exceeded[0][1].tokens)
+
+    // 从完整的对话轮次开始保留最近的消息
+    const firstHistory = model.calls[0].options!.history!
+    expect(firstHistory.length).toBeLessThan(history.length)
+    expect(firstHistory[0].role).toBe(ChatRole.USER)
+    expect(firstHistory[firstHistory.length - 1]).toEqual(history[history.length - 1])
+
+    // 发送给模型的函数结果被截断，本轮对话的消息始终保留，返回的函数结果保持完整
+    const truncated = callback.mock.calls.filter(([event]) => event === AgentEventType.FUNCTION_RESULT_TRUNCATED)
+    expect(truncated).toHaveLength(1)
+    expect(truncated[0][1]).toMatchObject({ functionCall: { name: 'getReport' }, maxTokens: 50 })
+    const secondHistory = model.calls[1].options!.history!
+    expect(ContentHelper.getText(secondHistory[secondHistory.length - 3].content)).toBe('北京天气怎么样？')
+    expect(ContentHelper.getText(secondHistory[secondHistory.length - 1].content)).toContain('结果过长，已截断')
+    expect((response as any).functionCalls[0].result).toBe(report)
+  })
+
+  it('未超出预算时不调整请求，只有本轮对话时超出预算照常发送', async () => {
+    const history = [
+      { role: ChatRole.USER, content: '北京天气怎么样？' },
+      { role: ChatRole.ASSISTANT, content: '北京今天晴朗' },
+    ]
+    const model = new MockModel({ defaultResponse: '好的' })
+    const callback = jest.fn()
+
+    await new UnifiedAI(model, { contextBudget: { maxTokens: 100000 } }).unifiedChat('上海呢？', { history }, callback)
+    expect(model.calls[0].options!.history).toBe(history)
+    expect(callback).not.toHaveBeenCalledWith(AgentEventType.CONTEXT_BUDGET_EXCEEDED, expect.anything())
+
+    const prompt = `请总结：${'天气'.repeat(200)}`
+    await new UnifiedAI(model, { contextBudget: { maxTokens: 10 } }).unifiedChat(prompt, undefined, callback)
+    expect(ContentHelper.getText(model.calls[1].prompt)).toBe(prompt)
+    const [, data] = callback.mock.calls.find(([event]) => event === AgentEventType.CONTEXT_BUDGET_EXCEEDED)!
+    expect(data).toMatchObject({ maxTokens: 10, trimmedMessages: 0, depth: 0 })
+    expect(data.finalTokens).toBe(data.tokens)
+  })
+
+  it('流式对话同样按预算裁剪历史记录，函数结果默认按预算的四分之一截断', async () => {
+    const report = '晴朗'.repeat(500)
+    const functions = [{
+      name: 'getReport',
+      description: '获取天气报告',
+      parameters: z.object({ city: z.string() }),
+      executor: async () => report,
+    }]
+    const history = Array.from({ length: 10 }, (_, i) => [
+      { role: ChatRole.USER, content: `第${i + 1}个问题：${'天气'.repeat(20)}` },
+      { role: ChatRole.ASSISTANT, content: `第${i + 1}个回答：${'晴朗'.repeat(20)}` },
+    ]).flat()
+
+    const baseTokens = await new UnifiedAI(new MockModel(), { functions }).countTokens('北京天气怎么样？')
+    const maxTokens = baseTokens + 200
+    const model = new MockModel({
+      responses: [
+        { functionCalls: [{ id: 'call_1', name: 'getReport', arguments: { city: '北京' } }] },
+        '北京今天晴朗',
+      ],
+    })
+    const callback = jest.fn()
+    const ai = new UnifiedAI(model, { functions, contextBudget: { maxTokens } })
+
+    await collect(ai.unifiedChatStream('北京天气怎么样？', { history }, callback))
+
+    const exceeded = callback.mock.calls.filter(([event]) => event === AgentEventType.CONTEXT_BUDGET_EXCEEDED)
+    expect(exceeded[0][1].trimmedMessages).toBeGreaterThan(0)
+    expect(model.calls[0].stream).toBe(true)
+    expect(model.calls[0].options!.history!.length).toBeLessThan(history.length)
+    const truncated = callback.mock.calls.filter(([event]) => event === AgentEventType.FUNCTION_RESULT_TRUNCATED)
+    expect(truncated[0][1].maxTokens).toBe(Math.floor(maxTokens / 4))
+  })
+})
@@ -17,7 +17,7 @@ import {
   ResponseFormat,
   ChatRole as UnifiedChatRole,
 } from '../types'
-import { JsonHelper } from '../utils'
+import { ContentHelper, JsonHelper } from '../utils'
 
 /**
  * Gemini API 参数接口
@@ -91,14 +91,14 @@ export class CustomModel extends BaseModel {
         if (systemInstruction) {
           systemInstruction += '\n\n'
         }
-        systemInstruction += message.content
+        systemInstruction += ContentHelper.getText(message.content)
       }
       else {
         // 添加用户或助手消息
         const role = message.role === UnifiedChatRole.USER ? 'user' : 'model'
         contents.push({
           role,
-          parts: [{ text: message.content }],
+          parts: [{ text: ContentHelper.getText(message.content) }],
         })
       }
     }
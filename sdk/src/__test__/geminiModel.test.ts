@@ -0,0 +1,125 @@
+import { GenerateContentResponse } from '@google/genai'
+import { GeminiModel } from '../models/gemini'
+import { ChatRole } from '../types'
+
+/**
+ * 构造 Gemini 响应
+ */
+function createResponse(text: string, usageMetadata?: Record<string, number>) {
+  return Object.assign(new GenerateContentResponse(), {
+    candidates: [{ content: { role: 'model', parts: [{ text }] } }],
+    usageMetadata,
+  })
+}
+
+describe('geminiModel tests', () => {
+  let model: GeminiModel
+  let models: Record<string, jest.Mock>
+
+  beforeEach(() => {
+    model = new GeminiModel({ apiKey: 'test-key' })
+    models = {
+      generateContent: jest.fn(),
+      generateContentStream: jest.fn(),
+    }
+    // 替换 SDK 的请求方法，避免访问网络
+    ;(model as any).ai = { models }
+  })
+
+  it('usageMetadata 转换为 usage 测试', async () => {
+    models.generateContent.mockResolvedValue(createResponse('你好', {
+      promptTokenCount: 8,
+      candidatesTokenCount: 2,
+      totalTokenCount: 10,
+    }))
+
+    const response = await model.unifiedChat('你好')
+
+    expect(response.content).toBe('你好')
+    expect(response.usage).toEqual({ promptTokens: 8, completionTokens: 2, totalTokens: 10 })
+  })
+
+  it('流式响应的 chunkTokens 与 usage 测试', async () => {
+    models.generateContentStream.mockResolvedValue((async function* () {
+      yield createResponse('你', { promptTokenCount: 8, candidatesTokenCount: 1, totalTokenCount: 9 })
+      yield createResponse('好呀', { promptTokenCount: 8, candidatesTokenCount: 3, totalTokenCount: 11 })
+    })())
+
+    const chunks = []
+    for await (const chunk of model.unifiedChatStream('你好')) {
+      chunks.push(chunk)
+    }
+
+    expect(chunks.map(chunk => chunk.chunkTokens)).toEqual([1, 2, undefined])
+    expect(chunks[chunks.length - 1].usage).toEqual({ promptTokens: 8, completionTokens: 3, totalTokens: 11 })
+  })
+
+  it('工具调用转换为 functionCall/functionResponse 测试', async () => {
+    models.generateContent.mockResolvedValue(createResponse('北京今天晴朗'))
+
+    await model.unifiedChat('', {
+      history: [
+        { role: ChatRole.USER, content: '北京和上海天气' },
+        {
+          role: ChatRole.ASSISTANT,
+          content: '',
+          toolCalls: [
+            { id: 'call_1', name: 'getWeather', arguments: { city: '北京' } },
+            { id: 'call_2', name: 'getWeather', arguments: { city: '上海' } },
+          ],
+        },
+        { role: ChatRole.TOOL, content: '{"condition":"晴朗"}', toolCallId: 'call_1', name: 'getWeather' },
+        { role: ChatRole.TOOL, content: '"小雨"', toolCallId: 'call_2', name: 'getWeather' },
+      ],
+    })
+
+    expect(models.generateContent.mock.calls[0][0].contents).toEqual([
+      { role: 'user', parts: [{ text: '北京和上海天气' }] },
+      {
+        role: 'model',
+        parts: [
+          { functionCall: { name: 'getWeather', args: { city: '北京' } } },
+          { functionCall: { name: 'getWeather', args: { city: '上海' } } },
+        ],
+      },
+      {
+        role: 'user',
+        parts: [
+          { functionResponse: { name: 'getWeather', response: { condition: '晴朗' } } },
+          { functionResponse: { name: 'getWeather', response: { output: '小雨' } } },
+        ],
+      },
+    ])
+  })
+  it('图片、文件与音频转换为 inlineData/fileData 测试', async () => {
+    models.generateContent.mockResolvedValue(createResponse('这是一张截图'))
+
+    await model.unifiedChat([
+      { type: 'text', text: '这些附件里有什么？' },
+      { type: 'image', data: 'aW1hZ2U=', mimeType: 'image/png' },
+      { type: 'file', data: 'cGRm', mimeType: 'application/pdf', name: 'report.pdf' },
+      { type: 'file', uri: 'https://example.com/files/abc', mimeType: 'application/pdf' },
+      { type: 'audio', data: 'YXVkaW8=', mimeType: 'audio/wav' },
+    ], {
+      history: [
+        { role: ChatRole.USER, content: [{ type: 'image', data: 'b2xk', mimeType: 'image/jpeg' }] },
+        { role: ChatRole.ASSISTANT, content: '收到' },
+      ],
+    })
+
+    expect(models.generateContent.mock.calls[0][0].contents).toEqual([
+      { role: 'user', parts: [{ inlineData: { data: 'b2xk', mimeType: 'image/jpeg' } }] },
+      { role: 'model', parts: [{ text: '收到' }] },
+      {
+        role: 'user',
+        parts: [
+          { text: '这些附件里有什么？' },
+          { inlineData: { data: 'aW1hZ2U=', mimeType: 'image/png' } },
+          { inlineData: { data: 'cGRm', mimeType: 'application/pdf' } },
+          { fileData: { fileUri: 'https://example.com/files/abc', mimeType: 'application/pdf' } },
+          { inlineData: { data: 'YXVkaW8=', mimeType: 'audio/wav' } },
+        ],
+      },
+    ])
+  })
+})
@@ -0,0 +1,38 @@
+import { z } from 'zod'
+
+/**
+ * 创建天气查询函数
+ */
+export function createWeatherFunction() {
+  return {
+    name: 'getWeather',
+    description: '获取指定城市的天气信息',
+    parameters: z.object({ city: z.string() }),
+    executor: jest.fn(async ({ city }) => ({ city, condition: '晴朗' })),
+  }
+}
+
+/**
+ * 创建模拟的 MCP 客户端
+ * @param toolNames 提供的工具名
+ */
+export function createMcpClient(toolNames: string[]) {
+  return {
+    listTools: jest.fn(async () => ({
+      tools: toolNames.map(name => ({ name, description: name, inputSchema: { type: 'object', properties: {} } })),
+    })),
+    callTool: jest.fn(async ({ name }) => ({ content: [{ type: 'text', text: name }] })),
+    getServerCapabilities: jest.fn(() => ({ tools: {} })),
+  } as any
+}
+
+/**
+ * 收集流式输出的所有块
+ */
+export async function collect<T>(stream: AsyncGenerator<T>): Promise<T[]> {
+  const chunks: T[] = []
+  for await (const chunk of stream) {
+    chunks.push(chunk)
+  }
+  return chunks
+}
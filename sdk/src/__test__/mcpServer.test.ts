@@ -0,0 +1,97 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { z } from 'zod'
+import { MockModel } from '../models/mock'
+import { UnifiedAI } from '../models/unified'
+import { createMcpServer } from '../utils'
+import { createMcpClient } from './helpers'
+
+describe('mcpServer tests', () => {
+  it('将已添加的函数发布为 MCP 服务', async () => {
+    const ai = new UnifiedAI(new MockModel({ responses: [] }), {
+      functions: [
+        {
+          name: 'add',
+          description: '两数相加',
+          parameters: z.object({ a: z.number(), b: z.number() }),
+          executor: async ({ a, b }) => a + b,
+        },
+        {
+          name: 'getCity',
+          description: '获取城市',
+          parameters: { city: { type: 'string', description: '城市' }, required: ['city'] },
+          executor: async ({ city }) => ({ city }),
+        },
+        {
+          name: 'deleteFile',
+          description: '删除文件',
+          parameters: { type: 'object', properties: {} },
+          requiresApproval: true,
+          executor: async () => '已删除',
+        },
+      ],
+    }).useMcp(createMcpClient(['search']), { name: 'web' })
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await createMcpServer(ai, { name: 'tools' }).connect(serverTransport)
+    const client = new Client({ name: 'test', version: '1.0.0' })
+    await client.connect(clientTransport)
+
+    const { tools } = await client.listTools()
+    expect(tools.map(tool => tool.name)).toEqual(['add', 'getCity', 'deleteFile'])
+    expect(tools[1].inputSchema).toEqual({
+      type: 'object',
+      properties: { city: { type: 'string', description: '城市' } },
+      required: ['city'],
+    })
+
+    expect(await client.callTool({ name: 'add', arguments: { a: '1', b: 2 } })).toEqual({
+      content: [{ type: 'text', text: '3' }],
+      isError: false,
+    })
+    expect(await client.callTool({ name: 'getCity', arguments: { city: '北京' } })).toEqual({
+      content: [{ type: 'text', text: '{"city":"北京"}' }],
+      isError: false,
+    })
+
+    const invalid = await client.callTool({ name: 'getCity', arguments: {} })
+    expect(invalid.isError).toBe(true)
+    expect((await client.callTool({ name: 'deleteFile', arguments: {} })).isError).toBe(true)
+    expect((await client.callTool({ name: 'web__search', arguments: {} })).isError).toBe(true)
+
+    await client.close()
+  })
+
+  it('需要审批的函数交给审批处理器，修改后的参数按参数模式校验', async () => {
+    const approvalHandler = jest.fn()
+      .mockResolvedValueOnce({ type: 'edit', arguments: { path: 'a.txt' } })
+      .mockResolvedValueOnce({ type: 'deny', reason: '不允许删除' })
+    const executor = jest.fn(async ({ path }) => `已删除 ${path}`)
+    const ai = new UnifiedAI(new MockModel({ responses: [] }), {
+      approvalHandler,
+      functions: [{
+        name: 'deleteFile',
+        description: '删除文件',
+        parameters: z.object({ path: z.string() }),
+        requiresApproval: true,
+        executor,
+      }],
+    })
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await createMcpServer(ai).connect(serverTransport)
+    const client = new Client({ name: 'test', version: '1.0.0' })
+    await client.connect(clientTransport)
+
+    expect(await client.callTool({ name: 'deleteFile', arguments: { path: 'b.txt' } })).toEqual({
+      content: [{ type: 'text', text: '已删除 a.txt' }],
+      isError: false,
+    })
+    expect((await client.callTool({ name: 'deleteFile', arguments: { path: 'c.txt' } })).isError).toBe(true)
+    expect(executor).toHaveBeenCalledTimes(1)
+    expect(approvalHandler).toHaveBeenCalledTimes(2)
+    expect((await client.callTool({ name: 'missing', arguments: {} })).isError).toBe(true)
+
+    await client.close()
+  })
+})
@@ -0,0 +1,135 @@
+import { CombinedMemory, SlidingWindowMemory, SummaryMemory, TokenBudgetMemory } from '../memory'
+import { MockModel } from '../models/mock'
+import { ChatRole } from '../types'
+import { ContentHelper } from '../utils'
+
+describe('memory tests', () => {
+  it('记忆策略按完整的对话轮次裁剪历史记录', async () => {
+    const history = [
+      { role: ChatRole.SYSTEM, content: '你是天气助手' },
+      { role: ChatRole.USER, content: '北京天气怎么样？' },
+      { role: ChatRole.ASSISTANT, content: '', toolCalls: [{ id: 'call_1', name: 'getWeather', arguments: { city: '北京' } }] },
+      { role: ChatRole.TOOL, content: '{"condition":"晴朗"}', toolCallId: 'call_1' },
+      { role: ChatRole.ASSISTANT, content: '北京今天晴朗' },
+      { role: ChatRole.USER, content: '上海呢？' },
+      { role: ChatRole.ASSISTANT, content: '上海今天多云' },
+    ]
+
+    // 窗口从工具结果中间开始时，跳到下一轮对话的开头，系统消息始终保留
+    const windowed = await new SlidingWindowMemory({ maxMessages: 4 }).apply(history)
+    expect(windowed.history.map(message => message.content)).toEqual(['你是天气助手', '上海呢？', '上海今天多云'])
+
+    const budget = await new TokenBudgetMemory({ maxTokens: 3, estimateTokens: () => 1 }).apply(history)
+    expect(budget.history.map(message => message.content)).toEqual(['你是天气助手', '上海呢？', '上海今天多云'])
+
+    const unchanged = await new TokenBudgetMemory({ maxTokens: 100000 }).apply(history)
+    expect(unchanged.history).toBe(history)
+  })
+
+  it('摘要记忆压缩较早的消息并复用已保存的摘要', async () => {
+    const model = new MockModel({ responses: ['用户在查询各地天气'] })
+    const memory = new SummaryMemory({ model, triggerMessages: 4, keepMessages: 2 })
+    const history = ['北京', '上海', '广州', '深圳'].flatMap(city => [
+      { role: ChatRole.USER, content: `${city}天气怎么样？` },
+      { role: ChatRole.ASSISTANT, content: `${city}今天晴朗` },
+    ])
+
+    const result = await memory.apply(history)
+    expect(result.summary).toEqual({ content: '用户在查询各地天气', messageCount: 6 })
+    expect(result.history).toHaveLength(3)
+    expect(result.history[0].role).toBe(ChatRole.SYSTEM)
+    expect(ContentHelper.getText(result.history[0].content)).toContain('用户在查询各地天气')
+    expect(ContentHelper.getText(model.calls[0].prompt)).toContain('广州天气怎么样？')
+    expect(ContentHelper.getText(model.calls[0].prompt)).not.toContain('深圳天气怎么样？')
+
+    // 未覆盖的消息没有超过阈值时直接使用已保存的摘要，不再调用模型
+    const next = await memory.apply([...history, { role: ChatRole.USER, content: '杭州呢？' }, { role: ChatRole.ASSISTANT, content: '杭州今天下雨' }], { summary: result.summary })
+    expect(model.calls).toHaveLength(1)
+    expect(next.summary).toBe(result.summary)
+    expect(next.history.map(message => message.role)).toEqual([ChatRole.SYSTEM, ChatRole.USER, ChatRole.ASSISTANT, ChatRole.USER, ChatRole.ASSISTANT])
+
+    // 组合使用时摘要之后继续按 token 预算裁剪，摘要保留在开头
+    const combined = await new CombinedMemory([memory, new TokenBudgetMemory({ maxTokens: 3, estimateTokens: () => 1 })])
+      .apply(history, { summary: result.summary })
+    expect(combined.summary).toBe(result.summary)
+    expect(combined.history).toHaveLength(3)
+  })
+
+  it('摘要在对话轮次的开头结束，不拆开函数调用和结果', async () => {
+    const model = new MockModel({ responses: ['用户查询了北京和上海的天气'] })
+    const memory = new SummaryMemory({ model, triggerMessages: 4, keepMessages: 4 })
+    const history = [
+      { role: ChatRole.USER, content: '北京天气怎么样？' },
+      { role: ChatRole.ASSISTANT, content: '北京今天晴朗' },
+      { role: ChatRole.USER, content: '上海呢？' },
+      { role: ChatRole.ASSISTANT, content: '', toolCalls: [{ id: 'call_1', name: 'getWeather', arguments: { city: '上海' } }] },
+      { role: ChatRole.TOOL, content: '{"condition":"多云"}', toolCallId: 'call_1' },
+      { role: ChatRole.ASSISTANT, content: '上海今天多云' },
+      { role: ChatRole.USER, content: '广州呢？' },
+      { role: ChatRole.ASSISTANT, content: '广州今天下雨' },
+    ]
+
+    // 保留最近4条消息时从工具结果开始，向后移到下一轮对话的开头
+    const result = await memory.apply(history)
+    expect(result.summary).toEqual({ content: '用户查询了北京和上海的天气', messageCount: 6 })
+    expect(result.history.slice(1).map(message => message.content)).toEqual(['广州呢？', '广州今天下雨'])
+    expect(ContentHelper.getText(model.calls[0].prompt)).toContain('上海今天多云')
+  })
+
+  it('历史记录被修改后丢弃已保存的摘要', async () => {
+    const model = new MockModel({ responses: ['用户在查询深圳的天气'] })
+    const memory = new SummaryMemory({ model, triggerMessages: 2, keepMessages: 2 })
+    const staleSummary = { content: '用户在查询北京的天气', messageCount: 10 }
+    const history = [
+      { role: ChatRole.USER, content: '广州天气怎么样？' },
+      { role: ChatRole.ASSISTANT, content: '广州今天下雨' },
+      { role: ChatRole.USER, content: '深圳呢？' },
+      { role: ChatRole.ASSISTANT, content: '深圳今天晴朗' },
+    ]
+
+    // 消息数没有超过阈值时只返回原始消息，不带摘要
+    expect(await memory.apply(history.slice(0, 2), { summary: staleSummary })).toEqual({ history: history.slice(0, 2) })
+
+    // 重新生成的摘要不包含旧摘要的内容
+    const result = await memory.apply(history, { summary: staleSummary })
+    expect(result.summary).toEqual({ content: '用户在查询深圳的天气', messageCount: 2 })
+    expect(ContentHelper.getText(model.calls[0].prompt)).not.toContain('用户在查询北京的天气')
+  })
+
+  it('生成摘要失败时使用之前的摘要和更多的历史消息，取消时抛出错误', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+    const model = new MockModel({ responses: [{ error: '服务繁忙' }] })
+    const memory = new SummaryMemory({ model, triggerMessages: 2, keepMessages: 2 })
+    const summary = { content: '用户在查询北京的天气', messageCount: 2 }
+    const history = ['北京', '上海', '广州', '深圳'].flatMap(city => [
+      { role: ChatRole.USER, content: `${city}天气怎么样？` },
+      { role: ChatRole.ASSISTANT, content: `${city}今天晴朗` },
+    ])
+
+    const result = await memory.apply(history, { summary })
+    expect(result.summary).toBe(summary)
+    expect(result.history).toHaveLength(7)
+    expect(warn).toHaveBeenCalledWith('生成对话摘要失败:', expect.any(Error))
+
+    const controller = new AbortController()
+    controller.abort()
+    await expect(memory.apply(history, { summary, signal: controller.signal })).rejects.toThrow()
+    warn.mockRestore()
+  })
+
+  it('滑动窗口未超出时原样返回历史记录和摘要', async () => {
+    const summary = { content: '用户在查询天气', messageCount: 2 }
+    const history = [
+      { role: ChatRole.SYSTEM, content: '你是天气助手' },
+      { role: ChatRole.USER, content: '北京天气怎么样？' },
+      { role: ChatRole.ASSISTANT, content: '北京今天晴朗' },
+    ]
+
+    const result = await new SlidingWindowMemory({ maxMessages: 2 }).apply(history, { summary })
+    expect(result.history).toBe(history)
+    expect(result.summary).toBe(summary)
+
+    const empty = await new SlidingWindowMemory({ maxMessages: 0 }).apply(history, { summary })
+    expect(empty.history).toEqual([history[0]])
+  })
+})
@@ -0,0 +1,132 @@
+import type { MiddlewareChunk, MiddlewareContext, MiddlewareRequest } from '../types'
+import { JsonResponseMiddleware, SystemPromptMiddleware } from '../middleware'
+import { MockModel } from '../models/mock'
+import { UnifiedAI } from '../models/unified'
+import { ResponseFormat } from '../types'
+import { ContentHelper } from '../utils'
+import { collect, createWeatherFunction } from './helpers'
+
+describe('middleware tests', () => {
+  it('中间件按顺序处理请求、响应片段、函数调用和错误', async () => {
+    const steps: string[] = []
+    const model = new MockModel({
+      responses: [
+        { functionCalls: [{ id: 'call_1', name: 'getWeather', arguments: { city: '北京' } }] },
+        '{"city": "北京", "phone": "13800000000"}',
+      ],
+    })
+    const ai = new UnifiedAI(model, {
+      functions: [createWeatherFunction()],
+      middlewares: [new SystemPromptMiddleware(), new JsonResponseMiddleware()],
+    })
+    ai.use({
+      name: 'redact',
+      beforeModel: (request, context) => {
+        steps.push(`beforeModel:${context.depth}`)
+        return { ...request, prompt: ContentHelper.getText(request.prompt).replace(/\d{11}/g, '***') }
+      },
+      beforeToolCall: (call) => {
+        steps.push(`beforeToolCall:${call.name}`)
+        return { ...call, arguments: { city: '上海' } }
+      },
+      afterToolCall: (call) => {
+        steps.push(`afterToolCall:${call.name}`)
+        return { ...call, result: { ...call.result, checked: true } }
+      },
+      afterChunk: (chunk) => {
+        steps.push('afterChunk')
+        return typeof chunk.content === 'object' ? { ...chunk, content: { ...chunk.content, phone: '***' } } : undefined
+      },
+    })
+
+    const response = await ai.unifiedChat('我的电话是13800000000，北京天气怎么样？', { responseFormat: ResponseFormat.JSON })
+
+    // 内置的系统提示和 JSON 解析作为中间件执行，改写只对发送给模型的请求生效
+    expect(model.calls[0].prompt).toBe('我的电话是***，北京天气怎么样？')
+    expect(model.calls[0].options!.systemMessage).toContain('你可以使用工具来解决问题')
+    expect((response as any).functionCalls[0]).toMatchObject({ arguments: { city: '上海' }, result: { city: '上海', checked: true } })
+    expect(response.content).toEqual({ city: '北京', phone: '***' })
+    expect(steps).toEqual(['beforeModel:0', 'beforeToolCall:getWeather', 'afterToolCall:getWeather', 'beforeModel:1', 'afterChunk'])
+
+    // 同名中间件在原位置替换，出错时只在最外层通知一次
+    const onError = jest.fn()
+    ai.use({ name: 'redact', onError }).removeMiddleware('json-response')
+    model.addResponses({ error: '服务不可用' })
+    await expect(ai.unifiedChat('北京天气怎么样？')).rejects.toThrow('服务不可用')
+    expect(onError).toHaveBeenCalledTimes(1)
+    expect(onError.mock.calls[0][1]).toMatchObject({ depth: 0, stream: false })
+  })
+
+  it('多个中间件按添加顺序串联，同一次请求的各层递归共享状态', async () => {
+    const steps: string[] = []
+    const model = new MockModel({
+      responses: [
+        { functionCalls: [{ id: 'call_1', name: 'getWeather', arguments: { city: '北京' } }] },
+        { content: '北京今天晴朗', chunks: ['北京', '今天晴朗'] },
+      ],
+    })
+    const createMiddleware = (name: string) => ({
+      name,
+      beforeModel: (request: MiddlewareRequest, context: MiddlewareContext) => {
+        context.state.requests = (context.state.requests ?? 0) + 1
+        steps.push(`${name}:beforeModel:${context.depth}:${context.state.requests}`)
+        return { ...request, prompt: `${ContentHelper.getText(request.prompt)}[${name}]` }
+      },
+      afterChunk: (chunk: MiddlewareChunk, context: MiddlewareContext) => {
+        steps.push(`${name}:afterChunk:${context.stream}`)
+        return { ...chunk, content: `${chunk.content}[${name}]` }
+      },
+    })
+    const ai = new UnifiedAI(model, {
+      functions: [createWeatherFunction()],
+      middlewares: [createMiddleware('a'), createMiddleware('b')],
+    })
+
+    const chunks = await collect(ai.unifiedChatStream('北京天气怎么样？', { optimizeUserQuestion: false }))
+
+    expect(model.calls[0].prompt).toBe('北京天气怎么样？[a][b]')
+    // 每个片段依次经过两个中间件
+    expect(chunks.every(chunk => chunk.content.endsWith('[a][b]'))).toBe(true)
+    expect(chunks.map(chunk => chunk.content.replace('[a][b]', '')).join('')).toBe('北京今天晴朗')
+    expect(steps.filter(step => step.includes('beforeModel'))).toEqual(['a:beforeModel:0:1', 'b:beforeModel:0:2', 'a:beforeModel:1:3', 'b:beforeModel:1:4'])
+    expect(steps.filter(step => step.includes('afterChunk'))).toEqual(chunks.flatMap(() => ['a:afterChunk:true', 'b:afterChunk:true']))
+  })
+
+  it('中间件抛出错误时停止请求，onError 出错不影响原始错误的抛出', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {})
+    const getWeather = createWeatherFunction()
+    const model = new MockModel({
+      responses: [{ functionCalls: [{ id: 'call_1', name: 'getWeather', arguments: { city: '北京' } }] }],
+    })
+    const onError = jest.fn()
+    const ai = new UnifiedAI(model, { functions: [getWeather] })
+      .use({
+        name: 'guard',
+        beforeToolCall: (call) => {
+          throw new Error(`不允许调用 ${call.name}`)
+        },
+        onError: () => {
+          throw new Error('上报失败')
+        },
+      })
+      .use({ name: 'logger', onError })
+
+    await expect(ai.unifiedChat('北京天气怎么样？')).rejects.toThrow('不允许调用 getWeather')
+    expect(getWeather.executor).not.toHaveBeenCalled()
+    expect(model.calls).toHaveLength(1)
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: '不允许调用 getWeather' }), expect.objectContaining({ depth: 0 }))
+    expect(consoleError).toHaveBeenCalledWith('中间件 guard 处理错误时出错:', expect.any(Error))
+
+    // 请求前出错时不调用模型
+    ai.removeMiddleware('guard').use({
+      name: 'quota',
+      beforeModel: () => {
+        throw new Error('额度已用完')
+      },
+    })
+    await expect(ai.unifiedChat('北京天气怎么样？')).rejects.toThrow('额度已用完')
+    expect(model.calls).toHaveLength(1)
+    expect(onError).toHaveBeenCalledTimes(2)
+    consoleError.mockRestore()
+  })
+})
@@ -0,0 +1,655 @@
+import { z } from 'zod'
+import { QuestionOptimizerMiddleware } from '../middleware'
+import { MockModel } from '../models/mock'
+import { UnifiedAI } from '../models/unified'
+import { AgentEventType, ChatRole, ResponseFormat } from '../types'
+import { ContentHelper } from '../utils'
+import { collect, createMcpClient, createWeatherFunction } from './helpers'
+
+describe('mockModel tests', () => {
+  it('脚本响应用完时抛出错误', async () => {
+    const model = new MockModel({ responses: ['你好'] })
+
+    await expect(model.unifiedChat('第一次')).resolves.toMatchObject({ content: '你好' })
+    await expect(model.unifiedChat('第二次')).rejects.toThrow(/没有可用的脚本响应/)
+    expect(model.calls.map(call => call.prompt)).toEqual(['第一次', '第二次'])
+  })
+
+  it('unifiedAI 递归函数调用测试', async () => {
+    const weatherFunction = createWeatherFunction()
+    const model = new MockModel({
+      responses: [
+        { functionCalls: [{ id: 'call_1', name: 'getWeather', arguments: { city: '北京' } }] },
+        (_prompt, options) => options?.history?.some(m => m.role === ChatRole.TOOL && ContentHelper.getText(m.content).includes('晴朗'))
+          ? '北京今天晴朗'
+          : '未知',
+      ],
+    })
+    const ai = new UnifiedAI(model, { functions: [weatherFunction] })
+
+    const response = await ai.unifiedChat('北京天气怎么样？')
+
+    expect(weatherFunction.executor).toHaveBeenCalledWith({ city: '北京' }, undefined, { signal: undefined })
+    expect(response.content).toBe('北京今天晴朗')
+    expect((response as any).functionCalls).toEqual([
+      expect.objectContaining({ name: 'getWeather', result: { city: '北京', condition: '晴朗' } }),
+    ])
+    expect(model.calls).toHaveLength(2)
+    expect(model.calls[0].options?.tools?.[0].name).toBe('getWeather')
+
+    // 原生支持工具的模型以工具调用/工具结果消息继续对话，而不是重新构建提示
+    expect(model.calls[1].prompt).toBe('')
+    expect(model.calls[1].options?.history).toEqual([
+      { role: ChatRole.USER, content: '北京天气怎么样？' },
+      {
+        role: ChatRole.ASSISTANT,
+        content: '',
+        toolCalls: [{ id: 'call_1', name: 'getWeather', arguments: { city: '北京' } }],
+      },
+      {
+        role: ChatRole.TOOL,
+        content: JSON.stringify({ city: '北京', condition: '晴朗' }),
+        toolCallId: 'call_1',
+        name: 'getWeather',
+      },
+    ])
+  })
+
+  it('不支持原生工具时解析标签格式的函数调用', async () => {
+    const weatherFunction = createWeatherFunction()
+    const model = new MockModel({
+      supportsTools: false,
+      responses: [
+        '<==start_tool_calls==>{"function_calls":[{"name":"getWeather","arguments":{"city":"上海"}}]}<==end_tool_calls==>',
+        '上海今天晴朗',
+      ],
+    })
+    const ai = new UnifiedAI(model, { functions: [weatherFunction] })
+
+    const response = await ai.unifiedChat('上海天气怎么样？')
+
+    expect(weatherFunction.executor).toHaveBeenCalledWith({ city: '上海' }, undefined, { signal: undefined })
+    expect(response.content).toBe('上海今天晴朗')
+    expect(model.calls[0].prompt).toContain('getWeather')
+    // 不支持原生工具时，函数结果以文本形式写入跟进提示
+    expect(model.calls[1].prompt).toContain('Function: getWeather')
+  })
+
+  it('达到最大递归深度时停止', async () => {
+    const weatherFunction = createWeatherFunction()
+    const model = new MockModel({
+      defaultResponse: { functionCalls: [{ name: 'getWeather', arguments: { city: '北京' } }] },
+    })
+    const ai = new UnifiedAI(model, { functions: [weatherFunction], maxRecursionDepth: 3 })
+
+    const response = await ai.unifiedChat('北京天气怎么样？')
+
+    expect(model.calls).toHaveLength(3)
+    expect(response.content).toContain('已达到最大递归深度(3)')
+  })
+
+  it('jSON 修复测试', async () => {
+    const model = new MockModel({ responses: ['```json\n{"city": "北京", "temperature": 25,}\n```'] })
+    const ai = new UnifiedAI(model)
+
+    const response = await ai.unifiedChat('返回JSON', { responseFormat: ResponseFormat.JSON })
+
+    expect(response.isJsonResponse).toBe(true)
+    expect(response.content).toEqual({ city: '北京', temperature: 25 })
+  })
+
+  it('流式递归与去重测试', async () => {
+    const weatherFunction = createWeatherFunction()
+    const model = new MockModel({
+      responses: [
+        { content: '我来查询一下北京的天气情况，请稍等。', functionCalls: [{ name: 'getWeather', arguments: { city: '北京' } }] },
+        // 模型在后续回答中重复了之前已经输出的内容
+        { chunks: ['我来查询一下北京的天气情况，请稍等。'] },
+      ],
+    })
+    const ai = new UnifiedAI(model, { functions: [weatherFunction] })
+
+    const chunks = await collect(ai.unifiedChatStream('北京天气怎么样？', { optimizeUserQuestion: false }))
+    const text = chunks.map(chunk => chunk.content).join('')
+
+    expect(weatherFunction.executor).toHaveBeenCalledTimes(1)
+    expect(model.calls).toHaveLength(2)
+    expect(model.calls.every(call => call.stream)).toBe(true)
+    expect(text).toBe('我来查询一下北京的天气情况，请稍等。')
+  })
+
+  it('unifiedChat 累加各层递归的 usage', async () => {
+    const model = new MockModel({
+      responses: [
+        {
+          functionCalls: [{ name: 'getWeather', arguments: { city: '北京' } }],
+          usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+        },
+        { content: '北京今天晴朗', usage: { promptTokens: 30, completionTokens: 8, totalTokens: 38 } },
+      ],
+    })
+    const ai = new UnifiedAI(model, { functions: [createWeatherFunction()] })
+
+    const response = await ai.unifiedChat('北京天气怎么样？')
+
+    expect(response.usage).toEqual({ promptTokens: 40, completionTokens: 13, totalTokens: 53 })
+  })
+
+  it('unifiedChatStream 累加问题优化与各层递归的 usage', async () => {
+    const model = new MockModel({
+      responses: [
+        // 问题优化
+        { content: '用户想知道北京的天气', usage: { promptTokens: 20, completionTokens: 6, totalTokens: 26 } },
+        {
+          functionCalls: [{ name: 'getWeather', arguments: { city: '北京' } }],
+          usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+        },
+        { content: '北京今天晴朗', usage: { promptTokens: 30, completionTokens: 8, totalTokens: 38 } },
+      ],
+    })
+    const ai = new UnifiedAI(model, {
+      functions: [createWeatherFunction()],
+      middlewares: [new QuestionOptimizerMiddleware()],
+    })
+
+    const chunks = await collect(ai.unifiedChatStream('北京天气怎么样？'))
+    const lastChunk = chunks[chunks.length - 1]
+
+    expect(model.calls).toHaveLength(3)
+    expect(lastChunk.isLast).toBe(true)
+    expect(lastChunk.usage).toEqual({ promptTokens: 60, completionTokens: 19, totalTokens: 79 })
+    expect(chunks.slice(0, -1).every(chunk => chunk.usage === undefined)).toBe(true)
+  })
+
+  it('问题优化后保留提示中的附件', async () => {
+    const model = new MockModel({ responses: ['用户想知道截图中的报错原因', '这是空指针错误'] })
+    const ai = new UnifiedAI(model, { middlewares: [new QuestionOptimizerMiddleware()] })
+    const image = { type: 'image' as const, data: 'aW1hZ2U=', mimeType: 'image/png' }
+
+    await collect(ai.unifiedChatStream([{ type: 'text', text: '这个报错是什么意思？' }, image]))
+
+    // 问题优化只发送文本，正式请求中的文本被替换为优化结果，图片保留
+    expect(model.calls[0].prompt).toEqual(expect.stringContaining('这个报错是什么意思？'))
+    expect(model.calls[1].prompt).toEqual([{ type: 'text', text: '用户想知道截图中的报错原因' }, image])
+  })
+
+  it('工具执行中取消时停止递归', async () => {
+    const controller = new AbortController()
+    const executor = jest.fn(async (_params: Record<string, any>, _config?: Record<string, any>, context?: { signal?: AbortSignal }) => {
+      controller.abort()
+      return { aborted: context?.signal?.aborted }
+    })
+    const model = new MockModel({
+      defaultResponse: { functionCalls: [{ name: 'getWeather', arguments: { city: '北京' } }] },
+    })
+    const ai = new UnifiedAI(model, {
+      functions: [{ name: 'getWeather', parameters: z.object({ city: z.string() }), executor }],
+    })
+
+    await expect(ai.unifiedChat('北京天气怎么样？', { signal: controller.signal }))
+      .rejects
+      .toMatchObject({ name: 'AbortError' })
+    expect(executor.mock.calls[0][2]?.signal).toBe(controller.signal)
+    expect(model.calls).toHaveLength(1)
+  })
+
+  it('流式输出中取消时不再继续递归', async () => {
+    const controller = new AbortController()
+    const weatherFunction = createWeatherFunction()
+    const model = new MockModel({
+      responses: [{ content: '我来查询一下。', functionCalls: [{ name: 'getWeather', arguments: { city: '北京' } }] }],
+    })
+    const ai = new UnifiedAI(model, { functions: [weatherFunction] })
+
+    await expect(collect(ai.unifiedChatStream('北京天气怎么样？', {
+      optimizeUserQuestion: false,
+      signal: controller.signal,
+    }, (type) => {
+      // 收到函数调用后取消
+      if (type === AgentEventType.FUNCTION_CALL_START) {
+        controller.abort()
+      }
+    }))).rejects.toMatchObject({ name: 'AbortError' })
+    expect(weatherFunction.executor).not.toHaveBeenCalled()
+    expect(model.calls).toHaveLength(1)
+  })
+
+  it('并发执行函数调用并保持结果顺序', async () => {
+    let running = 0
+    let maxRunning = 0
+    const events: string[] = []
+    const delays: Record<string, number> = { 北京: 60, 上海: 10, 广州: 30 }
+    const weatherFunction = {
+      ...createWeatherFunction(),
+      executor: jest.fn(async ({ city }) => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await new Promise(resolve => setTimeout(resolve, delays[city]))
+        running--
+        return { city, condition: '晴朗' }
+      }),
+    }
+    const model = new MockModel({
+      responses: [
+        {
+          functionCalls: Object.keys(delays).map((city, index) => ({ id: `call_${index}`, name: 'getWeather', arguments: { city } })),
+        },
+        '三个城市都是晴天',
+      ],
+    })
+    const ai = new UnifiedAI(model, { functions: [weatherFunction], concurrency: 3 })
+
+    const result = await ai.unifiedChat('北京、上海、广州天气怎么样？', { optimizeUserQuestion: false }, (type, data: any) => {
+      if (type === AgentEventType.FUNCTION_CALL_END) {
+        events.push(data.functionCalls[0].arguments.city)
+      }
+    })
+
+    expect(maxRunning).toBe(3)
+    // 结束事件按完成顺序逐个触发
+    expect(events).toEqual(['上海', '广州', '北京'])
+    // 结果按调用顺序返回
+    expect((result as any).functionCalls.map((call: any) => call.arguments.city)).toEqual(['北京', '上海', '广州'])
+  })
+
+  it('单个函数的并发限制', async () => {
+    let running = 0
+    let maxRunning = 0
+    const weatherFunction = {
+      ...createWeatherFunction(),
+      concurrency: 1,
+      executor: jest.fn(async ({ city }) => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await new Promise(resolve => setTimeout(resolve, 10))
+        running--
+        return { city, condition: '晴朗' }
+      }),
+    }
+    const model = new MockModel({
+      responses: [
+        {
+          functionCalls: ['北京', '上海'].map((city, index) => ({ id: `call_${index}`, name: 'getWeather', arguments: { city } })),
+        },
+        '都是晴天',
+      ],
+    })
+    const ai = new UnifiedAI(model, { functions: [weatherFunction], concurrency: 5 })
+
+    await ai.unifiedChat('北京、上海天气怎么样？', { optimizeUserQuestion: false })
+
+    expect(weatherFunction.executor).toHaveBeenCalledTimes(2)
+    expect(maxRunning).toBe(1)
+  })
+
+  it('函数超时后重试', async () => {
+    const weatherFunction = {
+      ...createWeatherFunction(),
+      policy: { timeout: 20, retries: 1, backoff: 0 },
+      executor: jest.fn()
+        // 第一次执行一直不返回
+        .mockImplementationOnce(() => new Promise(() => {}))
+        .mockImplementationOnce(async ({ city }) => ({ city, condition: '晴朗' })),
+    }
+    const model = new MockModel({
+      responses: [
+        { functionCalls: [{ id: 'call_1', name: 'getWeather', arguments: { city: '北京' } }] },
+        '北京今天晴朗',
+      ],
+    })
+    const ai = new UnifiedAI(model, { functions: [weatherFunction] })
+
+    const response = await ai.unifiedChat('北京天气怎么样？')
+
+    expect(weatherFunction.executor).toHaveBeenCalledTimes(2)
+    // 超时后通过取消信号通知执行器
+    expect(weatherFunction.executor.mock.calls[0][2].signal.aborted).toBe(true)
+    expect((response as any).functionCalls).toEqual([
+      expect.objectContaining({ result: { city: '北京', condition: '晴朗' }, attempts: 2 }),
+    ])
+  })
+
+  it('不可重试的错误直接失败', async () => {
+    const weatherFunction = {
+      ...createWeatherFunction(),
+      policy: { retries: 3, backoff: 0, retryable: (error: Error) => error.name === 'TimeoutError' },
+      executor: jest.fn(async () => {
+        throw new Error('城市不存在')
+      }),
+    }
+    const model = new MockModel({
+      responses: [
+        { functionCalls: [{ id: 'call_1', name: 'getWeather', arguments: { city: '火星' } }] },
+        '没有找到这个城市',
+      ],
+    })
+    const ai = new UnifiedAI(model, { functions: [weatherFunction] })
+
+    const response = await ai.unifiedChat('火星天气怎么样？')
+
+    expect(weatherFunction.executor).toHaveBeenCalledTimes(1)
+    expect((response as any).functionCalls).toEqual([
+      expect.objectContaining({ result: { error: '城市不存在' }, attempts: 1, failed: true }),
+    ])
+  })
+
+  it('执行失败的函数记录包括重试在内的执行时长', async () => {
+    const weatherFunction = {
+      ...createWeatherFunction(),
+      policy: { timeout: 20, retries: 1, backoff: 0 },
+      executor: jest.fn(() => new Promise(() => {})),
+    }
+    const model = new MockModel({
+      responses: [
+        { functionCalls: [{ id: 'call_1', name: 'getWeather', arguments: { city: '北京' } }] },
+        '查询超时了',
+      ],
+    })
+    const ai = new UnifiedAI(model, { functions: [weatherFunction] })
+
+    const response = await ai.unifiedChat('北京天气怎么样？')
+
+    const [call] = (response as any).functionCalls
+    expect(call).toMatchObject({ attempts: 2, failed: true })
+    expect(call.executionTime).toBeGreaterThanOrEqual(40)
+  })
+
+  it('多次失败的函数在本轮对话中停用', async () => {
+    const weatherFunction = {
+      ...createWeatherFunction(),
+      policy: { maxFailures: 1 },
+      executor: jest.fn(async () => {
+        throw new Error('服务不可用')
+      }),
+    }
+    const model = new MockModel({
+      responses: [
+        { functionCalls: [{ id: 'call_1', name: 'getWeather', arguments: { city: '北京' } }] },
+        '天气服务暂时不可用',
+        { functionCalls: [{ id: 'call_2', name: 'getWeather', arguments: { city: '北京' } }] },
+        '天气服务暂时不可用',
+      ],
+    })
+    const ai = new UnifiedAI(model, { functions: [weatherFunction] })
+
+    await ai.unifiedChat('北京天气怎么样？')
+    expect(model.calls[0].options?.tools?.map((tool: any) => tool.name)).toEqual(['getWeather'])
+    expect(model.calls[1].options?.tools).toBeUndefined()
+
+    // 新一轮对话重新启用
+    await ai.unifiedChat('再查一次')
+    expect(model.calls[2].options?.tools?.map((tool: any) => tool.name)).toEqual(['getWeather'])
+  })
+
+  it('返回 isError 的 MCP 工具按执行失败处理并停用', async () => {
+    const webClient = createMcpClient(['search'])
+    webClient.callTool.mockResolvedValue({ isError: true, content: [{ type: 'text', text: '搜索服务不可用' }] })
+    const model = new MockModel({
+      responses: [
+        { functionCalls: [{ id: 'call_1', name: 'web__search', arguments: {} }] },
+        { functionCalls: [{ id: 'call_2', name: 'web__search', arguments: {} }] },
+        { functionCalls: [{ id: 'call_3', name: 'web__search', arguments: {} }] },
+        '搜索服务暂时不可用',
+      ],
+    })
+    const ai = new UnifiedAI(model).useMcp(webClient, { name: 'web' })
+
+    const response = await ai.unifiedChat('搜索一下')
+
+    expect(webClient.callTool).toHaveBeenCalledTimes(3)
+    expect((response as any).functionCalls).toEqual(expect.arrayContaining([
+      expect.objectContaining({ id: 'call_1', result: { error: '搜索服务不可用' }, attempts: 1, failed: true }),
+    ]))
+    // 默认失败3次后停用
+    expect(model.calls[2].options?.tools?.map((tool: any) => tool.name)).toEqual(['web__search'])
+    expect(model.calls[3].options?.tools).toBeUndefined()
+  })
+
+  it('需要审批的函数在批准后执行', async () => {
+    const events: string[] = []
+    const weatherFunction = { ...createWeatherFunction(), requiresApproval: true }
+    const approvalHandler = jest.fn(async () => ({ type: 'approve' as const }))
+    const model = new MockModel({
+      responses: [
+        { functionCalls: [{ id: 'call_1', name: 'getWeather', arguments: { city: '北京' } }] },
+        '北京今天晴朗',
+      ],
+    })
+    const ai = new UnifiedAI(model, { functions: [weatherFunction], approvalHandler })
+
+    const response = await ai.unifiedChat('北京天气怎么样？', {}, (type) => {
+      events.push(type)
+    })
+
+    expect(approvalHandler).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'call_1', arguments: { city: '北京' } }),
+      { signal: undefined },
+    )
+    expect(events).toContain(AgentEventType.FUNCTION_CALL_APPROVAL_REQUIRED)
+    expect(weatherFunction.executor).toHaveBeenCalledTimes(1)
+    expect((response as any).functionCalls).toEqual([
+      expect.objectContaining({ result: { city: '北京', condition: '晴朗' }, approval: 'approved' }),
+    ])
+  })
+
+  it('拒绝或修改参数后执行', async () => {
+    const weatherFunction = { ...createWeatherFunction(), requiresApproval: true }
+    const model = new MockModel({
+      responses: [
+        {
+          functionCalls: [
+            { id: 'call_1', name: 'getWeather', arguments: { city: '北京' } },
+            { id: 'call_2', name: 'getWeather', arguments: { city: '上海' } },
+          ],
+        },
+        '只查询了广州',
+      ],
+    })
+    const ai = new UnifiedAI(model, { functions: [weatherFunction] })
+    ai.useApprovalHandler(call => call.arguments.city === '北京'
+      ? { type: 'deny', reason: '不需要北京' }
+      : { type: 'edit', arguments: { city: '广州' } })
+
+    const response = await ai.unifiedChat('北京和上海天气怎么样？')
+
+    expect(weatherFunction.executor).toHaveBeenCalledTimes(1)
+    expect(weatherFunction.executor).toHaveBeenCalledWith({ city: '广州' }, undefined, { signal: undefined })
+    expect((response as any).functionCalls).toEqual([
+      expect.objectContaining({ id: 'call_1', approval: 'denied', result: expect.objectContaining({ reason: '不需要北京' }) }),
+      expect.objectContaining({ id: 'call_2', approval: 'edited', arguments: { city: '广州' } }),
+    ])
+  })
+
+  it('未设置审批处理器时拒绝执行', async () => {
+    const weatherFunction = { ...createWeatherFunction(), requiresApproval: true }
+    const model = new MockModel({
+      responses: [
+        { functionCalls: [{ id: 'call_1', name: 'getWeather', arguments: { city: '北京' } }] },
+        '无法查询天气',
+      ],
+    })
+    const ai = new UnifiedAI(model, { functions: [weatherFunction] })
+
+    const response = await ai.unifiedChat('北京天气怎么样？')
+
+    expect(weatherFunction.executor).not.toHaveBeenCalled()
+    expect((response as any).functionCalls[0].approval).toBe('denied')
+  })
+
+  it('多个 MCP 客户端的工具按服务名区分并路由', async () => {
+    const docsClient = createMcpClient(['search'])
+    const webClient = createMcpClient(['search', 'fetch'])
+    const model = new MockModel({
+      responses: [
+        {
+          functionCalls: [
+            { id: 'call_1', name: 'docs__search', arguments: {} },
+            { id: 'call_2', name: 'web__fetch', arguments: {} },
+          ],
+        },
+        '完成',
+      ],
+    })
+    const ai = new UnifiedAI(model)
+      .useMcp(docsClient, { name: 'docs' })
+      .useMcp(webClient, { name: 'web' })
+
+    const tools = await ai.getAllTools()
+    const response = await ai.unifiedChat('查一下文档')
+
+    expect(tools.map(tool => tool.name)).toEqual(['docs__search', 'web__search', 'web__fetch'])
+    expect(docsClient.callTool).toHaveBeenCalledWith({ name: 'search', arguments: {} }, undefined, { signal: undefined })
+    expect(webClient.callTool).toHaveBeenCalledTimes(1)
+    expect(webClient.callTool).toHaveBeenCalledWith({ name: 'fetch', arguments: {} }, undefined, { signal: undefined })
+    expect((response as any).functionCalls).toEqual([
+      expect.objectContaining({ id: 'call_1', result: { content: [{ type: 'text', text: 'search' }] } }),
+      expect.objectContaining({ id: 'call_2', result: { content: [{ type: 'text', text: 'fetch' }] } }),
+    ])
+  })
+
+  it('重名的 MCP 工具加后缀，获取工具失败的客户端被跳过', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+    const brokenClient = createMcpClient([])
+    brokenClient.listTools.mockRejectedValue(new Error('连接已断开'))
+    const ai = new UnifiedAI(new MockModel({ responses: [] }), { functions: [createWeatherFunction()] })
+      .useMcp(createMcpClient(['getWeather']))
+      .useMcp(createMcpClient(['search']), { name: 'a.b' })
+      .useMcp(createMcpClient(['search']), { name: 'a_b' })
+      .useMcp(brokenClient, { name: 'broken' })
+
+    const tools = await ai.getAllTools()
+
+    expect(tools.map(tool => tool.name)).toEqual(['getWeather', 'getWeather_2', 'a_b__search', 'a_b__search_2'])
+    expect(warn).toHaveBeenCalledTimes(3)
+
+    expect(ai.removeMcp('a_b')).toBe(true)
+    expect((await ai.getAllTools()).map(tool => tool.name)).toEqual(['getWeather', 'getWeather_2', 'a_b__search'])
+    warn.mockRestore()
+  })
+
+  it('转换工具参数时不修改 MCP 工具列表和函数定义', async () => {
+    const inputSchema = {
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      type: 'object',
+      properties: { query: { type: 'string' } },
+      additionalProperties: false,
+    }
+    const client = createMcpClient([])
+    client.listTools.mockResolvedValue({ tools: [{ name: 'search', inputSchema }] })
+    const parameters = { city: { type: 'string' }, required: ['city'], additionalProperties: false }
+    const ai = new UnifiedAI(new MockModel({ responses: [] }), {
+      functions: [{ name: 'getWeather', parameters, executor: async () => '晴朗' }],
+    }).useMcp(client)
+
+    const tools = await ai.getAllTools()
+
+    expect(tools.map(tool => tool.parameters)).toEqual([
+      { city: { type: 'string' }, required: ['city'] },
+      { type: 'object', properties: { query: { type: 'string' } } },
+    ])
+    expect(inputSchema).toHaveProperty('$schema')
+    expect(inputSchema).toHaveProperty('additionalProperties', false)
+    expect(parameters).toHaveProperty('additionalProperties', false)
+  })
+
+  it('获取 MCP 资源和提示模板', async () => {
+    const docsClient = createMcpClient([])
+    docsClient.getServerCapabilities.mockReturnValue({ resources: {}, prompts: {} })
+    docsClient.listResources = jest.fn(async () => ({ resources: [{ uri: 'file:///readme.md', name: 'README' }] }))
+    docsClient.listPrompts = jest.fn(async () => ({ prompts: [{ name: 'review', arguments: [{ name: 'code', required: true }] }] }))
+    docsClient.getPrompt = jest.fn(async () => ({
+      messages: [{ role: 'user', content: { type: 'text', text: '请审查代码' } }],
+    }))
+    const ai = new UnifiedAI(new MockModel({ responses: [] }))
+      .useMcp(docsClient, { name: 'docs' })
+      .useMcp(createMcpClient(['search']), { name: 'web' })
+
+    expect(await ai.listMcpResources()).toEqual([
+      { uri: 'file:///readme.md', name: 'README', server: 'docs' },
+    ])
+    expect(await ai.listMcpPrompts()).toEqual([
+      { name: 'review', arguments: [{ name: 'code', required: true }], server: 'docs' },
+    ])
+    expect(await ai.getMcpPrompt('review', { code: 'x' }, 'docs')).toEqual([
+      { role: ChatRole.USER, content: [{ type: 'text', text: '请审查代码' }] },
+    ])
+    expect(docsClient.getPrompt).toHaveBeenCalledWith({ name: 'review', arguments: { code: 'x' } })
+    await expect(ai.getMcpPrompt('review', {}, 'unknown')).rejects.toThrow('未找到MCP服务')
+  })
+
+  it('将 MCP 资源作为上下文附加到提示中', async () => {
+    const docsClient = createMcpClient([])
+    docsClient.readResource = jest.fn(async ({ uri }) => ({
+      contents: uri.endsWith('.png')
+        ? [{ uri, blob: 'aW1n', mimeType: 'image/png' }]
+        : [{ uri, text: '# 项目说明' }],
+    }))
+    const model = new MockModel({ responses: ['已阅读'] })
+    const ai = new UnifiedAI(model).useMcp(docsClient, { name: 'docs' })
+
+    await ai.unifiedChat('总结一下', {
+      resources: [
+        { uri: 'file:///readme.md', server: 'docs' },
+        { uri: 'file:///logo.png', server: 'docs' },
+      ],
+    })
+
+    const prompt = model.calls[0].prompt as any[]
+    expect(prompt[0].type).toBe('text')
+    expect(prompt[0].text).toContain('<resource uri="file:///readme.md">\n# 项目说明\n</resource>')
+    expect(prompt[0].text).toContain('总结一下')
+    expect(prompt[1]).toEqual({ type: 'image', data: 'aW1n', mimeType: 'image/png' })
+  })
+
+  it('使用基础模型处理 MCP 采样请求，信息征询交给处理器', async () => {
+    const handlers = new Map<string, (request: any, extra: any) => Promise<any>>()
+    const client = createMcpClient([])
+    client.setRequestHandler = jest.fn((schema, handler) => handlers.set(schema.shape.method.value, handler))
+    const model = new MockModel({ responses: ['摘要内容'] })
+    const approve = jest.fn(() => true)
+    const elicitationHandler = jest.fn(() => ({ action: 'accept' as const, content: { city: '北京' } }))
+    new UnifiedAI(model).useMcp(client, { name: 'docs', sampling: { maxTokens: 100, approve }, elicitationHandler })
+
+    const signal = new AbortController().signal
+    const result = await handlers.get('sampling/createMessage')!({
+      method: 'sampling/createMessage',
+      params: {
+        messages: [
+          { role: 'user', content: { type: 'text', text: '你好' } },
+          { role: 'assistant', content: { type: 'text', text: '你好，有什么可以帮你？' } },
+          { role: 'user', content: { type: 'text', text: '总结这段文字' } },
+        ],
+        systemPrompt: '你是摘要助手',
+        maxTokens: 1000,
+      },
+    }, { signal })
+
+    expect(result).toEqual({
+      role: 'assistant',
+      content: { type: 'text', text: '摘要内容' },
+      model: model.getDefaultModel(),
+      stopReason: 'endTurn',
+    })
+    expect(approve).toHaveBeenCalledWith(expect.objectContaining({ server: 'docs', maxTokens: 100 }))
+    expect(model.calls[0].prompt).toEqual([{ type: 'text', text: '总结这段文字' }])
+    expect(model.calls[0].options).toMatchObject({ systemMessage: '你是摘要助手', maxTokens: 100, signal })
+    expect(model.calls[0].options?.history).toHaveLength(2)
+
+    approve.mockReturnValue(false)
+    await expect(handlers.get('sampling/createMessage')!({
+      method: 'sampling/createMessage',
+      params: { messages: [{ role: 'user', content: { type: 'text', text: '再来一次' } }], maxTokens: 10 },
+    }, { signal })).rejects.toThrow('采样请求被拒绝')
+    expect(model.calls).toHaveLength(1)
+
+    const elicitation = await handlers.get('elicitation/create')!({
+      method: 'elicitation/create',
+      params: { message: '请输入城市', requestedSchema: { type: 'object', properties: { city: { type: 'string' } } } },
+    }, { signal })
+    expect(elicitation).toEqual({ action: 'accept', content: { city: '北京' } })
+    expect(elicitationHandler).toHaveBeenCalledWith(
+      { server: 'docs', message: '请输入城市', requestedSchema: { type: 'object', properties: { city: { type: 'string' } } } },
+      { signal },
+    )
+  })
+})
@@ -0,0 +1,282 @@
+import type { IncomingMessage, Server, ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { createServer } from 'node:http'
+import { z } from 'zod'
+import { OpenAICompatibleModel } from '../models/openai'
+import { UnifiedAI } from '../models/unified'
+import { ResponseFormat } from '../types'
+
+type MockHandler = (body: Record<string, any>, res: ServerResponse) => void
+
+/**
+ * 以 SSE 格式写出流式响应
+ */
+function writeStream(res: ServerResponse, chunks: Record<string, any>[]) {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+  for (const chunk of chunks) {
+    res.write(`data: ${JSON.stringify(chunk)}\n\n`)
+  }
+  res.write('data: [DONE]\n\n')
+  res.end()
+}
+
+/**
+ * 以 JSON 格式写出普通响应
+ */
+function writeJson(res: ServerResponse, body: Record<string, any>) {
+  res.writeHead(200, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+describe('openAICompatibleModel tests', () => {
+  let server: Server
+  let baseURL: string
+  let handler: MockHandler
+  const requests: Record<string, any>[] = []
+
+  beforeAll(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      let raw = ''
+      req.on('data', (chunk) => {
+        raw += chunk
+      })
+      req.on('end', () => {
+        if (req.url !== '/v1/chat/completions') {
+          res.writeHead(404)
+          res.end('not found')
+          return
+        }
+        const body = JSON.parse(raw)
+        requests.push({ ...body, authorization: req.headers.authorization })
+        handler(body, res)
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`
+  })
+
+  beforeEach(() => {
+    requests.length = 0
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  it('基本问答测试', async () => {
+    handler = (_body, res) => writeJson(res, {
+      model: 'mock-model',
+      choices: [{ message: { role: 'assistant', content: '你好' } }],
+      usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+    })
+
+    const model = new OpenAICompatibleModel({ baseURL, apiKey: 'test-key', model: 'mock-model' })
+    const response = await model.unifiedChat('你好', {
+      systemMessage: '你是助手',
+      history: [{ role: 'assistant' as any, content: '之前的回答' }],
+      temperature: 0.2,
+    })
+
+    expect(response.content).toBe('你好')
+    expect(response.usage).toEqual({ promptTokens: 5, completionTokens: 2, totalTokens: 7 })
+    expect(requests[0].authorization).toBe('Bearer test-key')
+    expect(requests[0].temperature).toBe(0.2)
+    expect(requests[0].messages).toEqual([
+      { role: 'system', content: '你是助手' },
+      { role: 'assistant', content: '之前的回答' },
+      { role: 'user', content: '你好' },
+    ])
+  })
+
+  it('多模态内容映射测试', async () => {
+    handler = (_body, res) => writeJson(res, {
+      choices: [{ message: { role: 'assistant', content: '这是一张截图' } }],
+    })
+
+    const model = new OpenAICompatibleModel({ baseURL })
+    await model.unifiedChat([
+      { type: 'text', text: '这些附件里有什么？' },
+      { type: 'image', data: 'aW1hZ2U=', mimeType: 'image/png' },
+      { type: 'file', data: 'cGRm', mimeType: 'application/pdf', name: 'report.pdf' },
+      { type: 'audio', data: 'YXVkaW8=', mimeType: 'audio/mpeg' },
+    ])
+
+    expect(requests[0].messages).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: '这些附件里有什么？' },
+          { type: 'image_url', image_url: { url: 'data:image/png;base64,aW1hZ2U=' } },
+          { type: 'file', file: { filename: 'report.pdf', file_data: 'data:application/pdf;base64,cGRm' } },
+          { type: 'input_audio', input_audio: { data: 'YXVkaW8=', format: 'mp3' } },
+        ],
+      },
+    ])
+  })
+
+  it('jSON格式响应测试', async () => {
+    handler = (_body, res) => writeJson(res, {
+      choices: [{ message: { role: 'assistant', content: '{"city": "北京",}' } }],
+    })
+
+    const model = new OpenAICompatibleModel({ baseURL })
+    const response = await model.unifiedChat('返回JSON', { responseFormat: ResponseFormat.JSON })
+
+    expect(response.isJsonResponse).toBe(true)
+    expect(response.content).toEqual({ city: '北京' })
+  })
+
+  it('工具调用响应测试', async () => {
+    handler = (_body, res) => writeJson(res, {
+      choices: [{
+        message: {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'getWeather', arguments: '{"city":"北京"}' },
+          }],
+        },
+      }],
+    })
+
+    const model = new OpenAICompatibleModel({ baseURL })
+    const response = await model.unifiedChat('北京天气', {
+      tools: model.convertToolsFormat([{
+        name: 'getWeather',
+        description: '获取天气',
+        parameters: { city: { type: 'string', description: '城市' }, required: ['city'] },
+      }]),
+    })
+
+    expect(response.content).toEqual({
+      function_calls: [{ id: 'call_1', name: 'getWeather', arguments: { city: '北京' } }],
+    })
+    expect(requests[0].tools[0]).toEqual({
+      type: 'function',
+      function: {
+        name: 'getWeather',
+        description: '获取天气',
+        parameters: {
+          type: 'object',
+          properties: { city: { type: 'string', description: '城市' } },
+          required: ['city'],
+        },
+      },
+    })
+  })
+
+  it('流式响应测试', async () => {
+    handler = (_body, res) => writeStream(res, [
+      { choices: [{ delta: { role: 'assistant', content: '你' } }] },
+      { choices: [{ delta: { content: '好' } }] },
+      { choices: [{ delta: {}, finish_reason: 'stop' }] },
+      { choices: [], usage: { prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 } },
+    ])
+
+    const model = new OpenAICompatibleModel({ baseURL })
+    const chunks = []
+    for await (const chunk of model.unifiedChatStream('你好')) {
+      chunks.push(chunk)
+    }
+
+    expect(requests[0].stream).toBe(true)
+    expect(requests[0].stream_options).toEqual({ include_usage: true })
+    expect(chunks[chunks.length - 1].usage).toEqual({ promptTokens: 4, completionTokens: 2, totalTokens: 6 })
+    expect(chunks.map(chunk => chunk.content).join('')).toBe('你好')
+    expect(chunks[chunks.length - 1].isLast).toBe(true)
+  })
+
+  it('流式工具调用增量拼接测试', async () => {
+    handler = (_body, res) => writeStream(res, [
+      { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'getWeather', arguments: '' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '{"city":' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '"上海"}' } }] } }] },
+      { choices: [{ delta: {}, finish_reason: 'tool_calls' }] },
+    ])
+
+    const model = new OpenAICompatibleModel({ baseURL })
+    const chunks = []
+    for await (const chunk of model.unifiedChatStream('上海天气')) {
+      chunks.push(chunk)
+    }
+
+    const lastChunk = chunks[chunks.length - 1]
+    expect(lastChunk.isLast).toBe(true)
+    expect(lastChunk.functionCalls).toEqual([
+      { id: 'call_1', name: 'getWeather', arguments: { city: '上海' } },
+    ])
+  })
+
+  it('接口错误测试', async () => {
+    handler = (_body, res) => {
+      res.writeHead(429, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ error: { message: 'rate limited' } }))
+    }
+
+    const model = new OpenAICompatibleModel({ baseURL })
+    await expect(model.unifiedChat('你好')).rejects.toThrow(/429/)
+  })
+
+  it('取消请求测试', async () => {
+    handler = () => {
+      // 不返回响应，等待客户端取消
+    }
+
+    const model = new OpenAICompatibleModel({ baseURL })
+    const controller = new AbortController()
+    const promise = model.unifiedChat('你好', { signal: controller.signal })
+    setTimeout(() => controller.abort(), 50)
+
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' })
+  })
+
+  it('unifiedAI 函数调用测试', async () => {
+    handler = (body, res) => {
+      // 首次请求返回工具调用，后续请求返回最终回答
+      if (requests.length === 1) {
+        writeJson(res, {
+          choices: [{
+            message: {
+              role: 'assistant',
+              content: null,
+              tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'getWeather', arguments: '{"city":"北京"}' } }],
+            },
+          }],
+        })
+      }
+      else {
+        const lastMessage = body.messages[body.messages.length - 1]
+        writeJson(res, {
+          choices: [{ message: { role: 'assistant', content: lastMessage.content.includes('晴朗') ? '北京今天晴朗' : '未知' } }],
+        })
+      }
+    }
+
+    const weatherExecutor = jest.fn(async ({ city }) => ({ city, condition: '晴朗' }))
+    const ai = new UnifiedAI(new OpenAICompatibleModel({ baseURL }), {
+      functions: [{
+        name: 'getWeather',
+        description: '获取指定城市的天气信息',
+        parameters: z.object({ city: z.string() }),
+        executor: weatherExecutor,
+      }],
+    })
+
+    const response = await ai.unifiedChat('北京天气怎么样？')
+
+    expect(weatherExecutor).toHaveBeenCalledWith({ city: '北京' }, undefined, { signal: undefined })
+    expect(response.content).toBe('北京今天晴朗')
+    expect(requests).toHaveLength(2)
+    expect(requests[1].messages.slice(-3)).toEqual([
+      { role: 'user', content: '北京天气怎么样？' },
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'getWeather', arguments: '{"city":"北京"}' } }],
+      },
+      { role: 'tool', content: '{"city":"北京","condition":"晴朗"}', tool_call_id: 'call_1' },
+    ])
+  })
+})
@@ -0,0 +1,76 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { z } from 'zod'
+import { MockModel } from '../models/mock'
+import { ReplayModel } from '../models/replay'
+import { UnifiedAI } from '../models/unified'
+import { collect, createWeatherFunction } from './helpers'
+
+describe('replayModel tests', () => {
+  let fixtureDir: string
+
+  beforeAll(() => {
+    fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'unified-ai-replay-'))
+  })
+
+  afterAll(() => {
+    fs.rmSync(fixtureDir, { recursive: true, force: true })
+  })
+
+  it('录制与回放测试', async () => {
+    const fixturePath = path.join(fixtureDir, 'weather.json')
+    const recordModel = new MockModel({
+      responses: [
+        { functionCalls: [{ id: 'call_1', name: 'getWeather', arguments: { city: '北京' } }] },
+        '北京今天晴朗',
+      ],
+    })
+    const recordAI = new UnifiedAI(new ReplayModel(recordModel, { fixturePath, mode: 'record' }), {
+      functions: [createWeatherFunction()],
+    })
+    const recorded = await recordAI.unifiedChat('北京天气怎么样？')
+
+    const fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8'))
+    expect(fixture.exchanges).toHaveLength(2)
+
+    // 回放时被包装的模型没有任何脚本响应，所有结果都来自夹具
+    const replayModel = new MockModel()
+    const replayAI = new UnifiedAI(new ReplayModel(replayModel, { fixturePath, mode: 'replay' }), {
+      functions: [createWeatherFunction()],
+    })
+    const replayed = await replayAI.unifiedChat('北京天气怎么样？')
+
+    expect(replayed.content).toBe(recorded.content)
+    expect(replayModel.calls).toHaveLength(0)
+    await expect(replayAI.unifiedChat('上海天气怎么样？')).rejects.toThrow(/没有匹配的请求/)
+  })
+
+  it('流式录制与回放测试', async () => {
+    const fixturePath = path.join(fixtureDir, 'stream.json')
+    const recordModel = new ReplayModel(new MockModel({ responses: ['你好，我是助手'] }), { fixturePath })
+    const recorded = await collect(recordModel.unifiedChatStream('你好'))
+
+    const replayModel = new ReplayModel(new MockModel(), { fixturePath, mode: 'replay' })
+    const replayed = await collect(replayModel.unifiedChatStream('你好'))
+
+    expect(replayed).toEqual(recorded)
+  })
+
+  it('响应模式不同的请求不匹配录制的交互', async () => {
+    const fixturePath = path.join(fixtureDir, 'schema.json')
+    const citySchema = z.object({ city: z.string() })
+    const recordModel = new ReplayModel(new MockModel({ responses: ['{"city":"北京"}'] }), { fixturePath })
+    await recordModel.unifiedChat('返回城市', { responseSchema: citySchema })
+
+    const replayModel = new ReplayModel(new MockModel(), { fixturePath, mode: 'replay' })
+
+    // 相同结构的 Zod 模式转换为相同的 JSON Schema，可以回放
+    await expect(replayModel.unifiedChat('返回城市', { responseSchema: z.object({ city: z.string() }) }))
+      .resolves
+      .toMatchObject({ content: { city: '北京' } })
+    await expect(replayModel.unifiedChat('返回城市', { responseSchema: z.object({ name: z.string() }) }))
+      .rejects
+      .toThrow(/没有匹配的请求/)
+  })
+})
@@ -0,0 +1,86 @@
+import { z } from 'zod'
+import { MockModel } from '../models/mock'
+import { UnifiedAI } from '../models/unified'
+import { ChatRole } from '../types'
+import { ContentHelper } from '../utils'
+import { createWeatherFunction } from './helpers'
+
+describe('responseSchema tests', () => {
+  it('按响应模式校验最终内容，不符合时带着错误重试', async () => {
+    const schema = z.object({ city: z.string(), temperature: z.number() })
+    const model = new MockModel({
+      responses: [
+        '{"city": "北京"}',
+        '{"city": "北京", "temperature": 25}',
+      ],
+    })
+    const ai = new UnifiedAI(model)
+
+    const response = await ai.unifiedChat('北京天气怎么样？', { responseSchema: schema })
+    expect(response.content).toEqual({ city: '北京', temperature: 25 })
+    expect(response.isJsonResponse).toBe(true)
+
+    // 第一次请求在系统消息中附带 JSON Schema，重试时带上上一次的回答和校验问题
+    expect(model.calls[0].options!.systemMessage).toContain('"temperature"')
+    expect(model.calls[1].options!.history!.slice(-1)[0]).toEqual({ role: ChatRole.ASSISTANT, content: '{"city":"北京"}' })
+    expect(ContentHelper.getText(model.calls[1].prompt)).toContain('temperature')
+
+    // 流式输出的最后一个片段为校验后的对象
+    model.addResponses('{"city": "上海", "temperature": "30"}')
+    const chunks = []
+    for await (const chunk of ai.unifiedChatStream('上海天气怎么样？', {
+      responseSchema: { type: 'object', properties: { temperature: { type: 'number' } }, required: ['temperature'] },
+      optimizeUserQuestion: false,
+    })) {
+      chunks.push(chunk)
+    }
+    expect(chunks[chunks.length - 1]).toMatchObject({ content: { city: '上海', temperature: 30 }, isJsonResponse: true, isLast: true })
+
+    // 超过重试次数后抛出错误
+    model.addResponses('{}', '{}')
+    await expect(ai.unifiedChat('北京天气怎么样？', { responseSchema: schema, schemaRetries: 1 }))
+      .rejects
+      .toThrow('模型返回的内容不符合响应模式')
+  })
+
+  it('重试用完后抛出最后一次的校验问题，不设置重试时直接失败', async () => {
+    const schema = z.object({ city: z.string(), temperature: z.number() })
+    const model = new MockModel({ responses: ['今天天气不错', '{"city": "北京"}', '{"temperature": 25}'] })
+    const ai = new UnifiedAI(model)
+
+    // 默认重试两次，共请求三次
+    await expect(ai.unifiedChat('北京天气怎么样？', { responseSchema: schema }))
+      .rejects
+      .toThrow(/不符合响应模式[\s\S]*city/)
+    expect(model.calls).toHaveLength(3)
+    expect(model.calls[2].options!.history!.slice(-1)[0]).toEqual({ role: ChatRole.ASSISTANT, content: '{"city":"北京"}' })
+
+    model.addResponses('{"city": "北京"}')
+    await expect(ai.unifiedChat('北京天气怎么样？', { responseSchema: schema, schemaRetries: 0 }))
+      .rejects
+      .toThrow('模型返回的内容不符合响应模式')
+    expect(model.calls).toHaveLength(4)
+  })
+
+  it('函数调用后校验最终内容，重试时不提供工具并累加用量', async () => {
+    const getWeather = createWeatherFunction()
+    const model = new MockModel({
+      responses: [
+        { functionCalls: [{ id: 'call_1', name: 'getWeather', arguments: { city: '北京' } }], usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 } },
+        { content: '北京今天晴朗', usage: { promptTokens: 20, completionTokens: 5, totalTokens: 25 } },
+        { content: '{"city": "北京", "condition": "晴朗"}', usage: { promptTokens: 30, completionTokens: 10, totalTokens: 40 } },
+      ],
+    })
+    const ai = new UnifiedAI(model, { functions: [getWeather] })
+
+    const response = await ai.unifiedChat('北京天气怎么样？', {
+      responseSchema: z.object({ city: z.string(), condition: z.string() }),
+    })
+
+    expect(response.content).toEqual({ city: '北京', condition: '晴朗' })
+    expect(response.usage).toEqual({ promptTokens: 60, completionTokens: 20, totalTokens: 80 })
+    expect(getWeather.executor).toHaveBeenCalledTimes(1)
+    expect(model.calls[1].options!.tools).toBeDefined()
+    expect(model.calls[2].options!.tools).toBeUndefined()
+  })
+})
@@ -0,0 +1,106 @@
+import { MockModel } from '../models/mock'
+import { RouterModel } from '../models/router'
+import { UnifiedAI } from '../models/unified'
+import { collect, createWeatherFunction } from './helpers'
+
+describe('routerModel tests', () => {
+  it('路由模型按规则选择模型，失败时重试并切换到下一个模型', async () => {
+    const primary = new MockModel({ model: 'primary', responses: [{ error: '配额已用完' }, { error: '配额已用完' }] })
+    const backup = new MockModel({ model: 'backup', responses: ['来自备用模型'] })
+    const toolModel = new MockModel({ model: 'tool', supportsTools: true, responses: ['北京今天晴朗'] })
+    const onFallback = jest.fn()
+    const router = new RouterModel({
+      routes: [
+        { model: toolModel, tools: true },
+        { model: primary, models: [/^primary/], maxPromptTokens: 1000 },
+        { name: '备用', model: backup },
+      ],
+      retries: 1,
+      backoff: 0,
+      onFallback,
+    })
+
+    // 主模型重试一次后仍然失败，切换到备用模型，只有匹配的路由收到模型名称
+    const response = await router.unifiedChat('你好', { model: 'primary-pro' })
+    expect(response.content).toBe('来自备用模型')
+    expect(primary.calls).toHaveLength(2)
+    expect(primary.calls[0].options!.model).toBe('primary-pro')
+    expect(backup.calls[0].options!.model).toBeUndefined()
+    expect(onFallback).toHaveBeenCalledWith(expect.objectContaining({ from: 'primary', to: '备用', attempts: 2 }))
+
+    // 带工具的请求交给工具路由
+    const ai = new UnifiedAI(router, { functions: [createWeatherFunction()] })
+    await ai.unifiedChat('北京天气怎么样？', { model: 'primary' })
+    expect(toolModel.calls).toHaveLength(1)
+    expect(primary.calls).toHaveLength(2)
+
+    // 流式请求在第一个片段前失败时切换模型
+    primary.addResponses({ error: '配额已用完' }, { error: '配额已用完' })
+    backup.addResponses('流式备用响应')
+    const chunks = await collect(router.unifiedChatStream('你好', { model: 'primary' }))
+    expect(chunks.map(chunk => chunk.content).join('')).toBe('流式备用响应')
+
+    // 不可重试的错误直接抛出
+    const strict = new RouterModel({ routes: [{ model: primary }, { model: backup }], retryable: () => false })
+    primary.addResponses({ error: '参数错误' })
+    await expect(strict.unifiedChat('你好')).rejects.toThrow('参数错误')
+    expect(() => new RouterModel({ routes: [] })).toThrow('至少需要一个路由')
+  })
+
+  it('流式请求输出片段后出错时直接抛出，不切换模型', async () => {
+    const primary = new MockModel({ model: 'primary' })
+    const backup = new MockModel({ model: 'backup', responses: ['来自备用模型'] })
+    jest.spyOn(primary, 'unifiedChatStream').mockImplementation(async function* () {
+      yield { content: '北京今天', isJsonResponse: false, isLast: false }
+      throw new Error('连接中断')
+    } as any)
+    const onFallback = jest.fn()
+    const router = new RouterModel({ routes: [{ model: primary }, { model: backup }], backoff: 0, onFallback })
+
+    const chunks: string[] = []
+    const consume = async () => {
+      for await (const chunk of router.unifiedChatStream('北京天气怎么样？')) {
+        chunks.push(chunk.content)
+      }
+    }
+
+    await expect(consume()).rejects.toThrow('连接中断')
+    expect(chunks).toEqual(['北京今天'])
+    expect(backup.calls).toHaveLength(0)
+    expect(onFallback).not.toHaveBeenCalled()
+  })
+
+  it('按 token 数和自定义条件选择路由，没有匹配的路由时抛出错误', async () => {
+    const small = new MockModel({ model: 'small', defaultResponse: '来自小模型' })
+    const large = new MockModel({ model: 'large', defaultResponse: '来自大模型' })
+    const router = new RouterModel({
+      routes: [
+        { model: small, maxPromptTokens: 50 },
+        { model: large, when: request => !request.options?.model },
+      ],
+    })
+
+    expect((await router.unifiedChat('你好')).content).toBe('来自小模型')
+    expect((await router.unifiedChat('总结一下'.repeat(100))).content).toBe('来自大模型')
+    await expect(router.unifiedChat('总结一下'.repeat(100), { model: 'gpt' }))
+      .rejects
+      .toThrow('没有与请求匹配的模型路由: gpt')
+  })
+
+  it('关闭切换时只使用第一个匹配的路由，等待重试时取消直接抛出', async () => {
+    const primary = new MockModel({ model: 'primary', responses: [{ error: '配额已用完' }, { error: '服务繁忙' }] })
+    const backup = new MockModel({ model: 'backup', defaultResponse: '来自备用模型' })
+
+    const router = new RouterModel({ routes: [{ model: primary }, { model: backup }], fallback: false })
+    await expect(router.unifiedChat('你好')).rejects.toThrow('配额已用完')
+    expect(backup.calls).toHaveLength(0)
+
+    const controller = new AbortController()
+    const retrying = new RouterModel({ routes: [{ model: primary }, { model: backup }], retries: 3, backoff: 60000 })
+    const request = retrying.unifiedChat('你好', { signal: controller.signal })
+    setTimeout(() => controller.abort(), 10)
+    await expect(request).rejects.toThrow()
+    expect(primary.calls).toHaveLength(2)
+    expect(backup.calls).toHaveLength(0)
+  })
+})
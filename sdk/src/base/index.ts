@@ -1,9 +1,11 @@
 import type {
   AgentFunctionSchema,
   ChatOptions,
+  MessageContent,
   ResponseTypeForOptions,
   StreamChunkTypeForOptions,
 } from '../types'
+import { TokenEstimator } from '../utils/token-estimator'
 
 /**
  * BaseModel 抽象类
@@ -25,7 +27,7 @@ export abstract class BaseModel {
    * @returns 包含聊天响应的Promise
    */
   abstract unifiedChat<T extends ChatOptions | undefined = undefined>(
-    prompt: string,
+    prompt: MessageContent,
     options?: T
   ): Promise<ResponseTypeForOptions<T>>
 
@@ -36,7 +38,7 @@ export abstract class BaseModel {
    * @returns 生成响应内容块的异步生成器
    */
   abstract unifiedChatStream<T extends ChatOptions | undefined = undefined>(
-    prompt: string,
+    prompt: MessageContent,
     options?: T
   ): AsyncGenerator<StreamChunkTypeForOptions<T>, void, unknown>
 
@@ -46,6 +48,17 @@ export abstract class BaseModel {
    */
   abstract getDefaultModel(): string
 
+  /**
+   * 计算请求占用的 token 数，包含系统消息、工具定义、历史记录和提示
+   * 默认按字符粗略估算，提供计数接口的模型可以覆盖此方法
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求的可选参数
+   * @returns token 数
+   */
+  async countTokens(prompt: MessageContent, options?: ChatOptions): Promise<number> {
+    return TokenEstimator.estimateRequest(prompt, options)
+  }
+
   /**
    * 检查模型是否原生支持工具/函数
    * @returns 是否支持工具
@@ -0,0 +1,73 @@
+import type { CachedResponse, ResponseCacheStore } from '../types'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+/**
+ * 文件缓存配置
+ */
+export interface FileCacheStoreOptions {
+  /** 缓存目录，每条缓存保存为一个 JSON 文件 */
+  dir: string
+}
+
+/**
+ * 缓存文件格式
+ */
+interface FileCacheEntry {
+  value: CachedResponse
+  expiresAt?: number
+}
+
+/**
+ * 文件缓存
+ * 缓存在进程重启后仍然有效，适合本地开发和测试，读取到过期或损坏的文件时删除
+ */
+export class FileCacheStore implements ResponseCacheStore {
+  private dir: string
+
+  constructor(options: FileCacheStoreOptions) {
+    this.dir = options.dir
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    let entry: FileCacheEntry
+    try {
+      entry = JSON.parse(await fs.readFile(this.getFilePath(key), 'utf8'))
+    }
+    catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        await this.delete(key)
+      }
+      return undefined
+    }
+
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      await this.delete(key)
+      return undefined
+    }
+    return entry.value
+  }
+
+  async set(key: string, value: CachedResponse, ttl?: number): Promise<void> {
+    const entry: FileCacheEntry = { value, expiresAt: ttl ? Date.now() + ttl : undefined }
+    await fs.mkdir(this.dir, { recursive: true })
+    await fs.writeFile(this.getFilePath(key), JSON.stringify(entry))
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.getFilePath(key), { force: true })
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.dir, { recursive: true, force: true })
+  }
+
+  /**
+   * 获取缓存文件路径，缓存键中的路径字符会被替换
+   * @param key 缓存键
+   * @returns 文件路径
+   */
+  private getFilePath(key: string): string {
+    return path.join(this.dir, `${key.replace(/[^\w-]/g, '_')}.json`)
+  }
+}
@@ -0,0 +1,67 @@
+import type { CachedResponse, ResponseCacheStore } from '../types'
+
+/**
+ * 内存缓存配置
+ */
+export interface LruCacheStoreOptions {
+  /** 最多保存的缓存数，超出时移除最久未使用的缓存，默认为500 */
+  maxEntries?: number
+}
+
+/**
+ * 内存缓存中的一条记录
+ */
+interface LruCacheEntry {
+  value: CachedResponse
+  expiresAt?: number
+}
+
+/**
+ * 内存 LRU 缓存
+ * 利用 Map 的插入顺序记录使用顺序，读取时把缓存移到末尾，超出数量时从开头移除
+ */
+export class LruCacheStore implements ResponseCacheStore {
+  private entries = new Map<string, LruCacheEntry>()
+  private maxEntries: number
+
+  constructor(options: LruCacheStoreOptions = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? 500)
+  }
+
+  /** 当前保存的缓存数，包括尚未清理的过期缓存 */
+  get size(): number {
+    return this.entries.size
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      return undefined
+    }
+
+    this.entries.delete(key)
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      return undefined
+    }
+
+    this.entries.set(key, entry)
+    return entry.value
+  }
+
+  async set(key: string, value: CachedResponse, ttl?: number): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, { value, expiresAt: ttl ? Date.now() + ttl : undefined })
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear()
+  }
+}
@@ -1,4 +1,7 @@
 export * from './base'
+export * from './cache'
+export * from './memory'
+export * from './middleware'
 export * from './models'
 export * from './types'
 export * from './utils'
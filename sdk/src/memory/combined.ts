@@ -0,0 +1,21 @@
+import type { ChatMessage, MemoryContext, MemoryResult, MemoryStrategy } from '../types'
+
+/**
+ * 组合记忆
+ * 按顺序依次使用多个记忆策略，如先生成摘要，再按 token 预算裁剪
+ */
+export class CombinedMemory implements MemoryStrategy {
+  private strategies: MemoryStrategy[]
+
+  constructor(strategies: MemoryStrategy[]) {
+    this.strategies = strategies
+  }
+
+  async apply(history: ChatMessage[], context: MemoryContext = {}): Promise<MemoryResult> {
+    let result: MemoryResult = { history, summary: context.summary }
+    for (const strategy of this.strategies) {
+      result = await strategy.apply(result.history, { ...context, summary: result.summary })
+    }
+    return result
+  }
+}
@@ -0,0 +1,4 @@
+export * from './combined'
+export * from './sliding-window'
+export * from './summary'
+export * from './token-budget'
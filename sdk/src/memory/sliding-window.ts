@@ -0,0 +1,32 @@
+import type { ChatMessage, MemoryContext, MemoryResult, MemoryStrategy } from '../types'
+import { HistoryHelper } from '../utils'
+
+/**
+ * 滑动窗口记忆配置
+ */
+export interface SlidingWindowMemoryOptions {
+  /** 最多保留的最近消息数，不包含开头的系统消息 */
+  maxMessages: number
+}
+
+/**
+ * 滑动窗口记忆
+ * 只保留最近的若干条消息，从完整的对话轮次开始裁剪，开头的系统消息始终保留
+ */
+export class SlidingWindowMemory implements MemoryStrategy {
+  private maxMessages: number
+
+  constructor(options: SlidingWindowMemoryOptions) {
+    this.maxMessages = Math.max(0, options.maxMessages)
+  }
+
+  async apply(history: ChatMessage[], context: MemoryContext = {}): Promise<MemoryResult> {
+    const { system, messages } = HistoryHelper.splitSystemMessages(history)
+    if (messages.length <= this.maxMessages) {
+      return { history, summary: context.summary }
+    }
+
+    const start = HistoryHelper.findTurnStart(messages, messages.length - this.maxMessages)
+    return { history: [...system, ...messages.slice(start)], summary: context.summary }
+  }
+}
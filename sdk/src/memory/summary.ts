@@ -0,0 +1,92 @@
+import type { BaseModel } from '../base'
+import type { ChatMessage, ConversationSummary, MemoryContext, MemoryResult, MemoryStrategy } from '../types'
+import { ChatRole } from '../types'
+import { AbortHelper, getConversationSummaryContextPrompt, getConversationSummaryPrompt, HistoryHelper } from '../utils'
+
+/**
+ * 摘要记忆配置
+ */
+export interface SummaryMemoryOptions {
+  /** 用于生成摘要的模型 */
+  model: BaseModel
+  /** 未被摘要覆盖的消息超过该数量时生成新的摘要，默认为20 */
+  triggerMessages?: number
+  /** 生成摘要后保留原文的最近消息数，默认为10 */
+  keepMessages?: number
+  /** 生成摘要时的最大 token 数 */
+  maxTokens?: number
+}
+
+/**
+ * 摘要记忆
+ * 历史记录过长时，使用模型将较早的消息和之前的摘要合并压缩为新的摘要
+ * 摘要作为系统消息放在历史记录开头，之后只发送摘要没有覆盖的消息
+ */
+export class SummaryMemory implements MemoryStrategy {
+  private model: BaseModel
+  private triggerMessages: number
+  private keepMessages: number
+  private maxTokens?: number
+
+  constructor(options: SummaryMemoryOptions) {
+    this.model = options.model
+    this.keepMessages = Math.max(0, options.keepMessages ?? 10)
+    this.triggerMessages = Math.max(this.keepMessages, options.triggerMessages ?? 20)
+    this.maxTokens = options.maxTokens
+  }
+
+  async apply(history: ChatMessage[], context: MemoryContext = {}): Promise<MemoryResult> {
+    let summary = context.summary
+    // 历史记录比摘要覆盖的消息还少，说明历史记录已被修改，之前的摘要不再可用
+    if (summary && summary.messageCount > history.length) {
+      summary = undefined
+    }
+
+    let start = summary?.messageCount ?? 0
+    if (history.length - start > this.triggerMessages) {
+      const end = HistoryHelper.findTurnStart(history, history.length - this.keepMessages)
+      if (end > start) {
+        const content = await this.summarize(history.slice(start, end), summary, context.signal)
+        if (content) {
+          summary = { content, messageCount: end }
+          start = end
+        }
+      }
+    }
+
+    const recent = history.slice(start)
+    if (!summary) {
+      return { history: recent }
+    }
+
+    return {
+      history: [{ role: ChatRole.SYSTEM, content: getConversationSummaryContextPrompt(summary.content) }, ...recent],
+      summary,
+    }
+  }
+
+  /**
+   * 生成新的摘要
+   * 生成失败时不影响对话，继续使用之前的摘要和更多的历史消息
+   * @param messages 需要压缩的消息
+   * @param previous 之前的摘要
+   * @param signal 取消信号
+   * @returns 摘要内容，生成失败时返回空字符串
+   */
+  private async summarize(messages: ChatMessage[], previous?: ConversationSummary, signal?: AbortSignal): Promise<string> {
+    try {
+      const response = await this.model.unifiedChat(getConversationSummaryPrompt(previous?.content, messages), {
+        maxTokens: this.maxTokens,
+        signal,
+      })
+      return String(response.content).trim()
+    }
+    catch (error) {
+      if (signal?.aborted || AbortHelper.isAbortError(error)) {
+        throw error
+      }
+      console.warn('生成对话摘要失败:', error)
+      return ''
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import type { ChatMessage, MemoryContext, MemoryResult, MemoryStrategy } from '../types'
+import { HistoryHelper, TokenEstimator } from '../utils'
+
+/**
+ * Token 预算记忆配置
+ */
+export interface TokenBudgetMemoryOptions {
+  /** 历史记录最多占用的 token 数，包含开头的系统消息 */
+  maxTokens: number
+  /** 计算单条消息 token 数的函数，默认按字符粗略估算 */
+  estimateTokens?: (message: ChatMessage) => number
+}
+
+/**
+ * Token 预算记忆
+ * 从最近的消息开始保留，直到超出 token 预算，从完整的对话轮次开始裁剪，开头的系统消息始终保留
+ */
+export class TokenBudgetMemory implements MemoryStrategy {
+  private maxTokens: number
+  private estimateTokens: (message: ChatMessage) => number
+
+  constructor(options: TokenBudgetMemoryOptions) {
+    this.maxTokens = options.maxTokens
+    this.estimateTokens = options.estimateTokens || (message => TokenEstimator.estimateMessage(message))
+  }
+
+  async apply(history: ChatMessage[], context: MemoryContext = {}): Promise<MemoryResult> {
+    const { system, messages } = HistoryHelper.splitSystemMessages(history)
+
+    let budget = system.reduce((total, message) => total - this.estimateTokens(message), this.maxTokens)
+    let start = messages.length
+    while (start > 0) {
+      const tokens = this.estimateTokens(messages[start - 1])
+      if (tokens > budget) {
+        break
+      }
+      budget -= tokens
+      start--
+    }
+
+    if (start === 0) {
+      return { history, summary: context.summary }
+    }
+
+    start = HistoryHelper.findTurnStart(messages, start)
+    return { history: [...system, ...messages.slice(start)], summary: context.summary }
+  }
+}
@@ -0,0 +1,3 @@
+export * from './json-response'
+export * from './question-optimizer'
+export * from './system-prompt'
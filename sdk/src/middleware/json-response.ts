@@ -0,0 +1,24 @@
+import type { MiddlewareChunk, MiddlewareContext, UnifiedAIMiddleware } from '../types'
+import { ResponseFormat } from '../types'
+import { JsonHelper } from '../utils'
+
+/**
+ * JSON 响应中间件
+ * 请求 JSON 格式但模型返回的最终内容仍是文本时，修复并解析为 JSON 对象
+ */
+export class JsonResponseMiddleware implements UnifiedAIMiddleware {
+  readonly name = 'json-response'
+
+  afterChunk(chunk: MiddlewareChunk, context: MiddlewareContext): MiddlewareChunk | void {
+    if (context.options.responseFormat !== ResponseFormat.JSON || chunk.isJsonResponse || !chunk.content) {
+      return
+    }
+    // 流式请求只处理最后一个片段
+    if (context.stream && !chunk.isLast) {
+      return
+    }
+
+    const content = typeof chunk.content === 'string' ? chunk.content : JSON.stringify(chunk.content)
+    return { ...chunk, content: JsonHelper.safeParseJson(content), isJsonResponse: true }
+  }
+}
@@ -0,0 +1,97 @@
+import type { BaseModel } from '../base'
+import type { MiddlewareContext, MiddlewareRequest, TokenUsage, UnifiedAIMiddleware } from '../types'
+import { AgentEventType, ResponseFormat } from '../types'
+import { AbortHelper, ContentHelper, getThinkingWithToolsPrompt, ModelHelpers } from '../utils'
+
+/**
+ * 问题优化中间件配置
+ */
+export interface QuestionOptimizerMiddlewareOptions {
+  /** 用于分析问题的模型，默认为 UnifiedAI 的基础模型，可以传入 CachedModel 复用相同问题的分析结果 */
+  model?: BaseModel
+}
+
+/**
+ * 问题优化中间件
+ * 在第一层请求前让模型分析并重新表述用户的问题，思考过程通过 THINKING_* 事件输出，
+ * 选项中 optimizeUserQuestion 为 false 时跳过
+ */
+export class QuestionOptimizerMiddleware implements UnifiedAIMiddleware {
+  readonly name = 'question-optimizer'
+  private model?: BaseModel
+
+  constructor(options: QuestionOptimizerMiddlewareOptions = {}) {
+    this.model = options.model
+  }
+
+  async beforeModel(request: MiddlewareRequest, context: MiddlewareContext): Promise<MiddlewareRequest | void> {
+    if (context.depth !== 0 || request.options.optimizeUserQuestion === false) {
+      return
+    }
+
+    const { history, systemMessage, signal } = request.options
+    const prompt = ContentHelper.getText(request.prompt)
+
+    // 构建工具信息描述
+    const toolsDescription = context.tools.length > 0
+      ? `可用工具列表：\n${context.tools.map(tool =>
+        `- ${tool.name}: ${tool.description}`,
+      ).join('\n')}`
+      : ''
+
+    // 使用集中管理的提示模板，传入历史记录和系统消息
+    const enhancedThinkingPrompt = getThinkingWithToolsPrompt(
+      prompt,
+      toolsDescription,
+      history,
+      systemMessage,
+    )
+
+    // 通知思考开始
+    context.callback?.(AgentEventType.THINKING_START, { prompt, options: {} })
+
+    try {
+      // 使用流式API获取思考过程
+      let analysis = ''
+      let usage: TokenUsage | undefined
+      for await (const chunk of (this.model || context.model).unifiedChatStream(enhancedThinkingPrompt, {
+        responseFormat: ResponseFormat.TEXT, // 确保是文本格式
+        signal,
+      })) {
+        // 获取chunk内容
+        const chunkContent = typeof chunk.content === 'object'
+          ? JSON.stringify(chunk.content)
+          : chunk.content as string
+
+        // 累积内容
+        analysis += chunkContent
+        usage = ModelHelpers.mergeUsage(usage, chunk.usage)
+
+        // 通知每个思考块
+        context.callback?.(AgentEventType.THINKING_CHUNK, {
+          chunk: {
+            content: chunkContent,
+            isLast: chunk.isLast || false,
+          },
+        })
+      }
+
+      // 通知思考完成
+      context.callback?.(AgentEventType.THINKING_END, {
+        result: analysis,
+      })
+
+      // 优化后的问题替换原始文本，图片等附件保留
+      context.usage = ModelHelpers.mergeUsage(context.usage, usage)
+      return { ...request, prompt: ContentHelper.withText(request.prompt, analysis) }
+    }
+    catch (error) {
+      // 取消请求时不再继续后续的回答
+      if (AbortHelper.isAbortError(error)) {
+        throw error
+      }
+      // 出错时沿用原始问题
+      console.error('思考问题过程出错:', error)
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import type { MiddlewareContext, MiddlewareRequest, UnifiedAIMiddleware } from '../types'
+import { getEnhancedSystemMessage } from '../utils'
+
+/**
+ * 系统提示中间件
+ * 在每一层请求前使用内置的助手提示和工具使用指南包装用户的系统消息
+ */
+export class SystemPromptMiddleware implements UnifiedAIMiddleware {
+  readonly name = 'system-prompt'
+
+  beforeModel(request: MiddlewareRequest, context: MiddlewareContext): MiddlewareRequest {
+    return {
+      ...request,
+      options: { ...request.options, systemMessage: getEnhancedSystemMessage(request.options, context.tools) },
+    }
+  }
+}
@@ -0,0 +1,276 @@
+import type {
+  AgentFunctionSchema,
+  CachedResponse,
+  ChatMessage,
+  ChatOptions,
+  MessageContent,
+  ResponseCacheStore,
+  ResponseTypeForOptions,
+  StreamChunkTypeForOptions,
+} from '../types'
+import { createHash } from 'node:crypto'
+import { BaseModel } from '../base'
+import { LruCacheStore } from '../cache'
+import { ContentHelper, ResponseValidator } from '../utils'
+
+/**
+ * CachedModel 配置选项
+ */
+export interface CachedModelOptions {
+  /** 缓存存储，默认为内存 LRU 缓存 */
+  store?: ResponseCacheStore
+  /** 缓存有效期（毫秒），不设置时不过期 */
+  ttl?: number
+  /** 缓存键前缀，多个模型共用一个存储时用于区分 */
+  namespace?: string
+  /** 判断请求是否使用缓存，默认所有请求都使用 */
+  shouldCache?: (prompt: MessageContent, options?: ChatOptions) => boolean
+}
+
+/**
+ * 参与生成缓存键的选项字段
+ */
+const KEY_OPTION_KEYS: (keyof ChatOptions)[] = [
+  'history',
+  'systemMessage',
+  'temperature',
+  'maxTokens',
+  'responseFormat',
+  'tools',
+]
+
+/**
+ * 规范化可序列化的值：对象按键排序，去掉 undefined 和函数等无法保存的值
+ * @param value 任意值
+ * @returns 规范化后的值
+ */
+function normalize(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(item => normalize(item) ?? null)
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {}
+    for (const key of Object.keys(value).sort()) {
+      const item = normalize(value[key])
+      if (item !== undefined) {
+        result[key] = item
+      }
+    }
+    return result
+  }
+  return typeof value === 'function' || typeof value === 'symbol' ? undefined : value
+}
+
+/**
+ * 规范化消息内容，纯文本和只有一个文本片段的内容视为相同，并去掉首尾空白
+ * @param content 消息内容
+ * @returns 内容片段
+ */
+function normalizeContent(content: MessageContent): any[] {
+  return ContentHelper.toParts(content).map(part => part.type === 'text' ? { ...part, text: part.text.trim() } : part)
+}
+
+/**
+ * 缓存模型类
+ * 包装其他模型，相同的请求直接返回缓存的响应，流式响应按原来的片段依次回放。
+ * 命中缓存时没有消耗 token，响应中不包含 usage
+ */
+export class CachedModel extends BaseModel {
+  private model: BaseModel
+  private store: ResponseCacheStore
+  private ttl?: number
+  private namespace: string
+  private shouldCache?: (prompt: MessageContent, options?: ChatOptions) => boolean
+
+  /**
+   * 构造函数
+   * @param model 被包装的模型
+   * @param options 缓存配置选项
+   */
+  constructor(model: BaseModel, options: CachedModelOptions = {}) {
+    super()
+    this.model = model
+    this.store = options.store || new LruCacheStore()
+    this.ttl = options.ttl
+    this.namespace = options.namespace || ''
+    this.shouldCache = options.shouldCache
+  }
+
+  /**
+   * 获取默认模型
+   * @returns 默认模型名称
+   */
+  getDefaultModel(): string {
+    return this.model.getDefaultModel()
+  }
+
+  /**
+   * 检查模型是否原生支持工具/函数
+   * @returns 是否支持工具
+   */
+  supportsTools(model?: string): boolean {
+    return this.model.supportsTools(model)
+  }
+
+  /**
+   * 检查模型是否原生支持系统消息
+   * @returns 是否支持系统消息
+   */
+  supportsSystemMessages(model?: string): boolean {
+    return this.model.supportsSystemMessages(model)
+  }
+
+  /**
+   * 将统一格式的工具转换为被包装模型的格式
+   * @param tools 统一格式的工具定义列表
+   * @returns 模型特定格式的工具定义
+   */
+  convertToolsFormat(tools: AgentFunctionSchema[]): any {
+    return this.model.convertToolsFormat(tools)
+  }
+
+  /**
+   * 计算请求占用的 token 数
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求的可选参数
+   * @returns token 数
+   */
+  async countTokens(prompt: MessageContent, options?: ChatOptions): Promise<number> {
+    return this.model.countTokens(prompt, options)
+  }
+
+  /**
+   * 删除请求对应的缓存
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求的可选参数
+   */
+  async invalidate(prompt: MessageContent, options?: ChatOptions): Promise<void> {
+    await Promise.all([
+      this.store.delete(this.createKey('chat', prompt, options)),
+      this.store.delete(this.createKey('stream', prompt, options)),
+    ])
+  }
+
+  /**
+   * 统一接口：发送聊天消息并获取响应
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求的可选参数
+   * @returns 包含聊天响应的Promise
+   */
+  async unifiedChat<T extends ChatOptions | undefined = undefined>(
+    prompt: MessageContent,
+    options?: T,
+  ): Promise<ResponseTypeForOptions<T>> {
+    if (this.shouldCache && !this.shouldCache(prompt, options)) {
+      return this.model.unifiedChat(prompt, options)
+    }
+
+    const key = this.createKey('chat', prompt, options)
+    const cached = await this.read(key)
+    if (cached?.response) {
+      return { ...cached.response, usage: undefined }
+    }
+
+    const response = await this.model.unifiedChat(prompt, options)
+    await this.write(key, { type: 'chat', response })
+    return response
+  }
+
+  /**
+   * 统一接口：流式返回聊天响应
+   * 只有完整读取的流式响应才会被缓存
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求的可选参数
+   * @returns 生成响应内容块的异步生成器
+   */
+  async* unifiedChatStream<T extends ChatOptions | undefined = undefined>(
+    prompt: MessageContent,
+    options?: T,
+  ): AsyncGenerator<StreamChunkTypeForOptions<T>, void, unknown> {
+    if (this.shouldCache && !this.shouldCache(prompt, options)) {
+      yield* this.model.unifiedChatStream(prompt, options)
+      return
+    }
+
+    const key = this.createKey('stream', prompt, options)
+    const cached = await this.read(key)
+    if (cached?.chunks) {
+      for (const chunk of cached.chunks) {
+        options?.signal?.throwIfAborted()
+        yield { ...chunk, usage: undefined }
+      }
+      return
+    }
+
+    const chunks: StreamChunkTypeForOptions<T>[] = []
+    for await (const chunk of this.model.unifiedChatStream(prompt, options)) {
+      chunks.push(chunk)
+      yield chunk
+    }
+    await this.write(key, { type: 'stream', chunks })
+  }
+
+  /**
+   * 生成缓存键
+   * 提示、历史记录、选项和工具定义规范化后计算哈希，工具调用ID和取消信号等不参与计算
+   * @param type 请求类型
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求的可选参数
+   * @returns 缓存键
+   */
+  private createKey(type: CachedResponse['type'], prompt: MessageContent, options?: ChatOptions): string {
+    const keyOptions: Record<string, any> = {
+      model: options?.model || this.model.getDefaultModel(),
+    }
+    for (const key of KEY_OPTION_KEYS) {
+      if (options?.[key] !== undefined) {
+        keyOptions[key] = options[key]
+      }
+    }
+    if (options?.responseSchema) {
+      keyOptions.responseSchema = ResponseValidator.toJsonSchema(options.responseSchema)
+    }
+    if (keyOptions.history) {
+      keyOptions.history = (keyOptions.history as ChatMessage[]).map(message => ({
+        role: message.role,
+        content: normalizeContent(message.content),
+        name: message.name,
+        toolCalls: message.toolCalls?.map(call => ({ name: call.name, arguments: call.arguments })),
+      }))
+    }
+
+    const hash = createHash('sha256')
+      .update(JSON.stringify(normalize({ type, prompt: normalizeContent(prompt), options: keyOptions })))
+      .digest('hex')
+    return this.namespace ? `${this.namespace}:${hash}` : hash
+  }
+
+  /**
+   * 读取缓存，存储出错时当作没有缓存
+   * @param key 缓存键
+   * @returns 缓存的响应
+   */
+  private async read(key: string): Promise<CachedResponse | undefined> {
+    try {
+      return await this.store.get(key)
+    }
+    catch (error: any) {
+      console.warn(`读取响应缓存失败: ${error.message}`)
+      return undefined
+    }
+  }
+
+  /**
+   * 写入缓存，存储出错时不影响本次响应
+   * @param key 缓存键
+   * @param value 缓存的响应
+   */
+  private async write(key: string, value: CachedResponse): Promise<void> {
+    try {
+      await this.store.set(key, value, this.ttl)
+    }
+    catch (error: any) {
+      console.warn(`写入响应缓存失败: ${error.message}`)
+    }
+  }
+}
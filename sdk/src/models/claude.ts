@@ -0,0 +1,468 @@
+import type {
+  AgentFunctionSchema,
+  ChatMessage,
+  ChatOptions,
+  ContentPart,
+  MessageContent,
+  ResponseTypeForOptions,
+  StreamChunkTypeForOptions,
+  TokenUsage,
+} from '../types'
+import { BaseModel } from '../base'
+import {
+  ResponseFormat,
+  ChatRole as UnifiedChatRole,
+} from '../types'
+import { AbortHelper, ContentHelper, JsonHelper, ModelHelpers, SSEParser } from '../utils'
+
+/**
+ * Claude API 参数接口
+ */
+export interface ClaudeOptions {
+  /** API 密钥 */
+  apiKey: string
+  /** 接口基础地址，默认为 "https://api.anthropic.com" */
+  baseURL?: string
+  /** 模型名称，默认为 "claude-3-5-sonnet-latest" */
+  model?: string
+  /** 默认最大输出长度，Messages API 要求必填，默认为 4096 */
+  maxTokens?: number
+  /** API 版本，默认为 "2023-06-01" */
+  anthropicVersion?: string
+  /** 额外的请求头 */
+  headers?: Record<string, string>
+}
+
+/**
+ * Messages API 内容块格式
+ */
+type ClaudeContentBlock =
+  | { type: 'text', text: string }
+  | { type: 'tool_use', id: string, name: string, input: Record<string, any> }
+  | { type: 'tool_result', tool_use_id: string, content: string }
+  | { type: 'image', source: ClaudeMediaSource }
+  | { type: 'document', source: ClaudeMediaSource, title?: string }
+
+/**
+ * Messages API 图片/文档来源格式
+ */
+type ClaudeMediaSource =
+  | { type: 'base64', media_type: string, data: string }
+  | { type: 'url', url: string }
+
+/**
+ * Messages API 消息格式
+ */
+interface ClaudeMessage {
+  role: 'user' | 'assistant'
+  content: ClaudeContentBlock[]
+}
+
+/**
+ * Claude 模型类
+ * 基于 Anthropic Messages API 的实现
+ */
+export class ClaudeModel extends BaseModel {
+  private apiKey: string
+  private baseURL: string
+  private modelName: string
+  private defaultMaxTokens: number
+  private anthropicVersion: string
+  private headers: Record<string, string>
+
+  /**
+   * 构造函数
+   * @param options Claude 配置选项
+   */
+  constructor(options: ClaudeOptions) {
+    super()
+    this.apiKey = options.apiKey
+    this.baseURL = (options.baseURL || 'https://api.anthropic.com').replace(/\/+$/, '')
+    this.modelName = options.model || 'claude-3-5-sonnet-latest'
+    this.defaultMaxTokens = options.maxTokens || 4096
+    this.anthropicVersion = options.anthropicVersion || '2023-06-01'
+    this.headers = options.headers || {}
+  }
+
+  /**
+   * 获取默认模型
+   * @returns 默认模型名称
+   */
+  getDefaultModel(): string {
+    return this.modelName
+  }
+
+  /**
+   * 检查模型是否原生支持工具/函数
+   * @returns 是否支持工具
+   */
+  supportsTools(_model?: string): boolean {
+    return true
+  }
+
+  /**
+   * 检查模型是否原生支持系统消息
+   * @returns 是否支持系统消息
+   */
+  supportsSystemMessages(_model?: string): boolean {
+    return true
+  }
+
+  /**
+   * 将统一格式的工具转换为 Messages API 的格式
+   * @param tools 统一格式的工具定义列表
+   * @returns Messages API 格式的工具定义
+   */
+  convertToolsFormat(tools: AgentFunctionSchema[]): any {
+    if (!tools || tools.length === 0) {
+      return undefined
+    }
+
+    return tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: ModelHelpers.normalizeToolParameters(tool.parameters),
+    }))
+  }
+
+  /**
+   * 将统一聊天消息转换为 Messages API 格式
+   * Messages API 要求用户与助手消息交替出现，相邻的同角色消息会被合并
+   * @param messages 统一格式的聊天消息（不含系统消息）
+   * @returns Messages API 格式的消息数组
+   */
+  private convertMessagesToClaudeFormat(messages: ChatMessage[]): ClaudeMessage[] {
+    const result: ClaudeMessage[] = []
+
+    for (const message of messages) {
+      // 工具执行结果以用户消息中的 tool_result 块返回
+      const role = message.role === UnifiedChatRole.USER || message.role === UnifiedChatRole.TOOL ? 'user' : 'assistant'
+      const blocks: ClaudeContentBlock[] = []
+
+      if (message.role === UnifiedChatRole.TOOL) {
+        blocks.push({ type: 'tool_result', tool_use_id: message.toolCallId || '', content: ContentHelper.getText(message.content) })
+      }
+      else {
+        blocks.push(...ContentHelper.toParts(message.content)
+          .filter(part => part.type !== 'text' || part.text)
+          .map(part => this.convertContentPart(part)))
+        for (const call of message.toolCalls || []) {
+          blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments || {} })
+        }
+      }
+
+      if (blocks.length === 0) {
+        continue
+      }
+
+      const lastMessage = result[result.length - 1]
+      if (lastMessage && lastMessage.role === role) {
+        lastMessage.content.push(...blocks)
+      }
+      else {
+        result.push({ role, content: blocks })
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * 将统一格式的内容片段转换为 Messages API 内容块
+   * 图片以 image 块发送，PDF 文件以 document 块发送
+   * @param part 内容片段
+   * @returns Messages API 内容块
+   */
+  private convertContentPart(part: ContentPart): ClaudeContentBlock {
+    switch (part.type) {
+      case 'text':
+        return { type: 'text', text: part.text }
+      case 'image':
+        return { type: 'image', source: { type: 'base64', media_type: part.mimeType, data: part.data } }
+      case 'file':
+        if (part.mimeType !== 'application/pdf') {
+          throw new Error(`Claude 不支持该文件类型: ${part.mimeType}`)
+        }
+        return {
+          type: 'document',
+          source: part.data
+            ? { type: 'base64', media_type: part.mimeType, data: part.data }
+            : { type: 'url', url: part.uri || '' },
+          title: part.name,
+        }
+      case 'audio':
+        throw new Error('Claude 不支持音频内容')
+    }
+  }
+
+  /**
+   * 构建请求体
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求选项
+   * @param stream 是否为流式请求
+   * @returns 请求体
+   */
+  private buildRequestBody(prompt: MessageContent, options: ChatOptions | undefined, stream: boolean): Record<string, any> {
+    // 历史记录中的系统消息合并到 options.systemMessage 之后
+    const systemMessage = ModelHelpers.mergeSystemMessages(options?.systemMessage, options?.history)
+
+    // 提示为空时（如提交工具执行结果后继续生成）会被跳过
+    const messages = this.convertMessagesToClaudeFormat([
+      ...(options?.history || []).filter(m => m.role !== UnifiedChatRole.SYSTEM),
+      { role: UnifiedChatRole.USER, content: prompt },
+    ])
+
+    // Messages API 要求第一条消息必须来自用户
+    if (messages.length > 0 && messages[0].role !== 'user') {
+      messages.unshift({ role: 'user', content: [{ type: 'text', text: '请继续。' }] })
+    }
+
+    const body: Record<string, any> = {
+      model: this.getModel(options?.model),
+      max_tokens: options?.maxTokens ?? this.defaultMaxTokens,
+      messages,
+      stream,
+    }
+    if (systemMessage) {
+      body.system = systemMessage
+    }
+    if (options?.temperature !== undefined) {
+      body.temperature = options.temperature
+    }
+    if (options?.tools && options.tools.length > 0) {
+      body.tools = options.tools
+    }
+
+    return body
+  }
+
+  /**
+   * 发送 Messages API 请求
+   * @param body 请求体
+   * @param signal 取消信号
+   * @returns fetch 响应
+   */
+  private async request(body: Record<string, any>, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseURL}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': this.anthropicVersion,
+        ...this.headers,
+      },
+      body: JSON.stringify(body),
+      signal,
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '')
+      throw new Error(`HTTP ${response.status} ${response.statusText}${errorText ? `: ${errorText}` : ''}`)
+    }
+
+    return response
+  }
+
+  /**
+   * 将 Messages API 的 token 数量转换为统一的 token 使用情况
+   * @param inputTokens 输入 token 数量
+   * @param outputTokens 输出 token 数量
+   * @returns 统一格式的 token 使用情况
+   */
+  private convertUsage(inputTokens?: number, outputTokens?: number): TokenUsage | undefined {
+    if (inputTokens === undefined && outputTokens === undefined) {
+      return undefined
+    }
+
+    return {
+      promptTokens: inputTokens,
+      completionTokens: outputTokens,
+      totalTokens: inputTokens !== undefined && outputTokens !== undefined ? inputTokens + outputTokens : undefined,
+    }
+  }
+
+  /**
+   * 统一接口：发送聊天消息并获取响应
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求的可选参数
+   * @returns 包含聊天响应的Promise
+   */
+  async unifiedChat<T extends ChatOptions | undefined = undefined>(
+    prompt: MessageContent,
+    options?: T,
+  ): Promise<ResponseTypeForOptions<T>> {
+    try {
+      const response = await this.request(this.buildRequestBody(prompt, options, false), options?.signal)
+      const data = await response.json()
+
+      const blocks: ClaudeContentBlock[] = data.content || []
+      const usage = this.convertUsage(data.usage?.input_tokens, data.usage?.output_tokens)
+      const model = data.model || this.getModel(options?.model)
+
+      // 优先处理工具调用
+      const toolUses = blocks.filter(block => block.type === 'tool_use')
+      if (toolUses.length > 0) {
+        const functionCallsData = toolUses.map(block => ({
+          id: block.id,
+          name: block.name,
+          arguments: block.input || {},
+        }))
+
+        return {
+          content: { function_calls: functionCallsData },
+          isJsonResponse: true,
+          model,
+          usage,
+          functionCalls: functionCallsData,
+        } as unknown as ResponseTypeForOptions<T>
+      }
+
+      const rawText = blocks
+        .map(block => block.type === 'text' ? block.text : '')
+        .join('')
+      let content: any = rawText
+      const isJsonMode = options?.responseFormat === ResponseFormat.JSON || !!options?.responseSchema
+
+      if (isJsonMode && rawText) {
+        content = JsonHelper.safeParseJson(rawText)
+      }
+
+      return {
+        content,
+        isJsonResponse: isJsonMode && typeof content !== 'string',
+        model,
+        usage,
+      } as ResponseTypeForOptions<T>
+    }
+    catch (error: any) {
+      if (AbortHelper.isAbortError(error)) {
+        throw error
+      }
+      throw new Error(`Claude API 错误: ${error.message}`)
+    }
+  }
+
+  /**
+   * 统一接口：流式返回聊天响应
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求的可选参数
+   * @returns 生成响应内容块的异步生成器
+   */
+  async* unifiedChatStream<T extends ChatOptions | undefined = undefined>(
+    prompt: MessageContent,
+    options?: T,
+  ): AsyncGenerator<StreamChunkTypeForOptions<T>, void, unknown> {
+    try {
+      const response = await this.request(this.buildRequestBody(prompt, options, true), options?.signal)
+      if (!response.body) {
+        throw new Error('响应体为空')
+      }
+
+      const model = this.getModel(options?.model)
+      const isJsonMode = options?.responseFormat === ResponseFormat.JSON || !!options?.responseSchema
+      let jsonBuffer = ''
+
+      // tool_use 块的参数以 JSON 片段的形式返回，按块索引累积
+      const toolUses: Record<number, { id: string, name: string, json: string }> = {}
+      // 输入 token 在 message_start 中返回，输出 token 在 message_delta 中以累计值返回
+      let inputTokens: number | undefined
+      let outputTokens: number | undefined
+
+      for await (const event of SSEParser.parse(response.body)) {
+        const data = JSON.parse(event.data)
+
+        switch (data.type) {
+          case 'message_start':
+            inputTokens = data.message?.usage?.input_tokens
+            outputTokens = data.message?.usage?.output_tokens
+            break
+          case 'message_delta':
+            if (data.usage?.output_tokens !== undefined) {
+              outputTokens = data.usage.output_tokens
+            }
+            break
+          case 'content_block_start':
+            if (data.content_block?.type === 'tool_use') {
+              toolUses[data.index] = {
+                id: data.content_block.id,
+                name: data.content_block.name,
+                json: '',
+              }
+            }
+            break
+          case 'content_block_delta':
+            if (data.delta?.type === 'input_json_delta' && toolUses[data.index]) {
+              toolUses[data.index].json += data.delta.partial_json || ''
+            }
+            else if (data.delta?.type === 'text_delta' && data.delta.text) {
+              if (isJsonMode) {
+                // 在JSON模式下，累积内容而不立即解析
+                jsonBuffer += data.delta.text
+              }
+
+              yield {
+                content: data.delta.text,
+                isJsonResponse: false,
+                isLast: false,
+                model,
+              } as StreamChunkTypeForOptions<T>
+            }
+            break
+          case 'error':
+            throw new Error(data.error?.message || '流式响应出错')
+        }
+      }
+
+      const usage = this.convertUsage(inputTokens, outputTokens)
+
+      // 存在工具调用时，以函数调用块结束
+      const completedToolUses = Object.keys(toolUses)
+        .map(Number)
+        .sort((a, b) => a - b)
+        .map(index => toolUses[index])
+      if (completedToolUses.length > 0) {
+        const functionCallsData = completedToolUses.map(toolUse => ({
+          id: toolUse.id,
+          name: toolUse.name,
+          arguments: toolUse.json ? JsonHelper.safeParseJson(toolUse.json) : {},
+        }))
+
+        yield {
+          content: { function_calls: functionCallsData },
+          isJsonResponse: true,
+          isLast: true,
+          model,
+          usage,
+          functionCalls: functionCallsData,
+        } as unknown as StreamChunkTypeForOptions<T>
+        return
+      }
+
+      // 处理JSON模式的最终输出
+      if (isJsonMode && jsonBuffer) {
+        yield {
+          content: JsonHelper.safeParseJson(jsonBuffer),
+          isJsonResponse: true,
+          isLast: true,
+          model,
+          usage,
+        } as StreamChunkTypeForOptions<T>
+      }
+      else {
+        yield {
+          content: '',
+          isJsonResponse: false,
+          isLast: true,
+          model,
+          usage,
+        } as StreamChunkTypeForOptions<T>
+      }
+    }
+    catch (error: any) {
+      if (AbortHelper.isAbortError(error)) {
+        throw error
+      }
+      throw new Error(`Claude 流式 API 错误: ${error.message}`)
+    }
+  }
+}
@@ -1,25 +1,30 @@
 import type {
   Content,
   GenerateContentResponse,
+  GenerateContentResponseUsageMetadata,
   GenerationConfig,
+  Part,
   SafetySetting,
+  Schema,
 } from '@google/genai'
 import type {
   AgentFunctionSchema,
   ChatMessage,
   ChatOptions,
   ContentType,
+  MessageContent,
   ResponseTypeForOptions,
   StreamChunkTypeForOptions,
+  TokenUsage,
 } from '../types'
-import { GoogleGenAI } from '@google/genai'
+import { GoogleGenAI, Type } from '@google/genai'
 
 import { BaseModel } from '../base'
 import {
   ResponseFormat,
   ChatRole as UnifiedChatRole,
 } from '../types'
-import { JsonHelper } from '../utils'
+import { AbortHelper, ContentHelper, JsonHelper, ModelHelpers, ResponseValidator, TokenEstimator } from '../utils'
 
 // Define IsLast type helper here since it's internal to the types file
 type IsLast<T> = T extends { isLast: infer L } ? L : false
@@ -214,6 +219,62 @@ function convertProperty(originalProperty: any): GeminiToolProperty {
   return convertedProperty
 }
 
+/**
+ * 将 JSON Schema 转换为 Gemini 的 responseSchema
+ * Gemini 只支持 OpenAPI 的部分字段，可为空的类型转换为 nullable，不支持的字段直接忽略
+ * @param jsonSchema JSON Schema
+ * @returns Gemini 格式的模式
+ */
+function convertResponseSchema(jsonSchema: Record<string, any>): Schema {
+  let source = jsonSchema
+  let nullable = false
+
+  // anyOf 中包含 null 时视为可为空的类型，只剩一个分支时直接展开
+  if (Array.isArray(source.anyOf)) {
+    const variants = source.anyOf.filter((variant: any) => variant.type !== 'null')
+    nullable = variants.length < source.anyOf.length
+    if (variants.length === 1) {
+      source = { ...variants[0], description: source.description || variants[0].description }
+    }
+    else {
+      return {
+        description: source.description,
+        nullable: nullable || undefined,
+        anyOf: variants.map(convertResponseSchema),
+      }
+    }
+  }
+
+  let type = source.type
+  if (Array.isArray(type)) {
+    nullable = nullable || type.includes('null')
+    type = type.find((item: string) => item !== 'null')
+  }
+
+  const schema: Schema = {
+    type: type ? Type[String(type).toUpperCase() as keyof typeof Type] : undefined,
+    description: source.description,
+    nullable: nullable || undefined,
+    format: source.format,
+  }
+
+  if (Array.isArray(source.enum)) {
+    schema.type = Type.STRING
+    schema.enum = source.enum.map(String)
+  }
+  if (source.items && !Array.isArray(source.items)) {
+    schema.items = convertResponseSchema(source.items)
+  }
+  if (source.properties) {
+    schema.properties = Object.fromEntries(Object.entries(source.properties)
+      .map(([name, property]) => [name, convertResponseSchema(property as Record<string, any>)]))
+    schema.propertyOrdering = Object.keys(source.properties)
+    schema.required = source.required
+  }
+
+  return schema
+}
+
 /**
  * Gemini 模型类
  * 基于 Google Generative AI SDK 的实现
@@ -266,6 +327,47 @@ export class GeminiModel extends BaseModel {
     }
   }
 
+  /**
+   * 计算请求占用的 token 数
+   * 历史记录和提示使用 Gemini 的计数接口，接口不支持的系统指令和工具定义按字符估算，计数失败时全部按字符估算
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求的可选参数
+   * @returns token 数
+   */
+  async countTokens(prompt: MessageContent, options?: ChatOptions): Promise<number> {
+    const systemInstruction = ModelHelpers.mergeSystemMessages(options?.systemMessage, options?.history)
+    const estimatedTokens = TokenEstimator.estimateText(systemInstruction || '')
+      + (options?.tools ? TokenEstimator.estimateText(JSON.stringify(options.tools)) : 0)
+
+    const contents = this.convertMessagesToGeminiFormat(
+      (options?.history || []).filter(m => m.role !== UnifiedChatRole.SYSTEM),
+    )
+    if (!ContentHelper.isEmpty(prompt)) {
+      contents.push({
+        role: 'user',
+        parts: this.convertContentToParts(prompt),
+      })
+    }
+    if (contents.length === 0) {
+      return estimatedTokens
+    }
+
+    try {
+      const response = await AbortHelper.race(this.ai.models.countTokens({
+        model: options?.model || this.modelName,
+        contents,
+      }), options?.signal)
+      return (response.totalTokens || 0) + estimatedTokens
+    }
+    catch (error: any) {
+      if (AbortHelper.isAbortError(error)) {
+        throw error
+      }
+      console.warn(`Gemini 计算 token 数失败，改为估算: ${error.message}`)
+      return super.countTokens(prompt, options)
+    }
+  }
+
   /**
    * 将统一格式的工具转换为Gemini特定的格式
    * @param tools 统一格式的工具定义列表
@@ -304,14 +406,41 @@ export class GeminiModel extends BaseModel {
         if (systemInstruction) {
           systemInstruction += '\n\n'
         }
-        systemInstruction += message.content
+        systemInstruction += ContentHelper.getText(message.content)
+      }
+      else if (message.role === UnifiedChatRole.TOOL) {
+        // 工具执行结果以 functionResponse 的形式返回，相邻的结果合并到同一条消息中
+        const part: Part = {
+          functionResponse: {
+            name: message.name,
+            response: this.convertToolResult(ContentHelper.getText(message.content)),
+          },
+        }
+        const lastContent = contents[contents.length - 1]
+        if (lastContent?.role === 'user' && lastContent.parts?.every(p => p.functionResponse)) {
+          lastContent.parts.push(part)
+        }
+        else {
+          contents.push({ role: 'user', parts: [part] })
+        }
+      }
+      else if (message.role === UnifiedChatRole.ASSISTANT && message.toolCalls && message.toolCalls.length > 0) {
+        // 助手发起的工具调用以 functionCall 的形式返回
+        const parts: Part[] = this.convertContentToParts(ContentHelper.getText(message.content))
+        parts.push(...message.toolCalls.map(call => ({
+          functionCall: {
+            name: call.name,
+            args: call.arguments,
+          },
+        })))
+        contents.push({ role: 'model', parts })
       }
       else {
         // 添加用户或助手消息
         const role = message.role === UnifiedChatRole.USER ? 'user' : 'model'
         contents.push({
           role,
-          parts: [{ text: message.content }],
+          parts: this.convertContentToParts(message.content),
         })
       }
     }
@@ -319,6 +448,79 @@ export class GeminiModel extends BaseModel {
     return contents
   }
 
+  /**
+   * 将统一格式的消息内容转换为 Gemini 的 parts
+   * 图片、音频和带数据的文件以 inlineData 发送，只有地址的文件以 fileData 发送
+   * @param content 消息内容
+   * @returns Gemini 格式的 parts
+   */
+  private convertContentToParts(content: MessageContent): Part[] {
+    return ContentHelper.toParts(content).map((part): Part => {
+      switch (part.type) {
+        case 'text':
+          return { text: part.text }
+        case 'file':
+          if (!part.data && part.uri) {
+            return { fileData: { fileUri: part.uri, mimeType: part.mimeType } }
+          }
+          return { inlineData: { data: part.data, mimeType: part.mimeType } }
+        default:
+          return { inlineData: { data: part.data, mimeType: part.mimeType } }
+      }
+    })
+  }
+
+  /**
+   * 将工具执行结果转换为 functionResponse 需要的对象
+   * @param content 工具执行结果的 JSON 字符串
+   * @returns 结果对象，非对象结果包装在 output 字段中
+   */
+  private convertToolResult(content: string): Record<string, unknown> {
+    let result: any = content
+    try {
+      result = JSON.parse(content)
+    }
+    catch {
+      // 不是 JSON 时按纯文本处理
+    }
+
+    if (result && typeof result === 'object' && !Array.isArray(result)) {
+      return result
+    }
+    return { output: result }
+  }
+
+  /**
+   * 设置原生的响应模式
+   * Gemini 不支持在使用工具时指定 JSON 响应，有工具时只通过提示约束格式
+   * @param configOptions 请求配置
+   * @param options 聊天请求选项
+   */
+  private applyResponseSchema(configOptions: Record<string, any>, options?: ChatOptions) {
+    if (!options?.responseSchema || options.tools?.length) {
+      return
+    }
+    configOptions.responseMimeType = 'application/json'
+    configOptions.responseSchema = convertResponseSchema(ResponseValidator.toJsonSchema(options.responseSchema))
+  }
+
+  /**
+   * 将 Gemini 的 usageMetadata 转换为统一的 token 使用情况
+   * @param usageMetadata Gemini 响应中的 usageMetadata
+   * @returns 统一格式的 token 使用情况
+   */
+  private convertUsage(usageMetadata?: GenerateContentResponseUsageMetadata): TokenUsage | undefined {
+    if (!usageMetadata) {
+      return undefined
+    }
+
+    return {
+      promptTokens: usageMetadata.promptTokenCount,
+      completionTokens: usageMetadata.candidatesTokenCount,
+      totalTokens: usageMetadata.totalTokenCount,
+    }
+  }
+
   /**
    * 将 Gemini 响应转换为统一格式
    * @param response Gemini 响应
@@ -333,6 +535,7 @@ export class GeminiModel extends BaseModel {
     const functionCalls = response.functionCalls || []
     if (functionCalls.length > 0) {
       const functionCallsData = functionCalls.map((call: any) => ({
+        id: call.id,
         name: call.name,
         arguments: call.args,
       }))
@@ -341,11 +544,7 @@ export class GeminiModel extends BaseModel {
         content: { function_calls: functionCallsData } as unknown as ContentType<T extends { responseFormat: ResponseFormat.JSON } ? ResponseFormat.JSON : ResponseFormat.TEXT>,
         isJsonResponse: true as T extends { responseFormat: ResponseFormat.JSON } ? true : boolean,
         model: this.modelName,
-        usage: {
-          promptTokens: undefined,
-          completionTokens: undefined,
-          totalTokens: undefined,
-        },
+        usage: this.convertUsage(response.usageMetadata),
         functionCalls: functionCallsData,
       } as unknown as ResponseTypeForOptions<T>
     }
@@ -353,7 +552,7 @@ export class GeminiModel extends BaseModel {
     // If no function calls, proceed with text content
     const rawText = response.text
     let content: any = rawText
-    const isJsonMode = options?.responseFormat === ResponseFormat.JSON
+    const isJsonMode = options?.responseFormat === ResponseFormat.JSON || !!options?.responseSchema
 
     if (isJsonMode && rawText) {
       try {
@@ -373,12 +572,7 @@ export class GeminiModel extends BaseModel {
       content,
       isJsonResponse: isJsonMode && typeof content !== 'string',
       model: this.modelName,
-      usage: {
-        // Gemini API 目前不提供 token 使用情况，置为 undefined
-        promptTokens: undefined,
-        completionTokens: undefined,
-        totalTokens: undefined,
-      },
+      usage: this.convertUsage(response.usageMetadata),
     } as ResponseTypeForOptions<T>
 
     return chatResponse
@@ -391,37 +585,31 @@ export class GeminiModel extends BaseModel {
    * @returns 包含聊天响应的Promise
    */
   async unifiedChat<T extends ChatOptions | undefined = undefined>(
-    prompt: string,
+    prompt: MessageContent,
     options?: T & { systemMessage?: string },
   ): Promise<ResponseTypeForOptions<T>> {
     try {
       // 准备参数
       let contents: Content[] = []
-      let systemInstruction: string | undefined
 
-      if (options?.history && options.history.length > 0) {
-        // 如果有历史记录，处理历史记录
-        const systemMessages = options.history.filter(m => m.role === UnifiedChatRole.SYSTEM)
-        if (systemMessages.length > 0) {
-          systemInstruction = systemMessages[systemMessages.length - 1].content
-        }
+      // 历史记录中的系统消息合并到系统指令中
+      const systemInstruction = ModelHelpers.mergeSystemMessages(options?.systemMessage, options?.history)
 
+      if (options?.history && options.history.length > 0) {
         // 转换非系统消息
         contents = this.convertMessagesToGeminiFormat(
           options.history.filter(m => m.role !== UnifiedChatRole.SYSTEM),
         )
       }
 
-      if (options?.systemMessage) {
-        systemInstruction = options.systemMessage
+      // 添加当前用户消息，提示为空时（如提交工具执行结果后继续生成）不添加
+      if (!ContentHelper.isEmpty(prompt)) {
+        contents.push({
+          role: 'user',
+          parts: this.convertContentToParts(prompt),
+        })
       }
 
-      // 添加当前用户消息
-      contents.push({
-        role: 'user',
-        parts: [{ text: prompt }],
-      })
-
       // 转换选项
       const configOptions: any = {}
       if (options?.temperature !== undefined) {
@@ -430,9 +618,10 @@ export class GeminiModel extends BaseModel {
       if (options?.maxTokens !== undefined) {
         configOptions.maxOutputTokens = options.maxTokens
       }
+      this.applyResponseSchema(configOptions, options)
 
-      // 调用 Gemini API
-      const response = await this.ai.models.generateContent({
+      // 调用 Gemini API，当前版本的 SDK 不支持取消请求，取消后直接丢弃结果
+      const response = await AbortHelper.race(this.ai.models.generateContent({
         model: options?.model || this.modelName,
         contents,
         config: {
@@ -440,12 +629,15 @@ export class GeminiModel extends BaseModel {
           systemInstruction: systemInstruction ? { text: systemInstruction } : undefined,
           tools: options?.tools,
         },
-      })
+      }), options?.signal)
 
       // 转换为统一格式并返回
       return this.convertGeminiResponseToUnified(response, options)
     }
     catch (error: any) {
+      if (AbortHelper.isAbortError(error)) {
+        throw error
+      }
       throw new Error(`Gemini API 错误: ${error.message}`)
     }
   }
@@ -457,37 +649,31 @@ export class GeminiModel extends BaseModel {
    * @returns 生成响应内容块的异步生成器
    */
   async* unifiedChatStream<T extends ChatOptions | undefined = undefined>(
-    prompt: string,
+    prompt: MessageContent,
     options?: T,
   ): AsyncGenerator<StreamChunkTypeForOptions<T>, void, unknown> {
     try {
       // 准备参数
       let contents: any[] = []
-      let systemInstruction: string | undefined
 
-      if (options?.history && options.history.length > 0) {
-        // 如果有历史记录，处理历史记录
-        const systemMessages = options.history.filter(m => m.role === UnifiedChatRole.SYSTEM)
-        if (systemMessages.length > 0) {
-          systemInstruction = systemMessages[systemMessages.length - 1].content
-        }
+      // 历史记录中的系统消息合并到系统指令中
+      const systemInstruction = ModelHelpers.mergeSystemMessages(options?.systemMessage, options?.history)
 
+      if (options?.history && options.history.length > 0) {
         // 转换非系统消息
         contents = this.convertMessagesToGeminiFormat(
           options.history.filter(m => m.role !== UnifiedChatRole.SYSTEM),
         )
       }
 
-      if (options?.systemMessage) {
-        systemInstruction = options.systemMessage
+      // 添加当前用户消息，提示为空时（如提交工具执行结果后继续生成）不添加
+      if (!ContentHelper.isEmpty(prompt)) {
+        contents.push({
+          role: 'user',
+          parts: this.convertContentToParts(prompt),
+        })
       }
 
-      // 添加当前用户消息
-      contents.push({
-        role: 'user',
-        parts: [{ text: prompt }],
-      })
-
       // 转换选项
       const configOptions: any = {}
       if (options?.temperature !== undefined) {
@@ -496,9 +682,10 @@ export class GeminiModel extends BaseModel {
       if (options?.maxTokens !== undefined) {
         configOptions.maxOutputTokens = options.maxTokens
       }
+      this.applyResponseSchema(configOptions, options)
 
       // 调用 Gemini 流式 API
-      const response = await this.ai.models.generateContentStream({
+      const response = await AbortHelper.race(this.ai.models.generateContentStream({
         model: this.modelName,
         contents,
         config: {
@@ -506,17 +693,33 @@ export class GeminiModel extends BaseModel {
           systemInstruction: systemInstruction ? { text: systemInstruction } : undefined,
           tools: options?.tools,
         },
-      })
+      }), options?.signal)
 
       // 用于累积JSON流式输出的缓冲区
       let jsonBuffer = ''
-      const isJsonMode = options?.responseFormat === ResponseFormat.JSON
+      const isJsonMode = options?.responseFormat === ResponseFormat.JSON || !!options?.responseSchema
+
+      // usageMetadata 在每个块中都是累计值，记录最新值用于计算单个块的 token 数量
+      let usageMetadata: GenerateContentResponseUsageMetadata | undefined
+      let previousCandidatesTokens = 0
 
       // 在流式过程中，处理响应块
       for await (const chunk of response) {
+        // 取消后停止读取剩余的响应块
+        AbortHelper.throwIfAborted(options?.signal)
+
+        let chunkTokens: number | undefined
+        if (chunk.usageMetadata) {
+          usageMetadata = chunk.usageMetadata
+          const candidatesTokens = chunk.usageMetadata.candidatesTokenCount || 0
+          chunkTokens = candidatesTokens - previousCandidatesTokens
+          previousCandidatesTokens = candidatesTokens
+        }
+
         const functionCalls = chunk.functionCalls || []
         if (functionCalls.length > 0) {
           const functionCallsData = functionCalls.map((call: any) => ({
+            id: call.id,
             name: call.name,
             arguments: call.args,
           }))
@@ -526,6 +729,8 @@ export class GeminiModel extends BaseModel {
             isJsonResponse: true as T extends { responseFormat: ResponseFormat.JSON } ? boolean : boolean,
             isLast: true,
             model: this.modelName,
+            chunkTokens,
+            usage: this.convertUsage(usageMetadata),
             functionCalls: functionCallsData,
           } as unknown as StreamChunkTypeForOptions<T>
           return
@@ -543,6 +748,7 @@ export class GeminiModel extends BaseModel {
               isJsonResponse: false, // 在流式过程中不解析JSON
               isLast: false,
               model: this.modelName,
+              chunkTokens,
             } as StreamChunkTypeForOptions<T>
 
             yield chunkObj
@@ -554,6 +760,7 @@ export class GeminiModel extends BaseModel {
               isJsonResponse: false,
               isLast: false,
               model: this.modelName,
+              chunkTokens,
             } as StreamChunkTypeForOptions<T>
 
             yield chunkObj
@@ -583,6 +790,7 @@ export class GeminiModel extends BaseModel {
           isJsonResponse,
           isLast: true,
           model: this.modelName,
+          usage: this.convertUsage(usageMetadata),
         } as StreamChunkTypeForOptions<T>
 
         yield finalChunk
@@ -594,12 +802,16 @@ export class GeminiModel extends BaseModel {
           isJsonResponse: false,
           isLast: true,
           model: this.modelName,
+          usage: this.convertUsage(usageMetadata),
         } as StreamChunkTypeForOptions<T>
 
         yield finalChunk
       }
     }
     catch (error: any) {
+      if (AbortHelper.isAbortError(error)) {
+        throw error
+      }
       throw new Error(`Gemini 流式 API 错误: ${error.message}`)
     }
   }
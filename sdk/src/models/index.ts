@@ -1,2 +1,8 @@
+export * from './cached'
+export * from './claude'
 export * from './gemini'
+export * from './mock'
+export * from './openai'
+export * from './replay'
+export * from './router'
 export * from './unified'
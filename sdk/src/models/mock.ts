@@ -0,0 +1,279 @@
+import type {
+  ChatOptions,
+  MessageContent,
+  ResponseTypeForOptions,
+  StreamChunkTypeForOptions,
+  TokenUsage,
+} from '../types'
+import { BaseModel } from '../base'
+import { ResponseFormat } from '../types'
+import { AbortHelper, ContentHelper, JsonHelper } from '../utils'
+
+/**
+ * 脚本化响应
+ */
+export interface MockResponse {
+  /** 文本内容 */
+  content?: string
+  /** 函数调用列表，存在时以原生函数调用的形式返回 */
+  functionCalls?: { id?: string, name: string, arguments: Record<string, any> }[]
+  /** 流式输出时的分片，不填时按 chunkSize 切分 content */
+  chunks?: string[]
+  /** 模拟接口错误，存在时抛出该错误信息 */
+  error?: string
+  /** 消耗的token数量 */
+  usage?: TokenUsage
+}
+
+/**
+ * 脚本化响应提供者，可以是固定响应、纯文本，或根据请求动态生成响应的函数
+ * 函数形式的 prompt 参数为原始提示内容，可能包含图片等附件
+ */
+export type MockResponder =
+  | MockResponse
+  | string
+  | ((prompt: MessageContent, options?: ChatOptions) => MockResponse | string)
+
+/**
+ * MockModel 记录的调用
+ */
+export interface MockModelCall {
+  /** 提示内容 */
+  prompt: MessageContent
+  /** 请求选项 */
+  options?: ChatOptions
+  /** 是否为流式调用 */
+  stream: boolean
+}
+
+/**
+ * MockModel 配置选项
+ */
+export interface MockModelOptions {
+  /** 按顺序返回的脚本化响应 */
+  responses?: MockResponder[]
+  /** 脚本化响应用完后的默认响应，不填时抛出错误 */
+  defaultResponse?: MockResponder
+  /** 模型名称，默认为 "mock-model" */
+  model?: string
+  /** 是否原生支持工具调用，默认为 true */
+  supportsTools?: boolean
+  /** 是否原生支持系统消息，默认为 true */
+  supportsSystemMessages?: boolean
+  /** 流式输出时每个分片的字符数，默认为 8 */
+  chunkSize?: number
+}
+
+/**
+ * Mock 模型类
+ * 按脚本返回确定的响应，用于离线测试
+ */
+export class MockModel extends BaseModel {
+  /** 所有调用记录 */
+  readonly calls: MockModelCall[] = []
+
+  private responses: MockResponder[]
+  private defaultResponse?: MockResponder
+  private modelName: string
+  private toolsSupported: boolean
+  private systemMessagesSupported: boolean
+  private chunkSize: number
+
+  /**
+   * 构造函数
+   * @param options MockModel 配置选项
+   */
+  constructor(options: MockModelOptions = {}) {
+    super()
+    this.responses = [...(options.responses || [])]
+    this.defaultResponse = options.defaultResponse
+    this.modelName = options.model || 'mock-model'
+    this.toolsSupported = options.supportsTools ?? true
+    this.systemMessagesSupported = options.supportsSystemMessages ?? true
+    this.chunkSize = options.chunkSize || 8
+  }
+
+  /**
+   * 获取默认模型
+   * @returns 默认模型名称
+   */
+  getDefaultModel(): string {
+    return this.modelName
+  }
+
+  /**
+   * 检查模型是否原生支持工具/函数
+   * @returns 是否支持工具
+   */
+  supportsTools(_model?: string): boolean {
+    return this.toolsSupported
+  }
+
+  /**
+   * 检查模型是否原生支持系统消息
+   * @returns 是否支持系统消息
+   */
+  supportsSystemMessages(_model?: string): boolean {
+    return this.systemMessagesSupported
+  }
+
+  /**
+   * 追加脚本化响应
+   * @param responses 要追加的响应
+   * @returns 当前实例，用于链式调用
+   */
+  addResponses(...responses: MockResponder[]): this {
+    this.responses.push(...responses)
+    return this
+  }
+
+  /**
+   * 清空剩余的脚本化响应和调用记录
+   */
+  reset(): void {
+    this.responses = []
+    this.calls.length = 0
+  }
+
+  /**
+   * 取出下一个脚本化响应
+   * @param prompt 提示内容
+   * @param options 请求选项
+   * @returns 脚本化响应
+   */
+  private nextResponse(prompt: MessageContent, options?: ChatOptions): MockResponse {
+    const responder = this.responses.length > 0 ? this.responses.shift() : this.defaultResponse
+    if (responder === undefined) {
+      throw new Error(`MockModel 没有可用的脚本响应，提示内容: ${ContentHelper.getText(prompt).substring(0, 50)}`)
+    }
+
+    const response = typeof responder === 'function' ? responder(prompt, options) : responder
+    const mockResponse = typeof response === 'string' ? { content: response } : response
+
+    if (mockResponse.error) {
+      throw new Error(mockResponse.error)
+    }
+
+    return mockResponse
+  }
+
+  /**
+   * 生成带ID的函数调用数据
+   * @param response 脚本化响应
+   * @returns 函数调用数据
+   */
+  private getFunctionCallsData(response: MockResponse): Record<string, any>[] {
+    return (response.functionCalls || []).map((call, index) => ({
+      id: call.id || `mock_call_${this.calls.length}_${index}`,
+      name: call.name,
+      arguments: call.arguments,
+    }))
+  }
+
+  /**
+   * 统一接口：发送聊天消息并获取响应
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求的可选参数
+   * @returns 包含聊天响应的Promise
+   */
+  async unifiedChat<T extends ChatOptions | undefined = undefined>(
+    prompt: MessageContent,
+    options?: T,
+  ): Promise<ResponseTypeForOptions<T>> {
+    this.calls.push({ prompt, options, stream: false })
+    AbortHelper.throwIfAborted(options?.signal)
+    const response = this.nextResponse(prompt, options)
+
+    if (response.functionCalls && response.functionCalls.length > 0) {
+      const functionCallsData = this.getFunctionCallsData(response)
+
+      return {
+        content: { function_calls: functionCallsData },
+        isJsonResponse: true,
+        model: this.getModel(options?.model),
+        usage: response.usage,
+        functionCalls: functionCallsData,
+      } as unknown as ResponseTypeForOptions<T>
+    }
+
+    const rawText = response.content ?? (response.chunks || []).join('')
+    const isJsonMode = options?.responseFormat === ResponseFormat.JSON || !!options?.responseSchema
+    const content = isJsonMode && rawText ? JsonHelper.safeParseJson(rawText) : rawText
+
+    return {
+      content,
+      isJsonResponse: isJsonMode && typeof content !== 'string',
+      model: this.getModel(options?.model),
+      usage: response.usage,
+    } as ResponseTypeForOptions<T>
+  }
+
+  /**
+   * 统一接口：流式返回聊天响应
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求的可选参数
+   * @returns 生成响应内容块的异步生成器
+   */
+  async* unifiedChatStream<T extends ChatOptions | undefined = undefined>(
+    prompt: MessageContent,
+    options?: T,
+  ): AsyncGenerator<StreamChunkTypeForOptions<T>, void, unknown> {
+    this.calls.push({ prompt, options, stream: true })
+    AbortHelper.throwIfAborted(options?.signal)
+    const response = this.nextResponse(prompt, options)
+    const model = this.getModel(options?.model)
+
+    // 按脚本分片或按固定长度切分文本
+    const rawText = response.content ?? ''
+    const chunks = response.chunks || []
+    if (!response.chunks) {
+      for (let i = 0; i < rawText.length; i += this.chunkSize) {
+        chunks.push(rawText.substring(i, i + this.chunkSize))
+      }
+    }
+
+    for (const text of chunks) {
+      AbortHelper.throwIfAborted(options?.signal)
+      yield {
+        content: text,
+        isJsonResponse: false,
+        isLast: false,
+        model,
+      } as StreamChunkTypeForOptions<T>
+    }
+
+    if (response.functionCalls && response.functionCalls.length > 0) {
+      const functionCallsData = this.getFunctionCallsData(response)
+
+      yield {
+        content: { function_calls: functionCallsData },
+        isJsonResponse: true,
+        isLast: true,
+        model,
+        usage: response.usage,
+        functionCalls: functionCallsData,
+      } as unknown as StreamChunkTypeForOptions<T>
+      return
+    }
+
+    const fullText = chunks.join('')
+    if ((options?.responseFormat === ResponseFormat.JSON || options?.responseSchema) && fullText) {
+      yield {
+        content: JsonHelper.safeParseJson(fullText),
+        isJsonResponse: true,
+        isLast: true,
+        model,
+        usage: response.usage,
+      } as StreamChunkTypeForOptions<T>
+    }
+    else {
+      yield {
+        content: '',
+        isJsonResponse: false,
+        isLast: true,
+        model,
+        usage: response.usage,
+      } as StreamChunkTypeForOptions<T>
+    }
+  }
+}
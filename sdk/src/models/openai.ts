@@ -0,0 +1,493 @@
+import type {
+  AgentFunctionSchema,
+  ChatMessage,
+  ChatOptions,
+  MessageContent,
+  ResponseTypeForOptions,
+  StreamChunkTypeForOptions,
+  TokenUsage,
+} from '../types'
+import { BaseModel } from '../base'
+import {
+  ResponseFormat,
+  ChatRole as UnifiedChatRole,
+} from '../types'
+import { AbortHelper, ContentHelper, JsonHelper, ModelHelpers, SSEParser } from '../utils'
+
+/**
+ * OpenAI 兼容接口参数
+ */
+export interface OpenAICompatibleOptions {
+  /** API 密钥，本地部署的服务（如 Ollama、llama.cpp）可以不填 */
+  apiKey?: string
+  /** 接口基础地址，默认为 "https://api.openai.com/v1" */
+  baseURL?: string
+  /** 模型名称，默认为 "gpt-4o-mini" */
+  model?: string
+  /** 额外的请求头 */
+  headers?: Record<string, string>
+  /** 是否原生支持工具调用，默认为 true，部分本地服务不支持时可以关闭 */
+  supportsTools?: boolean
+  /** 是否原生支持系统消息，默认为 true */
+  supportsSystemMessages?: boolean
+}
+
+/**
+ * Chat Completions 消息格式
+ */
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string | OpenAIContentPart[] | null
+  tool_calls?: OpenAIToolCall[]
+  tool_call_id?: string
+}
+
+/**
+ * Chat Completions 用户消息的内容片段格式
+ */
+type OpenAIContentPart =
+  | { type: 'text', text: string }
+  | { type: 'image_url', image_url: { url: string } }
+  | { type: 'input_audio', input_audio: { data: string, format: string } }
+  | { type: 'file', file: { filename?: string, file_data?: string, file_id?: string } }
+
+/**
+ * Chat Completions 工具调用格式
+ */
+interface OpenAIToolCall {
+  id: string
+  type: 'function'
+  function: {
+    name: string
+    arguments: string
+  }
+}
+
+/**
+ * OpenAI 兼容模型类
+ * 基于 Chat Completions 接口的实现，可对接 OpenAI、vLLM、Ollama、llama.cpp 等服务
+ */
+export class OpenAICompatibleModel extends BaseModel {
+  private apiKey?: string
+  private baseURL: string
+  private modelName: string
+  private headers: Record<string, string>
+  private toolsSupported: boolean
+  private systemMessagesSupported: boolean
+
+  /**
+   * 构造函数
+   * @param options OpenAI 兼容接口配置选项
+   */
+  constructor(options: OpenAICompatibleOptions = {}) {
+    super()
+    this.apiKey = options.apiKey
+    this.baseURL = (options.baseURL || 'https://api.openai.com/v1').replace(/\/+$/, '')
+    this.modelName = options.model || 'gpt-4o-mini'
+    this.headers = options.headers || {}
+    this.toolsSupported = options.supportsTools ?? true
+    this.systemMessagesSupported = options.supportsSystemMessages ?? true
+  }
+
+  /**
+   * 获取默认模型
+   * @returns 默认模型名称
+   */
+  getDefaultModel(): string {
+    return this.modelName
+  }
+
+  /**
+   * 检查模型是否原生支持工具/函数
+   * @returns 是否支持工具
+   */
+  supportsTools(_model?: string): boolean {
+    return this.toolsSupported
+  }
+
+  /**
+   * 检查模型是否原生支持系统消息
+   * @returns 是否支持系统消息
+   */
+  supportsSystemMessages(_model?: string): boolean {
+    return this.systemMessagesSupported
+  }
+
+  /**
+   * 将统一格式的工具转换为 Chat Completions 的格式
+   * @param tools 统一格式的工具定义列表
+   * @returns Chat Completions 格式的工具定义
+   */
+  convertToolsFormat(tools: AgentFunctionSchema[]): any {
+    if (!tools || tools.length === 0) {
+      return undefined
+    }
+
+    return tools.map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: ModelHelpers.normalizeToolParameters(tool.parameters),
+      },
+    }))
+  }
+
+  /**
+   * 将统一聊天消息转换为 Chat Completions 格式
+   * @param messages 统一格式的聊天消息
+   * @returns Chat Completions 格式的消息数组
+   */
+  private convertMessagesToOpenAIFormat(messages: ChatMessage[]): OpenAIMessage[] {
+    return messages.map((message): OpenAIMessage => {
+      if (message.role === UnifiedChatRole.TOOL) {
+        return {
+          role: 'tool',
+          content: ContentHelper.getText(message.content),
+          tool_call_id: message.toolCallId,
+        }
+      }
+
+      if (message.role === UnifiedChatRole.ASSISTANT && message.toolCalls && message.toolCalls.length > 0) {
+        return {
+          role: 'assistant',
+          content: ContentHelper.getText(message.content) || null,
+          tool_calls: message.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: {
+              name: call.name,
+              arguments: JSON.stringify(call.arguments || {}),
+            },
+          })),
+        }
+      }
+
+      if (message.role === UnifiedChatRole.USER) {
+        return { role: 'user', content: this.convertContent(message.content) }
+      }
+
+      return {
+        role: message.role === UnifiedChatRole.SYSTEM ? 'system' : 'assistant',
+        content: ContentHelper.getText(message.content),
+      }
+    })
+  }
+
+  /**
+   * 将统一格式的消息内容转换为 Chat Completions 的用户消息内容
+   * 图片以 data URL 发送，音频以 input_audio 发送，文件以 file 发送
+   * @param content 消息内容
+   * @returns 纯文本或内容片段数组
+   */
+  private convertContent(content: MessageContent): string | OpenAIContentPart[] {
+    if (typeof content === 'string') {
+      return content
+    }
+
+    return content.map((part): OpenAIContentPart => {
+      switch (part.type) {
+        case 'text':
+          return { type: 'text', text: part.text }
+        case 'image':
+          return { type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } }
+        case 'audio':
+          return {
+            type: 'input_audio',
+            input_audio: { data: part.data, format: part.mimeType === 'audio/mpeg' ? 'mp3' : part.mimeType.split('/')[1] },
+          }
+        default:
+          // 文件
+          return {
+            type: 'file',
+            file: part.data
+              ? { filename: part.name, file_data: `data:${part.mimeType};base64,${part.data}` }
+              : { file_id: part.uri },
+          }
+      }
+    })
+  }
+
+  /**
+   * 构建请求体
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求选项
+   * @param stream 是否为流式请求
+   * @returns 请求体
+   */
+  private buildRequestBody(prompt: MessageContent, options: ChatOptions | undefined, stream: boolean): Record<string, any> {
+    const messages: OpenAIMessage[] = []
+
+    // 历史记录中的系统消息合并到 options.systemMessage 之后
+    const systemMessage = ModelHelpers.mergeSystemMessages(options?.systemMessage, options?.history)
+    if (systemMessage) {
+      messages.push({ role: 'system', content: systemMessage })
+    }
+
+    // 转换非系统消息
+    messages.push(...this.convertMessagesToOpenAIFormat(
+      (options?.history || []).filter(m => m.role !== UnifiedChatRole.SYSTEM),
+    ))
+
+    // 添加当前用户消息，提示为空时（如提交工具执行结果后继续生成）不添加
+    if (!ContentHelper.isEmpty(prompt)) {
+      messages.push({ role: 'user', content: this.convertContent(prompt) })
+    }
+
+    const body: Record<string, any> = {
+      model: this.getModel(options?.model),
+      messages,
+      stream,
+    }
+    if (stream) {
+      // 要求在流式响应的最后一个块中返回 token 使用情况
+      body.stream_options = { include_usage: true }
+    }
+    if (options?.temperature !== undefined) {
+      body.temperature = options.temperature
+    }
+    if (options?.maxTokens !== undefined) {
+      body.max_tokens = options.maxTokens
+    }
+    if (options?.tools && options.tools.length > 0) {
+      body.tools = options.tools
+    }
+
+    return body
+  }
+
+  /**
+   * 发送 Chat Completions 请求
+   * @param body 请求体
+   * @param signal 取消信号
+   * @returns fetch 响应
+   */
+  private async request(body: Record<string, any>, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.headers,
+    }
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`
+    }
+
+    const response = await fetch(`${this.baseURL}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '')
+      throw new Error(`HTTP ${response.status} ${response.statusText}${errorText ? `: ${errorText}` : ''}`)
+    }
+
+    return response
+  }
+
+  /**
+   * 将 Chat Completions 的 usage 转换为统一的 token 使用情况
+   * @param usage Chat Completions 响应中的 usage
+   * @returns 统一格式的 token 使用情况
+   */
+  private convertUsage(usage?: Record<string, any>): TokenUsage | undefined {
+    if (!usage) {
+      return undefined
+    }
+
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+      totalTokens: usage.total_tokens,
+    }
+  }
+
+  /**
+   * 将工具调用转换为统一的函数调用格式
+   * @param toolCalls Chat Completions 工具调用列表
+   * @returns 统一格式的函数调用列表
+   */
+  private convertToolCalls(toolCalls: OpenAIToolCall[]): Record<string, any>[] {
+    return toolCalls.map(call => ({
+      id: call.id,
+      name: call.function.name,
+      arguments: call.function.arguments ? JsonHelper.safeParseJson(call.function.arguments) : {},
+    }))
+  }
+
+  /**
+   * 统一接口：发送聊天消息并获取响应
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求的可选参数
+   * @returns 包含聊天响应的Promise
+   */
+  async unifiedChat<T extends ChatOptions | undefined = undefined>(
+    prompt: MessageContent,
+    options?: T,
+  ): Promise<ResponseTypeForOptions<T>> {
+    try {
+      const response = await this.request(this.buildRequestBody(prompt, options, false), options?.signal)
+      const data = await response.json()
+
+      const message = data.choices?.[0]?.message || {}
+      const usage = this.convertUsage(data.usage)
+      const model = data.model || this.getModel(options?.model)
+
+      // 优先处理工具调用
+      if (message.tool_calls && message.tool_calls.length > 0) {
+        const functionCallsData = this.convertToolCalls(message.tool_calls)
+
+        return {
+          content: { function_calls: functionCallsData },
+          isJsonResponse: true,
+          model,
+          usage,
+          functionCalls: functionCallsData,
+        } as unknown as ResponseTypeForOptions<T>
+      }
+
+      const rawText: string = message.content || ''
+      let content: any = rawText
+      const isJsonMode = options?.responseFormat === ResponseFormat.JSON || !!options?.responseSchema
+
+      if (isJsonMode && rawText) {
+        content = JsonHelper.safeParseJson(rawText)
+      }
+
+      return {
+        content,
+        isJsonResponse: isJsonMode && typeof content !== 'string',
+        model,
+        usage,
+      } as ResponseTypeForOptions<T>
+    }
+    catch (error: any) {
+      if (AbortHelper.isAbortError(error)) {
+        throw error
+      }
+      throw new Error(`OpenAI 兼容 API 错误: ${error.message}`)
+    }
+  }
+
+  /**
+   * 统一接口：流式返回聊天响应
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求的可选参数
+   * @returns 生成响应内容块的异步生成器
+   */
+  async* unifiedChatStream<T extends ChatOptions | undefined = undefined>(
+    prompt: MessageContent,
+    options?: T,
+  ): AsyncGenerator<StreamChunkTypeForOptions<T>, void, unknown> {
+    try {
+      const response = await this.request(this.buildRequestBody(prompt, options, true), options?.signal)
+      if (!response.body) {
+        throw new Error('响应体为空')
+      }
+
+      const model = this.getModel(options?.model)
+      const isJsonMode = options?.responseFormat === ResponseFormat.JSON || !!options?.responseSchema
+      let jsonBuffer = ''
+
+      // 工具调用以增量的形式返回，按 index 累积
+      const toolCalls: OpenAIToolCall[] = []
+      let usage: TokenUsage | undefined
+
+      for await (const event of SSEParser.parse(response.body)) {
+        if (event.data === '[DONE]') {
+          break
+        }
+
+        const data = JSON.parse(event.data)
+        if (data.usage) {
+          usage = this.convertUsage(data.usage)
+        }
+
+        const delta = data.choices?.[0]?.delta
+        if (!delta) {
+          continue
+        }
+
+        if (delta.tool_calls) {
+          for (const toolCallDelta of delta.tool_calls) {
+            const index = toolCallDelta.index ?? toolCalls.length
+            if (!toolCalls[index]) {
+              toolCalls[index] = {
+                id: toolCallDelta.id || `call_${Date.now()}_${index}`,
+                type: 'function',
+                function: { name: '', arguments: '' },
+              }
+            }
+            if (toolCallDelta.id) {
+              toolCalls[index].id = toolCallDelta.id
+            }
+            if (toolCallDelta.function?.name) {
+              toolCalls[index].function.name += toolCallDelta.function.name
+            }
+            if (toolCallDelta.function?.arguments) {
+              toolCalls[index].function.arguments += toolCallDelta.function.arguments
+            }
+          }
+        }
+
+        const text: string = delta.content || ''
+        if (text) {
+          if (isJsonMode) {
+            // 在JSON模式下，累积内容而不立即解析
+            jsonBuffer += text
+          }
+
+          yield {
+            content: text,
+            isJsonResponse: false,
+            isLast: false,
+            model,
+          } as StreamChunkTypeForOptions<T>
+        }
+      }
+
+      // 存在工具调用时，以函数调用块结束
+      const completedToolCalls = toolCalls.filter(call => call && call.function.name)
+      if (completedToolCalls.length > 0) {
+        const functionCallsData = this.convertToolCalls(completedToolCalls)
+
+        yield {
+          content: { function_calls: functionCallsData },
+          isJsonResponse: true,
+          isLast: true,
+          model,
+          usage,
+          functionCalls: functionCallsData,
+        } as unknown as StreamChunkTypeForOptions<T>
+        return
+      }
+
+      // 处理JSON模式的最终输出
+      if (isJsonMode && jsonBuffer) {
+        yield {
+          content: JsonHelper.safeParseJson(jsonBuffer),
+          isJsonResponse: true,
+          isLast: true,
+          model,
+          usage,
+        } as StreamChunkTypeForOptions<T>
+      }
+      else {
+        yield {
+          content: '',
+          isJsonResponse: false,
+          isLast: true,
+          model,
+          usage,
+        } as StreamChunkTypeForOptions<T>
+      }
+    }
+    catch (error: any) {
+      if (AbortHelper.isAbortError(error)) {
+        throw error
+      }
+      throw new Error(`OpenAI 兼容流式 API 错误: ${error.message}`)
+    }
+  }
+}
@@ -0,0 +1,276 @@
+import type {
+  AgentFunctionSchema,
+  ChatOptions,
+  MessageContent,
+  ResponseTypeForOptions,
+  StreamChunkTypeForOptions,
+} from '../types'
+import fs from 'node:fs'
+import path from 'node:path'
+import { BaseModel } from '../base'
+import { ContentHelper, ResponseValidator } from '../utils'
+
+/**
+ * 回放模式
+ * - record: 调用真实模型并记录所有交互
+ * - replay: 只从夹具回放，找不到记录时抛出错误
+ * - auto: 夹具中有记录时回放，否则调用真实模型并记录
+ */
+export type ReplayMode = 'record' | 'replay' | 'auto'
+
+/**
+ * ReplayModel 配置选项
+ */
+export interface ReplayModelOptions {
+  /** 夹具文件路径（JSON） */
+  fixturePath: string
+  /** 回放模式，默认为 "auto" */
+  mode?: ReplayMode
+}
+
+/**
+ * 一次请求的可序列化描述，用于匹配录制的交互
+ */
+interface ReplayRequest {
+  prompt: MessageContent
+  options: Record<string, any>
+}
+
+/**
+ * 录制的一次交互
+ */
+interface ReplayExchange {
+  /** 交互类型 */
+  type: 'chat' | 'stream'
+  /** 请求内容 */
+  request: ReplayRequest
+  /** 非流式调用的响应 */
+  response?: any
+  /** 流式调用的所有响应块 */
+  chunks?: any[]
+}
+
+/**
+ * 夹具文件格式
+ */
+interface ReplayFixture {
+  version: 1
+  exchanges: ReplayExchange[]
+}
+
+/**
+ * 参与请求匹配的选项字段
+ */
+const MATCH_OPTION_KEYS: (keyof ChatOptions)[] = [
+  'model',
+  'history',
+  'systemMessage',
+  'temperature',
+  'maxTokens',
+  'responseFormat',
+  'tools',
+]
+
+/**
+ * 录制/回放模型类
+ * 包装真实模型，将 unifiedChat / unifiedChatStream 的交互记录到 JSON 夹具中，之后可离线回放
+ */
+export class ReplayModel extends BaseModel {
+  private model: BaseModel
+  private fixturePath: string
+  private mode: ReplayMode
+  private fixture: ReplayFixture
+  /** 每个请求已回放的次数，相同请求按录制顺序依次回放 */
+  private replayCounters = new Map<string, number>()
+
+  /**
+   * 构造函数
+   * @param model 被包装的真实模型，replay 模式下不会发起请求，但仍用于转换工具格式等
+   * @param options 录制/回放配置选项
+   */
+  constructor(model: BaseModel, options: ReplayModelOptions) {
+    super()
+    this.model = model
+    this.fixturePath = options.fixturePath
+    this.mode = options.mode || 'auto'
+    this.fixture = this.loadFixture()
+  }
+
+  /**
+   * 获取默认模型
+   * @returns 默认模型名称
+   */
+  getDefaultModel(): string {
+    return this.model.getDefaultModel()
+  }
+
+  /**
+   * 检查模型是否原生支持工具/函数
+   * @returns 是否支持工具
+   */
+  supportsTools(model?: string): boolean {
+    return this.model.supportsTools(model)
+  }
+
+  /**
+   * 检查模型是否原生支持系统消息
+   * @returns 是否支持系统消息
+   */
+  supportsSystemMessages(model?: string): boolean {
+    return this.model.supportsSystemMessages(model)
+  }
+
+  /**
+   * 将统一格式的工具转换为被包装模型的格式
+   * @param tools 统一格式的工具定义列表
+   * @returns 模型特定格式的工具定义
+   */
+  convertToolsFormat(tools: AgentFunctionSchema[]): any {
+    return this.model.convertToolsFormat(tools)
+  }
+
+  /**
+   * 加载夹具文件，record 模式下总是从空夹具开始
+   * @returns 夹具内容
+   */
+  private loadFixture(): ReplayFixture {
+    if (this.mode !== 'record' && fs.existsSync(this.fixturePath)) {
+      return JSON.parse(fs.readFileSync(this.fixturePath, 'utf8'))
+    }
+
+    if (this.mode === 'replay') {
+      throw new Error(`回放夹具不存在: ${this.fixturePath}`)
+    }
+
+    return { version: 1, exchanges: [] }
+  }
+
+  /**
+   * 保存夹具文件
+   */
+  private saveFixture(): void {
+    fs.mkdirSync(path.dirname(this.fixturePath), { recursive: true })
+    fs.writeFileSync(this.fixturePath, `${JSON.stringify(this.fixture, null, 2)}\n`)
+  }
+
+  /**
+   * 生成可序列化的请求描述
+   * @param prompt 提示内容
+   * @param options 请求选项
+   * @returns 请求描述
+   */
+  private createRequest(prompt: MessageContent, options?: ChatOptions): ReplayRequest {
+    const matchOptions: Record<string, any> = {}
+    for (const key of MATCH_OPTION_KEYS) {
+      if (options?.[key] !== undefined) {
+        matchOptions[key] = options[key]
+      }
+    }
+    // 响应模式可能是 Zod 模式，转换为 JSON Schema 后参与匹配
+    if (options?.responseSchema) {
+      matchOptions.responseSchema = ResponseValidator.toJsonSchema(options.responseSchema)
+    }
+
+    // 经过一次序列化，去掉函数等无法保存的值，保证录制和回放时的结构一致
+    const request: ReplayRequest = JSON.parse(JSON.stringify({ prompt, options: matchOptions }))
+
+    // 工具调用ID可能在每次运行时随机生成，不参与匹配
+    for (const message of request.options.history || []) {
+      delete message.toolCallId
+      for (const call of message.toolCalls || []) {
+        delete call.id
+      }
+    }
+
+    return request
+  }
+
+  /**
+   * 查找与请求匹配的录制交互
+   * @param type 交互类型
+   * @param request 请求描述
+   * @returns 匹配的交互，找不到时返回 undefined
+   */
+  private findExchange(type: ReplayExchange['type'], request: ReplayRequest): ReplayExchange | undefined {
+    const requestKey = `${type}:${JSON.stringify(request)}`
+    const matches = this.fixture.exchanges.filter(
+      exchange => exchange.type === type && JSON.stringify(exchange.request) === JSON.stringify(request),
+    )
+    const index = this.replayCounters.get(requestKey) || 0
+    if (index >= matches.length) {
+      return undefined
+    }
+
+    this.replayCounters.set(requestKey, index + 1)
+    return matches[index]
+  }
+
+  /**
+   * 记录一次交互并写入夹具
+   * @param exchange 交互内容
+   */
+  private recordExchange(exchange: ReplayExchange): void {
+    this.fixture.exchanges.push(exchange)
+    this.saveFixture()
+  }
+
+  /**
+   * 统一接口：发送聊天消息并获取响应
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求的可选参数
+   * @returns 包含聊天响应的Promise
+   */
+  async unifiedChat<T extends ChatOptions | undefined = undefined>(
+    prompt: MessageContent,
+    options?: T,
+  ): Promise<ResponseTypeForOptions<T>> {
+    const request = this.createRequest(prompt, options)
+
+    if (this.mode !== 'record') {
+      const exchange = this.findExchange('chat', request)
+      if (exchange) {
+        return exchange.response as ResponseTypeForOptions<T>
+      }
+      if (this.mode === 'replay') {
+        throw new Error(`回放夹具中没有匹配的请求: ${ContentHelper.getText(prompt).substring(0, 50)}`)
+      }
+    }
+
+    const response = await this.model.unifiedChat(prompt, options)
+    this.recordExchange({ type: 'chat', request, response })
+    return response
+  }
+
+  /**
+   * 统一接口：流式返回聊天响应
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求的可选参数
+   * @returns 生成响应内容块的异步生成器
+   */
+  async* unifiedChatStream<T extends ChatOptions | undefined = undefined>(
+    prompt: MessageContent,
+    options?: T,
+  ): AsyncGenerator<StreamChunkTypeForOptions<T>, void, unknown> {
+    const request = this.createRequest(prompt, options)
+
+    if (this.mode !== 'record') {
+      const exchange = this.findExchange('stream', request)
+      if (exchange) {
+        for (const chunk of exchange.chunks || []) {
+          yield chunk as StreamChunkTypeForOptions<T>
+        }
+        return
+      }
+      if (this.mode === 'replay') {
+        throw new Error(`回放夹具中没有匹配的请求: ${ContentHelper.getText(prompt).substring(0, 50)}`)
+      }
+    }
+
+    const chunks: StreamChunkTypeForOptions<T>[] = []
+    for await (const chunk of this.model.unifiedChatStream(prompt, options)) {
+      chunks.push(chunk)
+      yield chunk
+    }
+    this.recordExchange({ type: 'stream', request, chunks })
+  }
+}
@@ -0,0 +1,326 @@
+import type {
+  AgentFunctionSchema,
+  ChatOptions,
+  MessageContent,
+  ResponseTypeForOptions,
+  StreamChunkTypeForOptions,
+} from '../types'
+import { BaseModel } from '../base'
+import { AbortHelper, TokenEstimator } from '../utils'
+
+/** 第一次重试前的默认等待时间（毫秒） */
+const DEFAULT_BACKOFF = 1000
+
+/**
+ * 参与路由判断的请求信息
+ */
+export interface RouterRequest {
+  /** 提示/消息内容 */
+  prompt: MessageContent
+  /** 聊天请求选项 */
+  options?: ChatOptions
+  /** 请求是否带有工具 */
+  hasTools: boolean
+  /** 请求的估算 token 数，包含系统消息、工具定义、历史记录和提示 */
+  tokens: number
+}
+
+/**
+ * 模型路由
+ * 设置的条件需要全部满足才会使用此路由，未设置任何条件时匹配所有请求
+ */
+export interface RouterRoute {
+  /** 路由名称，默认为模型的默认模型名称 */
+  name?: string
+  /** 处理请求的模型 */
+  model: BaseModel
+  /** 匹配的模型名称，请求选项中的 model 匹配其中任意一项时使用此路由，并把模型名称传给此路由的模型 */
+  models?: (string | RegExp)[]
+  /** 为 true 时只处理带工具的请求，为 false 时只处理不带工具的请求 */
+  tools?: boolean
+  /** 只处理估算 token 数不超过该值的请求 */
+  maxPromptTokens?: number
+  /** 自定义匹配条件 */
+  when?: (request: RouterRequest) => boolean
+}
+
+/**
+ * 切换路由时的信息
+ */
+export interface RouterFallbackInfo {
+  /** 请求失败的路由名称 */
+  from: string
+  /** 接下来尝试的路由名称 */
+  to: string
+  /** 失败路由最后一次的错误 */
+  error: Error
+  /** 失败路由的请求次数，包括重试 */
+  attempts: number
+}
+
+/**
+ * RouterModel 配置选项
+ */
+export interface RouterModelOptions {
+  /** 按优先级排列的路由，请求依次使用匹配的路由 */
+  routes: RouterRoute[]
+  /** 请求失败时是否切换到下一个匹配的路由，默认为 true */
+  fallback?: boolean
+  /** 每个路由失败后的最大重试次数，默认为0 */
+  retries?: number
+  /** 第一次重试前的等待时间（毫秒），之后每次翻倍，默认为1000 */
+  backoff?: number
+  /** 判断错误是否可以重试或切换路由，默认除取消外的所有错误都可以 */
+  retryable?: (error: Error) => boolean
+  /** 切换路由时调用，可用于记录日志 */
+  onFallback?: (info: RouterFallbackInfo) => void
+}
+
+/**
+ * 路由模型类
+ * 包装多个模型，按规则为每个请求选择模型，请求失败时按退避重试并切换到下一个模型。
+ * 流式请求在收到第一个片段前失败时同样会切换，之后的错误直接抛出
+ */
+export class RouterModel extends BaseModel {
+  private routes: RouterRoute[]
+  private fallback: boolean
+  private retries: number
+  private backoff: number
+  private retryable?: (error: Error) => boolean
+  private onFallback?: (info: RouterFallbackInfo) => void
+
+  /**
+   * 构造函数
+   * @param options 路由配置选项
+   */
+  constructor(options: RouterModelOptions) {
+    super()
+    if (!options.routes || options.routes.length === 0) {
+      throw new Error('RouterModel 至少需要一个路由')
+    }
+    this.routes = options.routes
+    this.fallback = options.fallback ?? true
+    this.retries = Math.max(0, options.retries || 0)
+    this.backoff = options.backoff ?? DEFAULT_BACKOFF
+    this.retryable = options.retryable
+    this.onFallback = options.onFallback
+  }
+
+  /**
+   * 获取默认模型
+   * @returns 第一个路由的默认模型名称
+   */
+  getDefaultModel(): string {
+    return this.routes[0].model.getDefaultModel()
+  }
+
+  /**
+   * 检查模型是否原生支持工具/函数
+   * 所有路由都支持时才使用原生工具，否则统一通过提示调用工具
+   * @returns 是否支持工具
+   */
+  supportsTools(model?: string): boolean {
+    return this.routes.every(route => route.model.supportsTools(this.getRouteModelName(route, model)))
+  }
+
+  /**
+   * 检查模型是否原生支持系统消息
+   * 所有路由都支持时才直接发送系统消息
+   * @returns 是否支持系统消息
+   */
+  supportsSystemMessages(model?: string): boolean {
+    return this.routes.every(route => route.model.supportsSystemMessages(this.getRouteModelName(route, model)))
+  }
+
+  /**
+   * 保持统一的工具格式，选定路由后再由对应的模型转换
+   * @param tools 统一格式的工具定义列表
+   * @returns 统一格式的工具定义列表
+   */
+  convertToolsFormat(tools: AgentFunctionSchema[]): any {
+    return tools
+  }
+
+  /**
+   * 使用第一个匹配的路由计算请求占用的 token 数
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求的可选参数
+   * @returns token 数
+   */
+  async countTokens(prompt: MessageContent, options?: ChatOptions): Promise<number> {
+    const [route] = this.selectRoutes(prompt, options)
+    return route.model.countTokens(prompt, this.prepareOptions(route, options))
+  }
+
+  /**
+   * 统一接口：发送聊天消息并获取响应
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求的可选参数
+   * @returns 包含聊天响应的Promise
+   */
+  async unifiedChat<T extends ChatOptions | undefined = undefined>(
+    prompt: MessageContent,
+    options?: T,
+  ): Promise<ResponseTypeForOptions<T>> {
+    return this.requestWithFallback(prompt, options, (model, routeOptions) => {
+      return model.unifiedChat(prompt, routeOptions as T)
+    })
+  }
+
+  /**
+   * 统一接口：流式返回聊天响应
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求的可选参数
+   * @returns 生成响应内容块的异步生成器
+   */
+  async* unifiedChatStream<T extends ChatOptions | undefined = undefined>(
+    prompt: MessageContent,
+    options?: T,
+  ): AsyncGenerator<StreamChunkTypeForOptions<T>, void, unknown> {
+    // 收到第一个片段才算请求成功，之前的错误按重试和切换处理
+    const { stream, first } = await this.requestWithFallback(prompt, options, async (model, routeOptions) => {
+      const stream = model.unifiedChatStream(prompt, routeOptions as T)
+      return { stream, first: await stream.next() }
+    })
+
+    if (first.done) {
+      return
+    }
+    yield first.value
+    yield* stream
+  }
+
+  /**
+   * 依次使用匹配的路由发起请求，失败时按退避重试，重试用完后切换到下一个路由
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求选项
+   * @param request 使用指定模型发起请求
+   * @returns 第一个成功的请求结果
+   * @throws 所有路由都失败时抛出最后一个错误，取消或不可重试的错误直接抛出
+   */
+  private async requestWithFallback<R>(
+    prompt: MessageContent,
+    options: ChatOptions | undefined,
+    request: (model: BaseModel, options: ChatOptions | undefined) => Promise<R>,
+  ): Promise<R> {
+    const routes = this.selectRoutes(prompt, options)
+
+    for (let index = 0; ; index++) {
+      const route = routes[index]
+      const routeOptions = this.prepareOptions(route, options)
+
+      for (let attempts = 1; ; attempts++) {
+        try {
+          return await request(route.model, routeOptions)
+        }
+        catch (error: any) {
+          if (AbortHelper.isAbortError(error) || options?.signal?.aborted) {
+            throw error
+          }
+          if (this.retryable && !this.retryable(error)) {
+            throw error
+          }
+
+          if (attempts <= this.retries) {
+            await AbortHelper.sleep(this.backoff * 2 ** (attempts - 1), options?.signal)
+            continue
+          }
+
+          const next = routes[index + 1]
+          if (!next) {
+            throw error
+          }
+          this.onFallback?.({ from: this.getRouteName(route), to: this.getRouteName(next), error, attempts })
+          break
+        }
+      }
+    }
+  }
+
+  /**
+   * 按优先级筛选与请求匹配的路由
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求选项
+   * @returns 匹配的路由，不切换路由时只返回第一个
+   * @throws 没有匹配的路由时抛出错误
+   */
+  private selectRoutes(prompt: MessageContent, options?: ChatOptions): RouterRoute[] {
+    const request: RouterRequest = {
+      prompt,
+      options,
+      hasTools: !!options?.tools?.length,
+      tokens: TokenEstimator.estimateRequest(prompt, options),
+    }
+
+    const routes = this.routes.filter((route) => {
+      if (route.models && !this.matchesModel(route, options?.model)) {
+        return false
+      }
+      if (route.tools !== undefined && route.tools !== request.hasTools) {
+        return false
+      }
+      if (route.maxPromptTokens !== undefined && request.tokens > route.maxPromptTokens) {
+        return false
+      }
+      return !route.when || route.when(request)
+    })
+
+    if (routes.length === 0) {
+      throw new Error(`没有与请求匹配的模型路由${options?.model ? `: ${options.model}` : ''}`)
+    }
+    return this.fallback ? routes : routes.slice(0, 1)
+  }
+
+  /**
+   * 生成发送给路由模型的选项
+   * 请求的模型名称只传给匹配该名称的路由，统一格式的工具转换为路由模型的格式
+   * @param route 路由
+   * @param options 聊天请求选项
+   * @returns 路由模型使用的选项
+   */
+  private prepareOptions(route: RouterRoute, options?: ChatOptions): ChatOptions | undefined {
+    if (!options) {
+      return options
+    }
+
+    const routeOptions = { ...options }
+    if (options.model && !this.matchesModel(route, options.model)) {
+      delete routeOptions.model
+    }
+    if (options.tools?.length) {
+      routeOptions.tools = route.model.supportsTools(this.getRouteModelName(route, options.model))
+        ? route.model.convertToolsFormat(options.tools)
+        : undefined
+    }
+    return routeOptions
+  }
+
+  /**
+   * 判断模型名称是否匹配路由
+   * @param route 路由
+   * @param model 模型名称
+   * @returns 是否匹配
+   */
+  private matchesModel(route: RouterRoute, model?: string): boolean {
+    return !!model && !!route.models?.some(pattern => typeof pattern === 'string' ? pattern === model : pattern.test(model))
+  }
+
+  /**
+   * 获取路由实际使用的模型名称
+   * @param route 路由
+   * @param model 请求的模型名称
+   * @returns 匹配时为请求的模型名称，否则为路由模型的默认模型名称
+   */
+  private getRouteModelName(route: RouterRoute, model?: string): string {
+    return this.matchesModel(route, model) ? model! : route.model.getDefaultModel()
+  }
+
+  /**
+   * 获取路由名称
+   * @param route 路由
+   * @returns 路由名称
+   */
+  private getRouteName(route: RouterRoute): string {
+    return route.name || route.model.getDefaultModel()
+  }
+}
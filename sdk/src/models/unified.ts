@@ -1,30 +1,61 @@
 import type { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import type { CreateMessageRequest, CreateMessageResult } from '@modelcontextprotocol/sdk/types.js'
 import type {
   AgentCallback,
   AgentFunction,
   AgentFunctionSchema,
   ChatMessage,
   ChatOptions,
+  ContentPart,
+  ContextBudget,
+  FunctionApprovalHandler,
   FunctionCall,
+  McpClientOptions,
+  McpPrompt,
+  McpResource,
+  McpResourceReference,
+  McpSamplingPolicy,
+  McpSamplingRequest,
+  MessageContent,
+  MiddlewareContext,
   ResponseTypeForOptions,
   StreamChunkTypeForOptions,
+  TokenUsage,
+  UnifiedAIMiddleware,
   UnifiedAIOptions,
 } from '../types'
+import { CreateMessageRequestSchema } from '@modelcontextprotocol/sdk/types.js'
 import { z } from 'zod'
 import zodToJsonSchema from 'zod-to-json-schema'
 import { BaseModel } from '../base'
-import { AgentEventType, ResponseFormat } from '../types'
+import { TokenBudgetMemory } from '../memory'
+import { AgentEventType, ChatRole } from '../types'
 import {
+  AbortHelper,
+  ContentHelper,
   FunctionCallExecutor,
   FunctionCallParser,
-  getEnhancedSystemMessage,
   getMaxRecursionDepthWarning,
-  getThinkingWithToolsPrompt,
-  JsonHelper,
+  getResourceContextPrompt,
+  getResponseSchemaPrompt,
+  getResponseSchemaRetryPrompt,
+  getTruncatedFunctionResult,
+  McpContentHelper,
   ModelHelpers,
   PromptEnhancer,
+  ResponseValidator,
+  TokenEstimator,
 } from '../utils'
 
+/** MCP 信息征询请求，当前使用的 MCP SDK 版本尚未提供该请求的定义 */
+const ElicitRequestSchema = z.object({
+  method: z.literal('elicitation/create'),
+  params: z.object({
+    message: z.string(),
+    requestedSchema: z.record(z.any()),
+  }).passthrough(),
+})
+
 /**
  * 统一AI接口
  * 支持代理功能的AI封装类
@@ -32,8 +63,12 @@ import {
 export class UnifiedAI extends BaseModel {
   private baseModel: BaseModel
   private functions: AgentFunction[]
-  private mcpClient?: Client
+  private mcpClients = new Map<string, { client: Client, requiresApproval: boolean }>()
   private maxRecursionDepth = 25
+  private concurrency = 1
+  private approvalHandler?: FunctionApprovalHandler
+  private contextBudget?: ContextBudget
+  private middlewares: UnifiedAIMiddleware[]
 
   /**
    * 构造函数
@@ -45,6 +80,10 @@ export class UnifiedAI extends BaseModel {
     this.baseModel = baseModel
     this.functions = options.functions || []
     this.maxRecursionDepth = options.maxRecursionDepth || 25
+    this.concurrency = options.concurrency || 1
+    this.approvalHandler = options.approvalHandler
+    this.contextBudget = options.contextBudget
+    this.middlewares = [...(options.middlewares || [])]
   }
 
   /**
@@ -63,6 +102,33 @@ export class UnifiedAI extends BaseModel {
     this.functions.push(func)
   }
 
+  /**
+   * 添加中间件
+   * 已有同名中间件时在原位置替换，否则添加到末尾
+   * @param middleware 要添加的中间件
+   * @returns 当前实例，用于链式调用
+   */
+  use(middleware: UnifiedAIMiddleware): this {
+    const index = this.middlewares.findIndex(item => item.name === middleware.name)
+    if (index === -1) {
+      this.middlewares.push(middleware)
+    }
+    else {
+      this.middlewares[index] = middleware
+    }
+    return this
+  }
+
+  /**
+   * 移除中间件
+   * @param name 中间件名称
+   * @returns 当前实例，用于链式调用
+   */
+  removeMiddleware(name: string): this {
+    this.middlewares = this.middlewares.filter(item => item.name !== name)
+    return this
+  }
+
   /**
    * 添加多个代理功能
    * @param functions 要添加的功能列表
@@ -72,52 +138,393 @@ export class UnifiedAI extends BaseModel {
   }
 
   /**
-   * 设置MCP客户端
+   * 添加MCP客户端
+   * 可以同时使用多个客户端，命名客户端的工具名会加上服务名前缀，如 `context7__resolve-library-id`
+   * 未命名的客户端保持原始工具名，重复添加时替换之前的同名客户端
+   * 开启采样时服务的 sampling/createMessage 请求由当前的基础模型处理，客户端需要在创建时声明 sampling 能力
    * @param client MCP SDK客户端实例
+   * @param options MCP 选项
    * @returns 当前实例，用于链式调用
    */
-  useMcp(client: Client): this {
-    this.mcpClient = client
-    return this
-  }
+  useMcp(client: Client, options: McpClientOptions = {}): this {
+    const server = options.name || ''
 
-  async getMcpTools(): Promise<AgentFunction[]> {
-    const toolsResponse = await this.mcpClient?.listTools()
-    return toolsResponse?.tools?.map(tool => ({
-      name: tool.name,
-      description: tool.description || '',
-      parameters: tool.inputSchema as unknown as z.ZodObject<any>,
-    })) || []
-  }
-
-  async getAllTools(): Promise<AgentFunctionSchema[]> {
-    const tools = [...this.functions, ...(await this.getMcpTools())]
-    return tools.map((tool) => {
-      let parameters: Record<string, any> = {}
-      if (tool.parameters instanceof z.ZodType) {
-        parameters = zodToJsonSchema(tool.parameters, {
-          strictUnions: true,
-        })
+    if (options.sampling) {
+      const policy = options.sampling === true ? {} : options.sampling
+      try {
+        client.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+          this.createMcpSamplingMessage(request.params, server, policy, extra.signal))
       }
-      else {
-        parameters = tool.parameters
+      catch {
+        throw new Error(`MCP客户端 '${server || 'default'}' 未声明 sampling 能力，无法处理采样请求`)
       }
-      delete (parameters as any).$schema
-      delete (parameters as any).additionalProperties
+    }
+
+    const elicitationHandler = options.elicitationHandler
+    if (elicitationHandler) {
+      client.setRequestHandler(ElicitRequestSchema, (request, extra) => elicitationHandler({
+        server: server || undefined,
+        message: request.params.message,
+        requestedSchema: request.params.requestedSchema,
+      }, { signal: extra.signal }))
+    }
+
+    this.mcpClients.set(server, {
+      client,
+      requiresApproval: options.requiresApproval ?? false,
+    })
+    return this
+  }
+
+  /**
+   * 移除MCP客户端，不会关闭客户端连接
+   * @param name 服务名称，未命名的客户端为空
+   * @returns 是否移除成功
+   */
+  removeMcp(name = ''): boolean {
+    return this.mcpClients.delete(name)
+  }
+
+  /**
+   * 设置函数调用审批处理器
+   * @param handler 审批处理器
+   * @returns 当前实例，用于链式调用
+   */
+  useApprovalHandler(handler: FunctionApprovalHandler): this {
+    this.approvalHandler = handler
+    return this
+  }
+
+  /**
+   * 获取所有MCP客户端提供的工具
+   * 某个客户端获取工具列表失败时跳过该客户端，不影响其他客户端
+   * @param reservedNames 已被占用的工具名，重名的工具会加上数字后缀
+   * @returns 工具列表
+   */
+  async getMcpTools(reservedNames: string[] = []): Promise<AgentFunction[]> {
+    const tools = await this.collectFromMcpClients('工具列表', async (client, server) =>
+      ((await client.listTools()).tools || []).map(tool => ({ tool, client, server })))
+
+    const usedNames = new Set(reservedNames)
+    return tools.map(({ tool, client, server }) => {
+      const name = this.resolveMcpToolName(server, tool.name, usedNames)
+      usedNames.add(name)
       return {
-        name: tool.name,
+        name,
         description: tool.description || '',
-        parameters,
-        config: tool.config,
-        executor: tool.executor,
+        parameters: tool.inputSchema as unknown as z.ZodObject<any>,
+        requiresApproval: this.mcpClients.get(server)?.requiresApproval ?? false,
+        mcp: { client, server: server || undefined, toolName: tool.name },
       }
     })
   }
 
+  /**
+   * 获取所有MCP服务提供的资源
+   * 不支持资源或获取失败的服务会被跳过
+   * @returns 资源列表
+   */
+  async listMcpResources(): Promise<McpResource[]> {
+    return this.collectFromMcpClients('资源列表', async (client, server) => {
+      if (!client.getServerCapabilities()?.resources) {
+        return []
+      }
+      const { resources } = await client.listResources()
+      return resources.map(resource => ({
+        uri: resource.uri,
+        name: resource.name,
+        description: resource.description,
+        mimeType: resource.mimeType,
+        server: server || undefined,
+      }))
+    })
+  }
+
+  /**
+   * 读取MCP资源
+   * @param reference 资源引用
+   * @param signal 取消信号
+   * @returns 资源内容，文本转换为文本片段，二进制内容转换为图片、音频或文件片段
+   */
+  async readMcpResource(reference: McpResourceReference, signal?: AbortSignal): Promise<ContentPart[]> {
+    const client = this.getMcpClient(reference.server)
+    const { contents } = await client.readResource({ uri: reference.uri }, { signal })
+    return McpContentHelper.fromResourceContents(contents)
+  }
+
+  /**
+   * 获取所有MCP服务提供的提示模板
+   * 不支持提示模板或获取失败的服务会被跳过
+   * @returns 提示模板列表
+   */
+  async listMcpPrompts(): Promise<McpPrompt[]> {
+    return this.collectFromMcpClients('提示模板列表', async (client, server) => {
+      if (!client.getServerCapabilities()?.prompts) {
+        return []
+      }
+      const { prompts } = await client.listPrompts()
+      return prompts.map(prompt => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: prompt.arguments,
+        server: server || undefined,
+      }))
+    })
+  }
+
+  /**
+   * 按参数生成MCP提示模板的消息
+   * @param name 提示模板名称
+   * @param args 提示模板参数
+   * @param server 提示模板所属的服务名称，未命名的客户端为空
+   * @returns 聊天消息列表，可以作为提示或历史记录使用
+   */
+  async getMcpPrompt(name: string, args: Record<string, string> = {}, server?: string): Promise<ChatMessage[]> {
+    const client = this.getMcpClient(server)
+    const { messages } = await client.getPrompt({ name, arguments: args })
+    return messages.map(message => ({
+      role: message.role === 'assistant' ? ChatRole.ASSISTANT : ChatRole.USER,
+      content: McpContentHelper.fromPromptContent(message.content),
+    }))
+  }
+
+  /**
+   * 使用基础模型处理MCP服务的采样请求
+   * 只调用基础模型生成内容，不会执行函数调用
+   * @param params 采样请求参数
+   * @param server 服务名称
+   * @param policy 采样策略
+   * @param signal 取消信号
+   * @returns 采样结果
+   */
+  private async createMcpSamplingMessage(
+    params: CreateMessageRequest['params'],
+    server: string,
+    policy: McpSamplingPolicy,
+    signal?: AbortSignal,
+  ): Promise<CreateMessageResult> {
+    const request: McpSamplingRequest = {
+      server: server || undefined,
+      messages: params.messages.map(message => ({
+        role: message.role === 'assistant' ? ChatRole.ASSISTANT : ChatRole.USER,
+        content: McpContentHelper.fromPromptContent(message.content),
+      })),
+      systemPrompt: policy.allowSystemPrompt === false ? undefined : params.systemPrompt,
+      maxTokens: policy.maxTokens ? Math.min(params.maxTokens, policy.maxTokens) : params.maxTokens,
+      temperature: params.temperature,
+    }
+
+    if (policy.approve && !(await policy.approve(request))) {
+      throw new Error('采样请求被拒绝')
+    }
+
+    // 最后一条消息作为提示，之前的消息作为历史记录
+    const prompt = request.messages[request.messages.length - 1]
+    if (!prompt) {
+      throw new Error('采样请求没有消息')
+    }
+
+    const response = await this.baseModel.unifiedChat(prompt.content, {
+      history: request.messages.slice(0, -1),
+      systemMessage: request.systemPrompt,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      signal,
+    })
+
+    return {
+      role: 'assistant',
+      content: {
+        type: 'text',
+        text: typeof response.content === 'string' ? response.content : JSON.stringify(response.content),
+      },
+      model: response.model,
+      stopReason: 'endTurn',
+    }
+  }
+
+  /**
+   * 获取指定名称的MCP客户端
+   * @param server 服务名称，未命名的客户端为空
+   * @returns MCP客户端
+   */
+  private getMcpClient(server?: string): Client {
+    const entry = this.mcpClients.get(server || '')
+    if (!entry) {
+      throw new Error(`未找到MCP服务 '${server || 'default'}'`)
+    }
+    return entry.client
+  }
+
+  /**
+   * 从所有MCP客户端收集数据
+   * 某个客户端出错时跳过该客户端，不影响其他客户端
+   * @param label 收集的数据名称，用于输出警告
+   * @param collect 从单个客户端收集数据的函数
+   * @returns 按客户端添加顺序合并的结果
+   */
+  private async collectFromMcpClients<T>(label: string, collect: (client: Client, server: string) => Promise<T[]>): Promise<T[]> {
+    const results = await Promise.all([...this.mcpClients.entries()].map(async ([server, { client }]) => {
+      try {
+        return await collect(client, server)
+      }
+      catch (error: any) {
+        console.warn(`获取MCP服务 '${server || 'default'}' 的${label}失败: ${error.message}`)
+        return []
+      }
+    }))
+    return results.flat()
+  }
+
+  /**
+   * 读取选项中的MCP资源
+   * @param resources 资源引用列表
+   * @param signal 取消信号
+   * @returns 各资源的文本内容，以及图片等二进制内容
+   */
+  private async loadMcpResources(resources: McpResourceReference[] | undefined, signal?: AbortSignal) {
+    const contents = await Promise.all((resources || []).map(async reference => ({
+      uri: reference.uri,
+      parts: await this.readMcpResource(reference, signal),
+    })))
+
+    return {
+      texts: contents
+        .map(({ uri, parts }) => ({ uri, text: ContentHelper.getText(parts) }))
+        .filter(({ text }) => text),
+      attachments: contents.flatMap(({ parts }) => ContentHelper.getAttachments(parts)),
+    }
+  }
+
+  /**
+   * 将MCP资源内容附加到提示中
+   * 文本内容放在问题之前，图片等二进制内容作为附件
+   * @param prompt 用户提示
+   * @param resources 已读取的资源内容
+   * @returns 附加了资源内容的提示
+   */
+  private attachMcpResources(prompt: MessageContent, resources: Awaited<ReturnType<UnifiedAI['loadMcpResources']>>): MessageContent {
+    const text = ContentHelper.getText(prompt)
+    return ContentHelper.withText(
+      [...ContentHelper.toParts(prompt), ...resources.attachments],
+      resources.texts.length > 0 ? getResourceContextPrompt(resources.texts, text) : text,
+    )
+  }
+
+  /**
+   * 生成MCP工具对外使用的名称
+   * 命名客户端加上服务名前缀，与已有工具重名时加上数字后缀
+   * @param server 服务名称
+   * @param toolName 原始工具名
+   * @param usedNames 已被占用的工具名
+   * @returns 工具名
+   */
+  private resolveMcpToolName(server: string, toolName: string, usedNames: Set<string>): string {
+    // 函数名只能包含字母、数字、下划线和短横线
+    const baseName = server ? `${server.replace(/[^\w-]/g, '_')}__${toolName}` : toolName
+    let name = baseName
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = `${baseName}_${suffix}`
+    }
+    if (name !== baseName) {
+      console.warn(`MCP工具 '${baseName}' 与已有工具重名，已重命名为 '${name}'`)
+    }
+    return name
+  }
+
+  /**
+   * 获取所有可用工具
+   * @param executedCalls 本轮对话中已执行的函数调用，失败次数过多的工具会被暂时移除
+   * @returns 统一格式的工具定义列表
+   */
+  async getAllTools(executedCalls: FunctionCall[] = []): Promise<AgentFunctionSchema[]> {
+    const tools = [...this.functions, ...(await this.getMcpTools(this.functions.map(func => func.name)))]
+    return tools
+      .map(tool => this.toFunctionSchema(tool))
+      .filter(tool => !FunctionCallExecutor.isFunctionDisabled(tool, executedCalls))
+  }
+
+  /**
+   * 获取已添加的函数，不包括MCP客户端提供的工具
+   * @returns 函数列表
+   */
+  getLocalTools(): AgentFunctionSchema[] {
+    return this.functions.map(func => this.toFunctionSchema(func))
+  }
+
+  /**
+   * 直接执行已添加的函数，不经过模型
+   * 按参数模式校验参数、按执行策略执行，需要审批的函数交给审批处理器
+   * @param name 函数名称
+   * @param args 函数参数
+   * @param signal 取消信号
+   * @returns 带执行结果的函数调用，执行失败时 failed 为 true
+   */
+  async callFunction(name: string, args: Record<string, any> = {}, signal?: AbortSignal): Promise<FunctionCall> {
+    const [call] = await FunctionCallExecutor.executeFunctionCalls(
+      [{ id: `call_${Date.now()}`, name, arguments: args }],
+      this.getLocalTools(),
+      undefined,
+      undefined,
+      signal,
+      1,
+      this.approvalHandler,
+    )
+    return call
+  }
+
+  /**
+   * 将函数定义转换为统一的函数模式，Zod 参数转换为 JSON Schema
+   * @param tool 函数定义
+   * @returns 函数模式
+   */
+  private toFunctionSchema(tool: AgentFunction): AgentFunctionSchema {
+    let parameters: Record<string, any> = {}
+    if (tool.parameters instanceof z.ZodType) {
+      parameters = zodToJsonSchema(tool.parameters, {
+        strictUnions: true,
+      })
+    }
+    else {
+      // 复制一份再删除字段，避免修改调用方的参数定义（如 MCP 客户端缓存的工具列表）
+      parameters = { ...tool.parameters }
+    }
+    delete parameters.$schema
+    delete parameters.additionalProperties
+    return {
+      name: tool.name,
+      description: tool.description || '',
+      parameters,
+      config: tool.config,
+      concurrency: tool.concurrency,
+      policy: tool.policy,
+      requiresApproval: tool.requiresApproval,
+      zodSchema: tool.parameters instanceof z.ZodType ? tool.parameters : undefined,
+      mcp: tool.mcp,
+      executor: tool.executor,
+    }
+  }
+
   getModel(model?: string): string {
     return this.baseModel.getModel(model)
   }
 
+  /**
+   * 计算请求占用的 token 数，包含响应模式说明和所有工具定义，不包含中间件添加的内容
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求的可选参数
+   * @returns token 数
+   */
+  async countTokens(prompt: MessageContent, options?: ChatOptions): Promise<number> {
+    const tools = await this.getAllTools()
+    options = this.withResponseSchemaPrompt(options)
+    const { enhancedPrompt, enhancedOptions, currentModel }
+      = this.handlePromptAndSystemMessage(prompt, options)
+    const { finalOptions, enhancedPrompt: finalPrompt }
+      = this.prepareOptionsAndPrompt(enhancedOptions, tools, enhancedPrompt, currentModel)
+    return this.baseModel.countTokens(finalPrompt, finalOptions)
+  }
+
   /**
    * 统一接口：发送聊天消息并获取响应
    * @param prompt 提示/消息内容
@@ -126,68 +533,89 @@ export class UnifiedAI extends BaseModel {
    * @returns 包含聊天响应的Promise
    */
   async unifiedChat<T extends ChatOptions | undefined = undefined>(
-    prompt: string,
+    prompt: MessageContent,
     options?: T,
     callback?: AgentCallback,
     depth = 0,
     completedFunctions: FunctionCall[] = [],
+    accumulatedUsage?: TokenUsage,
+    middlewareState: Record<string, any> = {},
   ): Promise<ResponseTypeForOptions<T>> {
     options = options || {} as T
 
     // 保存原始用户提示，确保它不会在多轮函数调用中丢失
-    const originalUserPrompt = prompt
+    let originalUserPrompt = prompt
 
     // 通知开始响应
     if (depth === 0) {
       callback?.(AgentEventType.RESPONSE_START, { prompt, options })
     }
 
+    const context = this.createMiddlewareContext(options, depth, false, callback, middlewareState)
+
     try {
-      // 处理系统消息和提示
-      const { enhancedPrompt, enhancedOptions, systemMessage, currentModel, supportsSystemMessages }
-        = this.handlePromptAndSystemMessage(prompt, options)
+      // 每一层递归开始前检查是否已取消
+      AbortHelper.throwIfAborted(options?.signal)
+
+      // 第一层把响应模式的说明追加到系统消息中，后续递归沿用
+      if (depth === 0) {
+        options = this.withResponseSchemaPrompt(options)
+        context.options = options || {}
+      }
 
       // 获取所有工具
-      const tools = await this.getAllTools()
+      const tools = context.tools = await this.getAllTools(completedFunctions)
+
+      // 调用模型前依次执行中间件，改写只对本层请求生效
+      const request = await this.runMiddlewares('beforeModel', { prompt, options: context.options }, context)
+
+      // 第一层把选项中的MCP资源附加到提示中，后续递归沿用附加后的提示
+      if (depth === 0 && options?.resources?.length) {
+        const resources = await this.loadMcpResources(options.resources, options.signal)
+        request.prompt = this.attachMcpResources(request.prompt, resources)
+        originalUserPrompt = this.attachMcpResources(originalUserPrompt, resources)
+      }
+
+      // 处理系统消息和提示
+      const { enhancedPrompt, enhancedOptions, systemMessage, currentModel, supportsSystemMessages }
+        = this.handlePromptAndSystemMessage(request.prompt, request.options)
 
       // 准备选项和增强提示
       const { finalOptions, enhancedPrompt: finalPrompt }
         = this.prepareOptionsAndPrompt(enhancedOptions, tools, enhancedPrompt, currentModel)
 
-      // 调用基础模型
-      const response = await this.baseModel.unifiedChat(finalPrompt, finalOptions)
+      // 调用基础模型，超出上下文预算时先移除较早的历史消息
+      const budgetedOptions = await this.fitContextBudget(finalPrompt, finalOptions, depth, callback)
+      const response = await this.baseModel.unifiedChat(finalPrompt, budgetedOptions)
+
+      // 累加各层递归以及中间件额外请求的 token 使用情况
+      let totalUsage = ModelHelpers.mergeUsage(ModelHelpers.mergeUsage(accumulatedUsage, context.usage), response.usage)
 
       // 解析函数调用
       const functionCalls = FunctionCallParser.parseFunctionCalls(response.content)
 
       // 如果没有函数调用或已达到最大递归深度，直接返回响应
       if (functionCalls.length === 0 || depth >= (this.maxRecursionDepth || 25)) {
-        const finalResponse = {
+        // 设置了响应模式时校验最终内容，不符合时让模型修正
+        let content = response.content
+        if (options?.responseSchema) {
+          const structured = await this.resolveStructuredContent(content, finalPrompt, budgetedOptions)
+          content = structured.content
+          totalUsage = ModelHelpers.mergeUsage(totalUsage, structured.usage)
+        }
+
+        const finalResponse = await this.runMiddlewares('afterChunk', {
           ...response,
+          content,
+          isJsonResponse: response.isJsonResponse || !!options?.responseSchema,
+          usage: totalUsage,
           functionCalls: completedFunctions.length > 0 ? completedFunctions : undefined,
           additionalInfo: {
             ...response.additionalInfo,
             userPrompt: originalUserPrompt,
             systemMessage,
           },
-        } as unknown as ResponseTypeForOptions<T>
-
-        // 确保在JSON模式下返回解析后的JSON对象
-        if (options?.responseFormat === ResponseFormat.JSON && !finalResponse.isJsonResponse) {
-          // 如果需要返回JSON但还未解析，在最终结果时解析
-          const contentStr = typeof finalResponse.content === 'string'
-            ? finalResponse.content
-            : JSON.stringify(finalResponse.content)
-
-          try {
-            // 尝试解析JSON
-            (finalResponse as any).content = JsonHelper.safeParseJson(contentStr)
-            finalResponse.isJsonResponse = true as any
-          }
-          catch {
-            console.error(`无法解析或修复JSON响应`)
-          }
-        }
+        }, context) as unknown as ResponseTypeForOptions<T>
 
         // 通知响应结束
         if (depth === 0) {
@@ -205,12 +633,7 @@ export class UnifiedAI extends BaseModel {
       })
 
       // 执行函数调用
-      const executedCalls = await FunctionCallExecutor.executeFunctionCalls(
-        functionCalls,
-        tools,
-        callback,
-        this.mcpClient,
-      )
+      const executedCalls = await this.executeFunctionCalls(functionCalls, context)
 
       // 所有已执行的函数调用
       const allExecutedCalls = [
@@ -218,38 +641,32 @@ export class UnifiedAI extends BaseModel {
         ...completedFunctions,
       ]
 
-      // 生成函数结果摘要
-      const resultsSummary = allExecutedCalls.map(call =>
-        `Function: ${call.name}\nParameters: ${JSON.stringify(call.arguments)}\nResult: ${JSON.stringify(call.result)}`,
-      ).join('\n\n')
-
       // 清理内容中的函数调用标记
       const cleanContent = typeof response.content === 'string'
         ? FunctionCallParser.removeTaggedFunctionCalls(response.content)
         : JSON.stringify(response.content)
 
-      // 构建后续提示
-      const followupPrompt = originalUserPrompt
-        ? PromptEnhancer.createFollowupPrompt(
-            originalUserPrompt,
-            cleanContent,
-            resultsSummary,
-            options?.responseFormat,
-          )
-        : resultsSummary
-
-      // 准备递归选项
-      const followupOptions = { ...options } as T & ChatOptions
-      if (systemMessage && !supportsSystemMessages) {
-        followupOptions.systemMessage = ''
-      }
+      // 构建后续提示和选项
+      const { followupPrompt, followupOptions } = this.createFollowup({
+        options,
+        prompt: finalPrompt,
+        originalUserPrompt,
+        textContent: typeof response.content === 'string' ? cleanContent : '',
+        executedCalls,
+        allExecutedCalls,
+        systemMessage,
+        supportsSystemMessages,
+        currentModel,
+        callback,
+      })
 
       // 如果深度太大，停止递归
       if (depth >= (this.maxRecursionDepth || 25) - 1) {
-        const finalResponse = {
-          content: getMaxRecursionDepthWarning(depth, cleanContent) as any,
-          isJsonResponse: false as any,
+        const finalResponse = await this.runMiddlewares('afterChunk', {
+          content: getMaxRecursionDepthWarning(depth, cleanContent),
+          isJsonResponse: false,
           model: currentModel,
+          usage: totalUsage,
           functionCalls: allExecutedCalls,
           isLast: true,
           additionalInfo: {
@@ -257,7 +674,7 @@ export class UnifiedAI extends BaseModel {
             userPrompt: originalUserPrompt,
             systemMessage,
           },
-        } as unknown as ResponseTypeForOptions<T>
+        }, context) as unknown as ResponseTypeForOptions<T>
 
         // 通知响应结束
         if (depth === 0) {
@@ -267,16 +684,23 @@ export class UnifiedAI extends BaseModel {
         return finalResponse
       }
 
-      // 递归处理：使用函数调用结果生成新的提示
+      // 递归处理：使用函数调用结果继续对话
       return this.unifiedChat(
-        supportsSystemMessages ? followupPrompt : `${systemMessage || ''}\n\n${followupPrompt}`,
+        followupPrompt,
         followupOptions,
         callback,
         depth + 1,
         allExecutedCalls,
+        totalUsage,
+        context.state,
       )
     }
     catch (error: any) {
+      // 最外层通知中间件发生错误
+      if (depth === 0) {
+        await this.runErrorMiddlewares(error, context)
+      }
+
       // 通知发生错误
       callback?.(AgentEventType.ERROR, {
         prompt,
@@ -294,8 +718,8 @@ export class UnifiedAI extends BaseModel {
    * @param options 聊天选项
    * @returns 增强后的提示和处理后的选项
    */
-  private handlePromptAndSystemMessage<T extends ChatOptions | undefined = undefined>(prompt: string, options: T, enhancedSystemMessage?: string) {
-    const systemMessage = enhancedSystemMessage || options?.systemMessage || ''
+  private handlePromptAndSystemMessage<T extends ChatOptions | undefined = undefined>(prompt: MessageContent, options: T) {
+    const systemMessage = options?.systemMessage || ''
     let enhancedPrompt = prompt
     const enhancedOptions = { ...options } as T
 
@@ -305,7 +729,7 @@ export class UnifiedAI extends BaseModel {
 
     if (systemMessage && !supportsSystemMessages) {
       // 如果模型不支持系统消息，将系统消息添加到用户提示的开头
-      enhancedPrompt = `${systemMessage}\n\n${prompt}`
+      enhancedPrompt = ContentHelper.withText(prompt, `${systemMessage}\n\n${ContentHelper.getText(prompt)}`)
       // 从选项中移除系统消息，因为已经合并到提示中
       delete (enhancedOptions as any).systemMessage
     }
@@ -325,7 +749,7 @@ export class UnifiedAI extends BaseModel {
    * @param currentModel 当前模型
    * @returns 最终选项和增强提示
    */
-  private prepareOptionsAndPrompt(enhancedOptions: any, tools: AgentFunctionSchema[], enhancedPrompt: string, currentModel: string) {
+  private prepareOptionsAndPrompt(enhancedOptions: any, tools: AgentFunctionSchema[], enhancedPrompt: MessageContent, currentModel: string) {
     // 准备选项，添加工具信息
     const finalOptions = ModelHelpers.prepareOptionsForModel(
       enhancedOptions,
@@ -335,104 +759,15 @@ export class UnifiedAI extends BaseModel {
 
     // 如果模型不支持工具，使用提示增强
     if (!this.baseModel.supportsTools(currentModel) && tools.length > 0) {
-      enhancedPrompt = ModelHelpers.enhanceContentWithTools(enhancedPrompt, tools)
+      enhancedPrompt = ContentHelper.withText(
+        enhancedPrompt,
+        ModelHelpers.enhanceContentWithTools(ContentHelper.getText(enhancedPrompt), tools),
+      )
     }
 
     return { finalOptions, enhancedPrompt }
   }
 
-  /**
-   * 处理JSON格式响应
-   * @param content 原始内容
-   * @param shouldBeJson 是否应该是JSON格式
-   * @param currentIsJson 当前是否已是JSON格式
-   * @returns 处理后的内容和JSON状态
-   */
-  private processJsonResponse(content: any, shouldBeJson: boolean, currentIsJson: boolean) {
-    let processedContent = content
-    let isJsonResponse = currentIsJson
-
-    // 如果请求JSON格式且内容尚未解析为JSON
-    if (shouldBeJson && !isJsonResponse) {
-      const contentStr = typeof processedContent === 'object'
-        ? JSON.stringify(processedContent)
-        : processedContent as string
-
-      try {
-        // 尝试解析JSON
-        processedContent = JsonHelper.safeParseJson(contentStr)
-        isJsonResponse = true
-      }
-      catch {
-        // 如果解析仍失败，保留原样
-        processedContent = `${contentStr}`
-        console.error(`无法解析或修复JSON响应`)
-      }
-    }
-    else if (!isJsonResponse && typeof processedContent === 'string') {
-      // 不是JSON响应，确保是字符串
-      processedContent = `${processedContent}`
-    }
-
-    return { processedContent, isJsonResponse }
-  }
-
-  private async optimizeUserQuestion(prompt: string, tools: AgentFunctionSchema[], history?: ChatMessage[], systemMessage?: string, callback?: AgentCallback) {
-    // 构建工具信息描述
-    const toolsDescription = tools.length > 0
-      ? `可用工具列表：\n${tools.map(tool =>
-        `- ${tool.name}: ${tool.description}`,
-      ).join('\n')}`
-      : ''
-
-    // 使用集中管理的提示模板，传入历史记录和系统消息
-    const enhancedThinkingPrompt = getThinkingWithToolsPrompt(
-      prompt,
-      toolsDescription,
-      history,
-      systemMessage,
-    )
-
-    // 通知思考开始
-    callback?.(AgentEventType.THINKING_START, { prompt, options: {} })
-
-    try {
-      // 使用流式API获取思考过程
-      let analysis = ''
-      for await (const chunk of this.baseModel.unifiedChatStream(enhancedThinkingPrompt, {
-        responseFormat: ResponseFormat.TEXT, // 确保是文本格式
-      })) {
-        // 获取chunk内容
-        const chunkContent = typeof chunk.content === 'object'
-          ? JSON.stringify(chunk.content)
-          : chunk.content as string
-
-        // 累积内容
-        analysis += chunkContent
-
-        // 通知每个思考块
-        callback?.(AgentEventType.THINKING_CHUNK, {
-          chunk: {
-            content: chunkContent,
-            isLast: chunk.isLast || false,
-          },
-        })
-      }
-
-      // 通知思考完成
-      callback?.(AgentEventType.THINKING_END, {
-        result: analysis,
-      })
-
-      return analysis
-    }
-    catch (error) {
-      console.error('思考问题过程出错:', error)
-      // 出错时返回原始问题
-      return prompt
-    }
-  }
-
   /**
    * 统一接口：流式返回聊天响应
    * @param prompt 提示/消息内容
@@ -441,38 +776,56 @@ export class UnifiedAI extends BaseModel {
    * @returns 生成响应内容块的异步生成器
    */
   async* unifiedChatStream<T extends ChatOptions | undefined = undefined>(
-    prompt: string,
+    prompt: MessageContent,
     options?: T,
     callback?: AgentCallback,
     depth = 0,
     sentContents: string[] = [],
     completedFunctions: FunctionCall[] = [],
+    accumulatedUsage?: TokenUsage,
+    middlewareState: Record<string, any> = {},
   ): AsyncGenerator<StreamChunkTypeForOptions<T>, void, unknown> {
-    // 保存原始用户提示，确保它不会在多轮函数调用中丢失
-    const originalUserPrompt = prompt
-
-    options = Object.assign({
-      optimizeUserQuestion: true,
-    }, options)
+    options = options || {} as T
 
-    // 获取所有工具
-    const tools = await this.getAllTools()
+    // 保存原始用户提示，确保它不会在多轮函数调用中丢失
+    let originalUserPrompt = prompt
 
     // 通知开始响应
     if (depth === 0) {
-      // 如果用户要求优化问题，则将问题优化，默认优化
-      if (options?.optimizeUserQuestion) {
-        prompt = await this.optimizeUserQuestion(prompt, tools, options?.history, options?.systemMessage, callback)
-      }
       callback?.(AgentEventType.RESPONSE_START, { prompt, options })
     }
 
+    const context = this.createMiddlewareContext(options, depth, true, callback, middlewareState)
+
     try {
-      const enhancedSystemMessage = getEnhancedSystemMessage(options, tools)
+      // 每一层递归开始前检查是否已取消
+      AbortHelper.throwIfAborted(options?.signal)
+
+      // 第一层把响应模式的说明追加到系统消息中，后续递归沿用
+      if (depth === 0) {
+        options = this.withResponseSchemaPrompt(options)
+        context.options = options || {}
+      }
+
+      // 获取所有工具
+      const tools = context.tools = await this.getAllTools(completedFunctions)
+
+      // 调用模型前依次执行中间件，改写只对本层请求生效
+      const request = await this.runMiddlewares('beforeModel', { prompt, options: context.options }, context)
+
+      // 累加各层递归以及中间件额外请求的 token 使用情况
+      let totalUsage = ModelHelpers.mergeUsage(accumulatedUsage, context.usage)
+
+      // 第一层在中间件执行后把选项中的MCP资源附加到提示中，避免资源内容被改写
+      if (depth === 0 && options?.resources?.length) {
+        const resources = await this.loadMcpResources(options.resources, options.signal)
+        request.prompt = this.attachMcpResources(request.prompt, resources)
+        originalUserPrompt = this.attachMcpResources(originalUserPrompt, resources)
+      }
 
       // 处理系统消息和提示
       const { enhancedPrompt, enhancedOptions, systemMessage, currentModel, supportsSystemMessages }
-        = this.handlePromptAndSystemMessage(prompt, options, enhancedSystemMessage)
+        = this.handlePromptAndSystemMessage(request.prompt, request.options)
 
       // 准备选项和增强提示
       const { finalOptions, enhancedPrompt: finalPrompt }
@@ -480,11 +833,19 @@ export class UnifiedAI extends BaseModel {
 
       // 流式获取初始响应
       let fullContent = ''
+      let textContent = '' // 仅包含文本片段，不含原生函数调用块
       let buffer = '' // 用于累积内容的缓冲区
       const allFunctionCalls: FunctionCall[] = []
 
+      // 超出上下文预算时先移除较早的历史消息
+      const budgetedOptions = await this.fitContextBudget(finalPrompt, finalOptions, depth, callback)
+
       // 初始响应处理
-      for await (const chunk of this.baseModel.unifiedChatStream(finalPrompt, finalOptions)) {
+      for await (const chunk of this.baseModel.unifiedChatStream(finalPrompt, budgetedOptions)) {
+        // 模型未响应取消信号时，也不再继续处理后续片段
+        AbortHelper.throwIfAborted(options?.signal)
+        totalUsage = ModelHelpers.mergeUsage(totalUsage, chunk.usage)
+
         // 处理直接返回的函数调用
         if (chunk.functionCalls && chunk.functionCalls.length > 0) {
           // 确保不添加重复的函数调用
@@ -501,25 +862,33 @@ export class UnifiedAI extends BaseModel {
           // 发送缓冲区内容
           if (buffer.length > 0 && !this.isContentDuplicate(buffer, sentContents)) {
             sentContents.push(buffer)
-            const bufferChunk = {
+            const bufferChunk = await this.runMiddlewares('afterChunk', {
               ...chunk,
               content: buffer,
               functionCalls: undefined,
               isLast: false,
-            }
+              usage: undefined,
+            }, context)
             callback?.(AgentEventType.RESPONSE_CHUNK, { chunk: bufferChunk })
             yield bufferChunk as unknown as StreamChunkTypeForOptions<T>
             buffer = ''
           }
         }
 
-        // 将当前块内容添加到累积内容中
-        const chunkContent = typeof chunk.content === 'object'
-          ? JSON.stringify(chunk.content)
-          : chunk.content as string
+        // 将当前块内容添加到累积内容中，设置了响应模式时模型最后返回的解析结果由本层统一校验，不再作为文本发送
+        const isParsedResult = !!options?.responseSchema && chunk.isLast
+          && typeof chunk.content === 'object' && !chunk.functionCalls?.length
+        const chunkContent = isParsedResult
+          ? ''
+          : typeof chunk.content === 'object'
+            ? JSON.stringify(chunk.content)
+            : chunk.content as string
 
         fullContent += chunkContent
         buffer += chunkContent
+        if (typeof chunk.content === 'string') {
+          textContent += chunk.content
+        }
 
         // 解析缓冲区中的函数调用
         const parsedCalls = FunctionCallParser.parseFunctionCalls(buffer)
@@ -545,7 +914,7 @@ export class UnifiedAI extends BaseModel {
             if (chunk.functionCalls && chunk.functionCalls.length > 0) {
               buffer = ''
             }
-            const bufferChunk = { ...chunk, content: buffer, isLast: false }
+            const bufferChunk = await this.runMiddlewares('afterChunk', { ...chunk, content: buffer, isLast: false, usage: undefined }, context)
             callback?.(AgentEventType.RESPONSE_CHUNK, { chunk: bufferChunk })
             yield bufferChunk as unknown as StreamChunkTypeForOptions<T>
           }
@@ -579,12 +948,7 @@ export class UnifiedAI extends BaseModel {
             })
 
             // 执行函数调用
-            const executedCalls = await FunctionCallExecutor.executeFunctionCalls(
-              allFunctionCalls.filter(call => !call.result),
-              tools,
-              callback,
-              this.mcpClient,
-            )
+            const executedCalls = await this.executeFunctionCalls(allFunctionCalls.filter(call => !call.result), context)
 
             // 所有已执行的函数调用
             const allExecutedCalls = [
@@ -593,48 +957,43 @@ export class UnifiedAI extends BaseModel {
               ...completedFunctions,
             ]
 
-            // 生成函数结果摘要
-            const resultsSummary = allExecutedCalls.map(call =>
-              `Function: ${call.name}\nParameters: ${JSON.stringify(call.arguments)}\nResult: ${JSON.stringify(call.result)}`,
-            ).join('\n\n')
-
             // 清理内容中的函数调用标记
             const cleanContent = FunctionCallParser.removeTaggedFunctionCalls(fullContent)
 
-            // 构建后续提示
-            const followupPrompt = originalUserPrompt
-              ? PromptEnhancer.createFollowupPrompt(
-                  originalUserPrompt,
-                  cleanContent,
-                  resultsSummary,
-                  options?.responseFormat,
-                )
-              : resultsSummary
-
-            // 准备递归选项
-            const followupOptions = { ...options } as T & ChatOptions
-            if (systemMessage && !supportsSystemMessages) {
-              followupOptions.systemMessage = ''
-            }
+            // 构建后续提示和选项
+            const { followupPrompt, followupOptions } = this.createFollowup({
+              options,
+              prompt: finalPrompt,
+              originalUserPrompt,
+              textContent: FunctionCallParser.removeTaggedFunctionCalls(textContent),
+              executedCalls: [...allFunctionCalls.filter(call => call.result), ...executedCalls],
+              allExecutedCalls,
+              systemMessage,
+              supportsSystemMessages,
+              currentModel,
+              callback,
+            })
 
             // 如果深度太大，停止递归
             if (depth >= (this.maxRecursionDepth || 25) - 1) {
-              const finalChunk = {
-                content: getMaxRecursionDepthWarning(depth, cleanContent) as any,
-                isJsonResponse: false as any,
+              const finalChunk = await this.runMiddlewares('afterChunk', {
+                content: getMaxRecursionDepthWarning(depth, cleanContent),
+                isJsonResponse: false,
                 isLast: true,
                 model: currentModel,
+                usage: totalUsage,
                 functionCalls: allExecutedCalls,
                 additionalInfo: {
                   completedFunctions: completedFunctions.length > 0 ? completedFunctions : undefined,
                 },
-              }
+              }, context)
 
               callback?.(AgentEventType.RESPONSE_END, {
                 response: {
                   content: finalChunk.content,
-                  isJsonResponse: false,
+                  isJsonResponse: finalChunk.isJsonResponse,
                   model: finalChunk.model,
+                  usage: totalUsage,
                 },
               })
 
@@ -642,43 +1001,69 @@ export class UnifiedAI extends BaseModel {
               return
             }
 
-            // 递归处理：使用函数调用结果生成新的提示
+            // 递归处理：使用函数调用结果继续对话
             yield* this.unifiedChatStream(
-              supportsSystemMessages ? followupPrompt : `${systemMessage || ''}\n\n${followupPrompt}`,
+              followupPrompt,
               followupOptions,
               callback,
               depth + 1,
               sentContents,
               allExecutedCalls,
+              totalUsage,
+              context.state,
             )
             return
           }
         }
       }
 
+      // 设置了响应模式时，校验本轮的完整文本，最后一个片段返回校验后的对象
+      if (options?.responseSchema) {
+        const structured = await this.resolveStructuredContent(textContent, finalPrompt, budgetedOptions)
+        totalUsage = ModelHelpers.mergeUsage(totalUsage, structured.usage)
+        const finalChunk = await this.runMiddlewares('afterChunk', {
+          content: structured.content,
+          isLast: true,
+          model: currentModel,
+          isJsonResponse: true,
+          usage: totalUsage,
+          additionalInfo: {
+            completedFunctions: completedFunctions.length > 0 ? completedFunctions : undefined,
+          },
+        }, context)
+
+        callback?.(AgentEventType.RESPONSE_CHUNK, { chunk: finalChunk })
+
+        if (depth === 0) {
+          callback?.(AgentEventType.RESPONSE_END, {
+            response: {
+              content: finalChunk.content,
+              isJsonResponse: finalChunk.isJsonResponse,
+              model: finalChunk.model,
+              usage: totalUsage,
+              additionalInfo: {
+                completedFunctions,
+              },
+            },
+          })
+        }
+
+        yield finalChunk as unknown as StreamChunkTypeForOptions<T>
+        return
+      }
+
       // 没有函数调用，确保发送最终结果
       if (buffer.length > 0 && !this.isContentDuplicate(buffer, sentContents)) {
-        const finalChunk = {
+        const finalChunk = await this.runMiddlewares('afterChunk', {
           content: buffer,
           isLast: true,
           model: currentModel,
           isJsonResponse: false,
+          usage: totalUsage,
           additionalInfo: {
             completedFunctions: completedFunctions.length > 0 ? completedFunctions : undefined,
           },
-        }
-
-        // 处理JSON格式
-        if (options?.responseFormat === ResponseFormat.JSON) {
-          try {
-            const { processedContent, isJsonResponse } = this.processJsonResponse(buffer, true, false)
-            finalChunk.content = processedContent
-            finalChunk.isJsonResponse = isJsonResponse
-          }
-          catch (e) {
-            console.error('JSON处理失败', e)
-          }
-        }
+        }, context)
 
         callback?.(AgentEventType.RESPONSE_CHUNK, { chunk: finalChunk })
 
@@ -689,6 +1074,7 @@ export class UnifiedAI extends BaseModel {
               content: finalChunk.content,
               isJsonResponse: finalChunk.isJsonResponse,
               model: finalChunk.model,
+              usage: totalUsage,
               additionalInfo: {
                 completedFunctions,
               },
@@ -698,8 +1084,23 @@ export class UnifiedAI extends BaseModel {
 
         yield finalChunk as unknown as StreamChunkTypeForOptions<T>
       }
+      else {
+        // 没有剩余内容时仍然发送一个空的最后片段，用于返回本轮的 token 使用情况
+        yield await this.runMiddlewares('afterChunk', {
+          content: '',
+          isLast: true,
+          model: currentModel,
+          isJsonResponse: false,
+          usage: totalUsage,
+        }, context) as unknown as StreamChunkTypeForOptions<T>
+      }
     }
     catch (error: any) {
+      // 最外层通知中间件发生错误
+      if (depth === 0) {
+        await this.runErrorMiddlewares(error, context)
+      }
+
       // 通知发生错误
       callback?.(AgentEventType.ERROR, {
         prompt,
@@ -711,6 +1112,296 @@ export class UnifiedAI extends BaseModel {
     }
   }
 
+  /**
+   * 构建函数调用后的递归提示和选项
+   * 原生支持工具的模型以工具调用/工具结果消息的形式继续对话，
+   * 否则将所有函数结果整理为文本，重新构建跟进提示
+   * @returns 后续提示和选项
+   */
+  private createFollowup<T extends ChatOptions | undefined>(params: {
+    /** 原始聊天选项 */
+    options: T
+    /** 本轮发送给模型的提示 */
+    prompt: MessageContent
+    /** 本轮的原始用户提示 */
+    originalUserPrompt: MessageContent
+    /** 模型在发起函数调用时输出的文本 */
+    textContent: string
+    /** 本轮执行的函数调用 */
+    executedCalls: FunctionCall[]
+    /** 所有已执行的函数调用 */
+    allExecutedCalls: FunctionCall[]
+    /** 系统消息 */
+    systemMessage: string
+    /** 模型是否支持系统消息 */
+    supportsSystemMessages: boolean
+    /** 当前模型 */
+    currentModel: string
+    /** 回调函数 */
+    callback?: AgentCallback
+  }): { followupPrompt: MessageContent, followupOptions: T & ChatOptions } {
+    const { options, systemMessage, supportsSystemMessages } = params
+    const followupOptions = { ...options } as T & ChatOptions
+
+    // 过长的函数结果截断后再发送给模型，只在本轮执行的函数结果被截断时通知
+    const executedCalls = this.limitFunctionResults(params.executedCalls, params.callback)
+    const allExecutedCalls = this.limitFunctionResults(params.allExecutedCalls)
+
+    // 不支持系统消息时，系统消息已经合并到提示中，后续不再重复发送
+    if (systemMessage && !supportsSystemMessages) {
+      followupOptions.systemMessage = ''
+    }
+
+    if (this.baseModel.supportsTools(params.currentModel)) {
+      // 本轮的提示、工具调用和工具结果追加到历史记录中，以空提示继续生成
+      followupOptions.history = [
+        ...(options?.history || []),
+        ...ModelHelpers.createFunctionCallMessages(params.prompt, params.textContent, executedCalls),
+      ]
+      return { followupPrompt: '', followupOptions }
+    }
+
+    // 生成函数结果摘要
+    const resultsSummary = allExecutedCalls.map(call =>
+      `Function: ${call.name}\nParameters: ${JSON.stringify(call.arguments)}\nResult: ${JSON.stringify(call.result)}`,
+    ).join('\n\n')
+
+    // 构建后续提示
+    const originalText = ContentHelper.getText(params.originalUserPrompt)
+    const followupPrompt = originalText
+      ? PromptEnhancer.createFollowupPrompt(
+          originalText,
+          FunctionCallParser.removeTaggedFunctionCalls(params.textContent),
+          resultsSummary,
+          options?.responseFormat,
+        )
+      : resultsSummary
+
+    // 原始提示中的图片等附件随后续提示一起发送
+    return {
+      followupPrompt: ContentHelper.withText(
+        params.originalUserPrompt,
+        supportsSystemMessages ? followupPrompt : `${systemMessage || ''}\n\n${followupPrompt}`,
+      ),
+      followupOptions,
+    }
+  }
+
+  /**
+   * 创建本层递归的中间件上下文，工具在获取后再填入
+   * @param options 本层递归收到的聊天选项
+   * @param depth 递归深度
+   * @param stream 是否为流式请求
+   * @param callback 回调函数
+   * @param state 同一次请求中共享的数据
+   * @returns 中间件上下文
+   */
+  private createMiddlewareContext(options: ChatOptions | undefined, depth: number, stream: boolean, callback: AgentCallback | undefined, state: Record<string, any>): MiddlewareContext {
+    return { model: this.baseModel, options: options || {}, depth, stream, tools: [], callback, state }
+  }
+
+  /**
+   * 按添加顺序执行中间件的钩子，钩子返回新的对象时替换传入的对象
+   * @param hook 钩子名称
+   * @param value 传入钩子的对象
+   * @param context 中间件上下文
+   * @returns 所有中间件处理后的对象
+   */
+  private async runMiddlewares<
+    K extends 'beforeModel' | 'afterChunk' | 'beforeToolCall' | 'afterToolCall',
+    V extends Parameters<NonNullable<UnifiedAIMiddleware[K]>>[0],
+  >(
+    hook: K,
+    value: V,
+    context: MiddlewareContext,
+  ): Promise<V> {
+    for (const middleware of this.middlewares) {
+      const handler = middleware[hook] as ((value: any, context: MiddlewareContext) => any) | undefined
+      const result = await handler?.call(middleware, value, context)
+      if (result) {
+        value = result
+      }
+    }
+    return value
+  }
+
+  /**
+   * 通知中间件请求出错，中间件自身的错误只记录日志，不影响原始错误的抛出
+   * @param error 请求的错误
+   * @param context 中间件上下文
+   */
+  private async runErrorMiddlewares(error: Error, context: MiddlewareContext): Promise<void> {
+    for (const middleware of this.middlewares) {
+      try {
+        await middleware.onError?.(error, context)
+      }
+      catch (middlewareError) {
+        console.error(`中间件 ${middleware.name} 处理错误时出错:`, middlewareError)
+      }
+    }
+  }
+
+  /**
+   * 执行函数调用，执行前后分别经过中间件处理
+   * @param functionCalls 要执行的函数调用
+   * @param context 中间件上下文
+   * @returns 执行后的函数调用
+   */
+  private async executeFunctionCalls(functionCalls: FunctionCall[], context: MiddlewareContext): Promise<FunctionCall[]> {
+    const preparedCalls: FunctionCall[] = []
+    for (const call of functionCalls) {
+      preparedCalls.push(await this.runMiddlewares('beforeToolCall', call, context))
+    }
+
+    const executedCalls = await FunctionCallExecutor.executeFunctionCalls(
+      preparedCalls,
+      context.tools,
+      context.callback,
+      undefined,
+      context.options.signal,
+      this.concurrency,
+      this.approvalHandler,
+    )
+
+    const processedCalls: FunctionCall[] = []
+    for (const call of executedCalls) {
+      processedCalls.push(await this.runMiddlewares('afterToolCall', call, context))
+    }
+    return processedCalls
+  }
+
+  /**
+   * 把响应模式的说明追加到系统消息中
+   * @param options 聊天选项
+   * @returns 追加说明后的选项，未设置响应模式时原样返回
+   */
+  private withResponseSchemaPrompt<T extends ChatOptions | undefined>(options: T): T {
+    if (!options?.responseSchema) {
+      return options
+    }
+    const schemaPrompt = getResponseSchemaPrompt(ResponseValidator.toJsonSchema(options.responseSchema))
+    return {
+      ...options,
+      systemMessage: options.systemMessage ? `${options.systemMessage}\n\n${schemaPrompt}` : schemaPrompt,
+    }
+  }
+
+  /**
+   * 按响应模式校验最终内容
+   * 校验失败时把本轮的回答和校验问题发送给模型重新生成，超过重试次数后抛出错误
+   * @param content 模型返回的内容
+   * @param prompt 本轮发送给模型的提示
+   * @param options 本轮发送给模型的选项
+   * @returns 校验后的内容和重试产生的 token 使用情况
+   */
+  private async resolveStructuredContent(content: unknown, prompt: MessageContent, options: ChatOptions): Promise<{ content: any, usage?: TokenUsage }> {
+    const schema = options.responseSchema!
+    const retries = options.schemaRetries ?? 2
+    let history = options.history || []
+    let usage: TokenUsage | undefined
+    let result = ResponseValidator.validate(schema, content)
+
+    for (let attempt = 0; !result.success && attempt < retries; attempt++) {
+      AbortHelper.throwIfAborted(options.signal)
+
+      // 重试时不再提供工具，只要求模型修正上一次的回答
+      history = [
+        ...history,
+        ...(ContentHelper.isEmpty(prompt) ? [] : [{ role: ChatRole.USER, content: prompt }]),
+        { role: ChatRole.ASSISTANT, content: typeof content === 'string' ? content : JSON.stringify(content) },
+      ]
+      prompt = getResponseSchemaRetryPrompt(ResponseValidator.formatIssues(result.issues))
+      const response = await this.baseModel.unifiedChat(prompt, { ...options, tools: undefined, history })
+      usage = ModelHelpers.mergeUsage(usage, response.usage)
+      content = response.content
+      result = ResponseValidator.validate(schema, content)
+    }
+
+    if (!result.success) {
+      throw new Error(`模型返回的内容不符合响应模式：\n${ResponseValidator.formatIssues(result.issues)}`)
+    }
+    return { content: result.data, usage }
+  }
+
+  /**
+   * 按上下文预算调整请求选项
+   * 超出预算时按完整的对话轮次从历史记录开头移除消息，本轮对话的消息始终保留，
+   * 并在发送请求前通过回调发出警告，移除后仍然超出预算时照常发送
+   * @param prompt 发送给模型的提示
+   * @param options 发送给模型的选项
+   * @param depth 递归深度
+   * @param callback 回调函数
+   * @returns 调整后的选项
+   */
+  private async fitContextBudget<T extends ChatOptions>(prompt: MessageContent, options: T, depth: number, callback?: AgentCallback): Promise<T> {
+    if (!this.contextBudget) {
+      return options
+    }
+
+    const { maxTokens } = this.contextBudget
+    const tokens = await this.baseModel.countTokens(prompt, options)
+    if (tokens <= maxTokens) {
+      return options
+    }
+
+    // 提示为空时（工具结果以历史消息的形式发送）本轮对话从最后一条用户消息开始
+    const history = options.history || []
+    const lastUserIndex = history.map(message => message.role).lastIndexOf(ChatRole.USER)
+    const currentTurnStart = ContentHelper.isEmpty(prompt) ? Math.max(0, lastUserIndex) : history.length
+    const earlier = history.slice(0, currentTurnStart)
+
+    let budgetedOptions = options
+    let finalTokens = tokens
+    let trimmedMessages = 0
+    if (earlier.length > 0) {
+      // 计数接口和估算的结果可能不同，按超出的 token 数从较早的消息中移除
+      const memory = new TokenBudgetMemory({ maxTokens: TokenEstimator.estimateMessages(earlier) - (tokens - maxTokens) })
+      const { history: trimmed } = await memory.apply(earlier)
+      trimmedMessages = earlier.length - trimmed.length
+      if (trimmedMessages > 0) {
+        budgetedOptions = { ...options, history: [...trimmed, ...history.slice(currentTurnStart)] }
+        finalTokens = await this.baseModel.countTokens(prompt, budgetedOptions)
+      }
+    }
+
+    callback?.(AgentEventType.CONTEXT_BUDGET_EXCEEDED, {
+      tokens,
+      finalTokens,
+      maxTokens,
+      trimmedMessages,
+      depth,
+    })
+
+    return budgetedOptions
+  }
+
+  /**
+   * 截断超出上下文预算的函数结果，返回给调用方的函数调用保持不变
+   * @param calls 函数调用列表
+   * @param callback 回调函数，设置时每截断一个结果通知一次
+   * @returns 用于发送给模型的函数调用列表
+   */
+  private limitFunctionResults(calls: FunctionCall[], callback?: AgentCallback): FunctionCall[] {
+    if (!this.contextBudget) {
+      return calls
+    }
+
+    const maxTokens = this.contextBudget.maxToolResultTokens ?? Math.floor(this.contextBudget.maxTokens / 4)
+    return calls.map((call) => {
+      const result = JSON.stringify(call.result ?? null)
+      const tokens = TokenEstimator.estimateText(result)
+      if (tokens <= maxTokens) {
+        return call
+      }
+
+      callback?.(AgentEventType.FUNCTION_RESULT_TRUNCATED, { functionCall: call, tokens, maxTokens })
+      return {
+        ...call,
+        result: getTruncatedFunctionResult(result, Math.floor(result.length * maxTokens / tokens)),
+      }
+    })
+  }
+
   /**
    * 检查内容是否与已发送内容重复
    * @param content 要检查的内容
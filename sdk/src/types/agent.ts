@@ -1,5 +1,194 @@
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js'
 import type { z } from 'zod'
-import type { ChatOptions, ChatResponse, ResponseFormat } from '.'
+import type { ChatMessage, ChatOptions, ChatResponse, MessageContent, ResponseFormat, UnifiedAIMiddleware } from '.'
+
+/**
+ * 函数执行上下文
+ */
+export interface FunctionExecutionContext {
+  /** 取消信号，请求被取消时触发，执行器应尽快停止 */
+  signal?: AbortSignal
+}
+
+/**
+ * 函数执行策略
+ */
+export interface FunctionPolicy {
+  /** 单次执行的超时时间（毫秒），不设置时不限制 */
+  timeout?: number
+  /** 失败后的最大重试次数，默认为0 */
+  retries?: number
+  /** 第一次重试前的等待时间（毫秒），之后每次翻倍，默认为500 */
+  backoff?: number
+  /** 判断错误是否可以重试，默认所有错误都可以重试 */
+  retryable?: (error: Error) => boolean
+  /** 一轮对话中失败多少次后暂时停用该函数，默认为3 */
+  maxFailures?: number
+}
+
+/**
+ * 函数调用审批结果
+ * approve 按原参数执行，edit 按修改后的参数执行，deny 拒绝执行
+ */
+export type FunctionApprovalDecision =
+  | { type: 'approve' }
+  | { type: 'edit', arguments: Record<string, any> }
+  | { type: 'deny', reason?: string }
+
+/**
+ * 函数调用审批处理器
+ * 执行标记了 requiresApproval 的函数前调用，返回审批结果后继续
+ */
+export type FunctionApprovalHandler = (
+  functionCall: FunctionCall,
+  context: FunctionExecutionContext,
+) => FunctionApprovalDecision | Promise<FunctionApprovalDecision>
+
+/**
+ * 参数校验问题
+ */
+export interface ArgumentIssue {
+  /** 出错的参数路径，如 `user.name`，根对象为空字符串 */
+  path: string
+  /** 错误说明 */
+  message: string
+}
+
+/**
+ * MCP 工具来源
+ * 记录工具所属的 MCP 客户端，执行时通过该客户端调用
+ */
+export interface McpToolSource {
+  /** MCP 客户端 */
+  client: Client
+  /** MCP 服务名称，未命名的客户端为空 */
+  server?: string
+  /** 工具在 MCP 服务中的原始名称 */
+  toolName: string
+}
+
+/**
+ * MCP 资源引用
+ */
+export interface McpResourceReference {
+  /** 资源 URI */
+  uri: string
+  /** 资源所属的 MCP 服务名称，未命名的客户端为空 */
+  server?: string
+}
+
+/**
+ * MCP 资源
+ */
+export interface McpResource extends McpResourceReference {
+  /** 资源名称 */
+  name: string
+  /** 资源描述 */
+  description?: string
+  /** 资源 MIME 类型 */
+  mimeType?: string
+}
+
+/**
+ * MCP 提示模板
+ */
+export interface McpPrompt {
+  /** 提示模板名称 */
+  name: string
+  /** 提示模板所属的 MCP 服务名称，未命名的客户端为空 */
+  server?: string
+  /** 提示模板描述 */
+  description?: string
+  /** 提示模板参数 */
+  arguments?: Array<{
+    name: string
+    description?: string
+    required?: boolean
+  }>
+}
+
+/**
+ * MCP 采样请求
+ * MCP 服务通过 sampling/createMessage 请求使用客户端的模型生成内容
+ */
+export interface McpSamplingRequest {
+  /** 发起请求的 MCP 服务名称，未命名的客户端为空 */
+  server?: string
+  /** 对话消息 */
+  messages: ChatMessage[]
+  /** 服务提供的系统提示 */
+  systemPrompt?: string
+  /** 最大输出 token 数 */
+  maxTokens: number
+  /** 温度参数 */
+  temperature?: number
+}
+
+/**
+ * MCP 采样策略
+ */
+export interface McpSamplingPolicy {
+  /** 单次采样允许的最大输出 token 数，服务请求更多时按该值限制 */
+  maxTokens?: number
+  /** 是否使用服务提供的系统提示，默认为 true */
+  allowSystemPrompt?: boolean
+  /** 采样前调用，返回 false 时拒绝该请求 */
+  approve?: (request: McpSamplingRequest) => boolean | Promise<boolean>
+}
+
+/**
+ * MCP 信息征询请求
+ * MCP 服务通过 elicitation/create 请求向用户询问信息
+ */
+export interface McpElicitationRequest {
+  /** 发起请求的 MCP 服务名称，未命名的客户端为空 */
+  server?: string
+  /** 向用户展示的问题 */
+  message: string
+  /** 期望用户填写的内容，为只包含基本类型属性的 JSON Schema */
+  requestedSchema: Record<string, any>
+}
+
+/**
+ * MCP 信息征询结果
+ * accept 提交填写的内容，decline 拒绝提供，cancel 取消操作
+ */
+export type McpElicitationResult =
+  | { action: 'accept', content: Record<string, any> }
+  | { action: 'decline' }
+  | { action: 'cancel' }
+
+/**
+ * MCP 信息征询处理器
+ */
+export type McpElicitationHandler = (
+  request: McpElicitationRequest,
+  context: FunctionExecutionContext,
+) => McpElicitationResult | Promise<McpElicitationResult>
+
+/**
+ * MCP 客户端选项
+ */
+export interface McpClientOptions {
+  /** 服务名称，命名客户端的工具名会加上服务名前缀 */
+  name?: string
+  /** 为 true 时该客户端的所有工具执行前都需要审批 */
+  requiresApproval?: boolean
+  /** 允许服务通过采样请求使用当前模型，传入对象时按策略限制 */
+  sampling?: boolean | McpSamplingPolicy
+  /** 处理服务发起的信息征询请求 */
+  elicitationHandler?: McpElicitationHandler
+}
+
+/**
+ * MCP 服务选项
+ */
+export interface McpServerOptions {
+  /** 服务名称，默认为 unified-ai */
+  name?: string
+  /** 服务版本，默认为 1.0.0 */
+  version?: string
+}
 
 /**
  * Agent 功能类型
@@ -13,8 +202,16 @@ export interface AgentFunction {
   parameters: z.ZodObject<any> | Record<string, any>
   /** 函数配置 */
   config?: Record<string, any>
+  /** 该函数同时执行的最大数量，不设置时只受全局并发限制 */
+  concurrency?: number
+  /** 超时、重试和停用策略 */
+  policy?: FunctionPolicy
+  /** 执行前是否需要审批 */
+  requiresApproval?: boolean
+  /** 来自 MCP 服务的工具，没有执行器时通过对应的客户端调用 */
+  mcp?: McpToolSource
   /** 函数执行器 */
-  executor?: (params: Record<string, any>, config?: Record<string, any>) => Promise<any>
+  executor?: (params: Record<string, any>, config?: Record<string, any>, context?: FunctionExecutionContext) => Promise<any>
 }
 
 export interface AgentFunctionSchema {
@@ -22,7 +219,13 @@ export interface AgentFunctionSchema {
   description?: string
   parameters: Record<string, any>
   config?: Record<string, any>
-  executor?: (params: Record<string, any>, config?: Record<string, any>) => Promise<any>
+  concurrency?: number
+  policy?: FunctionPolicy
+  requiresApproval?: boolean
+  /** 原始的 Zod 参数模式，存在时优先使用它校验参数 */
+  zodSchema?: z.ZodType
+  mcp?: McpToolSource
+  executor?: (params: Record<string, any>, config?: Record<string, any>, context?: FunctionExecutionContext) => Promise<any>
 }
 
 /**
@@ -45,10 +248,16 @@ export enum AgentEventType {
   FUNCTION_CALL_START = 'function_call_start',
   /** 函数调用结束 */
   FUNCTION_CALL_END = 'function_call_end',
+  /** 函数调用等待审批 */
+  FUNCTION_CALL_APPROVAL_REQUIRED = 'function_call_approval_required',
   /** 递归调用开始 */
   RECURSION_START = 'recursion_start',
   /** 递归调用结束 */
   RECURSION_END = 'recursion_end',
+  /** 请求超出上下文预算 */
+  CONTEXT_BUDGET_EXCEEDED = 'context_budget_exceeded',
+  /** 函数结果过长被截断 */
+  FUNCTION_RESULT_TRUNCATED = 'function_result_truncated',
   /** 发生错误 */
   ERROR = 'error',
 }
@@ -58,7 +267,7 @@ export enum AgentEventType {
  */
 export interface ResponseStartEventData {
   /** 提示内容 */
-  prompt: string
+  prompt: MessageContent
   /** 请求选项 */
   options?: ChatOptions
 }
@@ -129,6 +338,14 @@ export interface FunctionCallEndEventData {
   functionCalls: FunctionCall[]
 }
 
+/**
+ * 函数调用等待审批事件数据
+ */
+export interface FunctionCallApprovalRequiredEventData {
+  /** 等待审批的函数调用 */
+  functionCall: FunctionCall
+}
+
 /**
  * 递归开始事件数据
  */
@@ -159,12 +376,40 @@ export interface RecursionEndEventData {
   completedFunctionCalls: FunctionCall[]
 }
 
+/**
+ * 上下文预算超出事件数据
+ */
+export interface ContextBudgetExceededEventData {
+  /** 调整前请求的 token 数 */
+  tokens: number
+  /** 移除较早的历史消息后请求的 token 数，仍然超出预算时请求照常发送 */
+  finalTokens: number
+  /** token 预算 */
+  maxTokens: number
+  /** 从历史记录中移除的消息数 */
+  trimmedMessages: number
+  /** 深度 */
+  depth: number
+}
+
+/**
+ * 函数结果截断事件数据
+ */
+export interface FunctionResultTruncatedEventData {
+  /** 结果被截断的函数调用，包含完整的结果 */
+  functionCall: FunctionCall
+  /** 结果的 token 数（估算值） */
+  tokens: number
+  /** 单个函数结果最多占用的 token 数 */
+  maxTokens: number
+}
+
 /**
  * 错误事件数据
  */
 export interface ErrorEventData {
   /** 提示内容 */
-  prompt?: string
+  prompt?: MessageContent
   /** 请求选项 */
   options?: ChatOptions
   /** 错误信息 */
@@ -185,11 +430,24 @@ export interface AgentEventDataMap {
   [AgentEventType.THINKING_END]: ThinkingEndEventData
   [AgentEventType.FUNCTION_CALL_START]: FunctionCallStartEventData
   [AgentEventType.FUNCTION_CALL_END]: FunctionCallEndEventData
+  [AgentEventType.FUNCTION_CALL_APPROVAL_REQUIRED]: FunctionCallApprovalRequiredEventData
   [AgentEventType.RECURSION_START]: RecursionStartEventData
   [AgentEventType.RECURSION_END]: RecursionEndEventData
+  [AgentEventType.CONTEXT_BUDGET_EXCEEDED]: ContextBudgetExceededEventData
+  [AgentEventType.FUNCTION_RESULT_TRUNCATED]: FunctionResultTruncatedEventData
   [AgentEventType.ERROR]: ErrorEventData
 }
 
+/**
+ * 上下文预算
+ */
+export interface ContextBudget {
+  /** 单次请求最多占用的 token 数，包含系统消息、工具定义、历史记录和提示 */
+  maxTokens: number
+  /** 单个函数结果最多占用的 token 数，超出时截断，默认为 maxTokens 的四分之一 */
+  maxToolResultTokens?: number
+}
+
 /**
  * UnifiedAI 配置选项
  */
@@ -198,6 +456,14 @@ export interface UnifiedAIOptions {
   functions?: AgentFunction[]
   /** 最大函数调用递归次数（用于支持链式调用），默认为25 */
   maxRecursionDepth?: number
+  /** 同一轮函数调用的最大并发数，默认为1，即依次执行 */
+  concurrency?: number
+  /** 函数调用审批处理器，未设置时需要审批的函数会被拒绝执行 */
+  approvalHandler?: FunctionApprovalHandler
+  /** 上下文预算，请求超出预算时移除较早的历史消息，未设置时不限制 */
+  contextBudget?: ContextBudget
+  /** 中间件，按顺序执行，也可以通过 use 方法添加 */
+  middlewares?: UnifiedAIMiddleware[]
   /** 其他配置选项 */
   [key: string]: any
 }
@@ -216,6 +482,12 @@ export interface FunctionCall {
   result?: any
   /** 函数执行时长（毫秒） */
   executionTime?: number
+  /** 执行次数，包括重试 */
+  attempts?: number
+  /** 是否执行失败 */
+  failed?: boolean
+  /** 审批结果，仅需要审批的函数调用有此字段 */
+  approval?: 'approved' | 'edited' | 'denied'
 }
 
 /**
@@ -0,0 +1,40 @@
+/**
+ * 缓存的模型响应
+ */
+export interface CachedResponse {
+  /** 响应类型 */
+  type: 'chat' | 'stream'
+  /** 非流式调用的响应 */
+  response?: any
+  /** 流式调用的所有响应块 */
+  chunks?: any[]
+}
+
+/**
+ * 响应缓存存储
+ * 存储需要自行处理过期时间，过期的缓存不再返回
+ */
+export interface ResponseCacheStore {
+  /**
+   * 读取缓存
+   * @param key 缓存键
+   * @returns 缓存的响应，不存在或已过期时返回 undefined
+   */
+  get: (key: string) => Promise<CachedResponse | undefined>
+  /**
+   * 写入缓存
+   * @param key 缓存键
+   * @param value 缓存的响应
+   * @param ttl 有效期（毫秒），不设置时不过期
+   */
+  set: (key: string, value: CachedResponse, ttl?: number) => Promise<void>
+  /**
+   * 删除缓存
+   * @param key 缓存键
+   */
+  delete: (key: string) => Promise<void>
+  /**
+   * 清空所有缓存
+   */
+  clear: () => Promise<void>
+}
@@ -1,2 +1,5 @@
 export * from './agent'
+export * from './cache'
+export * from './memory'
+export * from './middleware'
 export * from './model'
@@ -0,0 +1,46 @@
+import type { ChatMessage } from '.'
+
+/**
+ * 对话摘要
+ * 由模型压缩较早的历史消息生成，需要由调用方保存并在下次对话时传入
+ */
+export interface ConversationSummary {
+  /** 摘要内容 */
+  content: string
+  /** 摘要覆盖的历史消息数，即从历史记录开头起已被压缩的消息数量 */
+  messageCount: number
+}
+
+/**
+ * 记忆策略的上下文
+ */
+export interface MemoryContext {
+  /** 上次保存的对话摘要 */
+  summary?: ConversationSummary
+  /** 取消信号，生成摘要时使用 */
+  signal?: AbortSignal
+}
+
+/**
+ * 记忆策略的处理结果
+ */
+export interface MemoryResult {
+  /** 处理后发送给模型的历史记录 */
+  history: ChatMessage[]
+  /** 最新的对话摘要，和传入的摘要不同时需要重新保存 */
+  summary?: ConversationSummary
+}
+
+/**
+ * 记忆策略
+ * 在发送请求前处理完整的历史记录，控制发送给模型的上下文长度
+ */
+export interface MemoryStrategy {
+  /**
+   * 处理历史记录
+   * @param history 完整的历史记录
+   * @param context 上下文，包含上次保存的摘要
+   * @returns 处理后的历史记录和最新的摘要
+   */
+  apply: (history: ChatMessage[], context?: MemoryContext) => Promise<MemoryResult>
+}
@@ -0,0 +1,75 @@
+import type { AgentCallback, AgentFunctionSchema, ChatOptions, FunctionCall, MessageContent, TokenUsage } from '.'
+import type { BaseModel } from '../base'
+
+/**
+ * 发送给模型的请求
+ */
+export interface MiddlewareRequest {
+  /** 提示/消息内容 */
+  prompt: MessageContent
+  /** 聊天请求选项 */
+  options: ChatOptions
+}
+
+/**
+ * 返回给调用方的响应片段
+ * 流式请求中为每个输出的片段，非流式请求中为最终的完整响应
+ */
+export interface MiddlewareChunk {
+  /** 响应内容 */
+  content: any
+  /** 标识响应内容是否为JSON对象 */
+  isJsonResponse: boolean
+  /** 是否是最后一个片段 */
+  isLast?: boolean
+  /** 使用的模型 */
+  model?: string
+  /** 消耗的token数量 */
+  usage?: TokenUsage
+  /** 已执行的函数调用 */
+  functionCalls?: Record<string, any>[]
+  /** 其他字段 */
+  [key: string]: any
+}
+
+/**
+ * 中间件上下文
+ * 每一层递归创建一个新的上下文，state 在同一次请求的各层递归之间共享
+ */
+export interface MiddlewareContext {
+  /** 基础模型，中间件需要额外请求模型时使用 */
+  model: BaseModel
+  /** 本层递归收到的聊天选项，未经中间件修改 */
+  options: ChatOptions
+  /** 当前递归深度，0 为用户发起的请求 */
+  depth: number
+  /** 是否为流式请求 */
+  stream: boolean
+  /** 本层递归可用的工具 */
+  tools: AgentFunctionSchema[]
+  /** 回调函数 */
+  callback?: AgentCallback
+  /** 同一次请求中各个中间件共享的数据 */
+  state: Record<string, any>
+  /** 中间件额外请求模型消耗的token数量，会累加到响应的 usage 中 */
+  usage?: TokenUsage
+}
+
+/**
+ * UnifiedAI 中间件
+ * 各个钩子按添加顺序依次执行，返回新的对象时替换传入的对象，不返回时沿用传入的对象
+ */
+export interface UnifiedAIMiddleware {
+  /** 中间件名称，用于移除或替换中间件 */
+  name: string
+  /** 每一层递归调用模型前执行，可以改写本轮的提示和选项 */
+  beforeModel?: (request: MiddlewareRequest, context: MiddlewareContext) => MiddlewareRequest | void | Promise<MiddlewareRequest | void>
+  /** 每个响应片段返回给调用方前执行，回调收到的是处理后的片段 */
+  afterChunk?: (chunk: MiddlewareChunk, context: MiddlewareContext) => MiddlewareChunk | void | Promise<MiddlewareChunk | void>
+  /** 每个函数调用执行前执行，可以修改调用参数，抛出错误时停止本次请求 */
+  beforeToolCall?: (call: FunctionCall, context: MiddlewareContext) => FunctionCall | void | Promise<FunctionCall | void>
+  /** 每个函数调用执行后执行，可以修改执行结果，修改后的结果会发送给模型 */
+  afterToolCall?: (call: FunctionCall, context: MiddlewareContext) => FunctionCall | void | Promise<FunctionCall | void>
+  /** 请求出错时执行，只在最外层执行一次，不影响错误的抛出 */
+  onError?: (error: Error, context: MiddlewareContext) => void | Promise<void>
+}
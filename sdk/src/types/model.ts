@@ -1,6 +1,8 @@
 /**
  * 大模型通用类型定义
  */
+import type { z } from 'zod'
+import type { McpResourceReference } from './agent'
 
 /**
  * 聊天消息的角色
@@ -9,16 +11,96 @@ export enum ChatRole {
   USER = 'user',
   ASSISTANT = 'assistant',
   SYSTEM = 'system',
+  /** 工具执行结果 */
+  TOOL = 'tool',
 }
 
+/**
+ * 聊天消息中的工具调用
+ */
+export interface ChatToolCall {
+  /** 工具调用ID，用于与工具执行结果对应 */
+  id: string
+  /** 工具名称 */
+  name: string
+  /** 工具参数 */
+  arguments: Record<string, any>
+}
+
+/**
+ * 文本内容片段
+ */
+export interface TextContentPart {
+  type: 'text'
+  /** 文本内容 */
+  text: string
+}
+
+/**
+ * 图片内容片段
+ */
+export interface ImageContentPart {
+  type: 'image'
+  /** base64 编码的图片数据 */
+  data: string
+  /** 图片 MIME 类型，如 image/png */
+  mimeType: string
+}
+
+/**
+ * 文件内容片段
+ * data 与 uri 至少需要提供一个
+ */
+export interface FileContentPart {
+  type: 'file'
+  /** base64 编码的文件数据 */
+  data?: string
+  /** 文件地址，如模型服务商文件接口返回的 URI */
+  uri?: string
+  /** 文件 MIME 类型，如 application/pdf */
+  mimeType: string
+  /** 文件名 */
+  name?: string
+}
+
+/**
+ * 音频内容片段
+ */
+export interface AudioContentPart {
+  type: 'audio'
+  /** base64 编码的音频数据 */
+  data: string
+  /** 音频 MIME 类型，如 audio/wav */
+  mimeType: string
+}
+
+/**
+ * 消息内容片段
+ */
+export type ContentPart = TextContentPart | ImageContentPart | FileContentPart | AudioContentPart
+
+/**
+ * 消息内容，可以是纯文本或多个内容片段（文本、图片、文件、音频）
+ */
+export type MessageContent = string | ContentPart[]
+
 /**
  * 聊天消息
  */
 export interface ChatMessage {
   /** 消息角色 */
   role: ChatRole
-  /** 消息内容 */
-  content: string
+  /**
+   * 消息内容
+   * 当 role 为 tool 时，这是工具执行结果的 JSON 字符串
+   */
+  content: MessageContent
+  /** 助手发起的工具调用，仅在 role 为 assistant 时有效 */
+  toolCalls?: ChatToolCall[]
+  /** 对应的工具调用ID，仅在 role 为 tool 时有效 */
+  toolCallId?: string
+  /** 工具名称，仅在 role 为 tool 时有效 */
+  name?: string
 }
 
 /**
@@ -39,6 +121,11 @@ export type ContentType<T extends ResponseFormat | undefined> =
     ? Record<string, any>
     : string
 
+/**
+ * 响应模式，可以是 Zod 模式或 JSON Schema
+ */
+export type ResponseSchema = z.ZodTypeAny | Record<string, any>
+
 /**
  * 聊天请求选项
  */
@@ -53,14 +140,34 @@ export interface ChatOptions {
   maxTokens?: number
   /** 响应格式 */
   responseFormat?: ResponseFormat
+  /** 响应模式，Zod 模式或 JSON Schema，设置后按 JSON 格式返回并校验内容 */
+  responseSchema?: ResponseSchema
+  /** 响应内容不符合响应模式时带上错误信息重试的最大次数，默认为2 */
+  schemaRetries?: number
   /** 系统消息 */
   systemMessage?: string
   /** 是否思考优化用户的问题 */
   optimizeUserQuestion?: boolean
+  /** 取消信号，取消后停止模型请求、工具执行和后续递归 */
+  signal?: AbortSignal
+  /** 作为上下文附加到提示中的 MCP 资源 */
+  resources?: McpResourceReference[]
   /** 自定义模型参数 */
   [key: string]: any
 }
 
+/**
+ * token 使用情况
+ */
+export interface TokenUsage {
+  /** 输入消耗的token数量 */
+  promptTokens?: number
+  /** 输出消耗的token数量 */
+  completionTokens?: number
+  /** 总共消耗的token数量 */
+  totalTokens?: number
+}
+
 /**
  * 聊天响应
  */
@@ -76,14 +183,10 @@ export interface ChatResponse<T extends ResponseFormat | undefined = undefined>
   /** 使用的模型 */
   model: string
   /** 消耗的token数量 */
-  usage?: {
-    promptTokens?: number
-    completionTokens?: number
-    totalTokens?: number
-  }
+  usage?: TokenUsage
   /** 额外信息，可以存储原始用户提问等元数据 */
   additionalInfo?: {
-    userPrompt?: string
+    userPrompt?: MessageContent
     [key: string]: any
   }
 }
@@ -108,6 +211,8 @@ export interface ChatStreamChunk<T extends ResponseFormat | undefined = undefine
   model?: string
   /** 此片段的token数量 */
   chunkTokens?: number
+  /** 整个请求消耗的token数量，仅在最后一个片段中有值 */
+  usage?: TokenUsage
   /** 函数调用信息，仅在存在函数调用时有值 */
   functionCalls?: Record<string, any>[]
 }
@@ -117,18 +222,38 @@ export interface ChatStreamChunk<T extends ResponseFormat | undefined = undefine
  */
 type IsLast<T> = T extends { isLast: infer L } ? L : false
 
+/**
+ * 设置了 Zod 响应模式时的聊天响应，内容为校验后的数据
+ */
+export type StructuredChatResponse<S> = Omit<ChatResponse<ResponseFormat.JSON>, 'content'> & {
+  /** 按响应模式校验后的内容 */
+  content: S
+}
+
+/**
+ * 设置了 Zod 响应模式时的流式响应片段，最后一个片段的内容为校验后的数据
+ */
+export type StructuredChatStreamChunk<S> = Omit<ChatStreamChunk<ResponseFormat.JSON>, 'content'> & {
+  /** 非最后一个片段为原始文本，最后一个片段为按响应模式校验后的内容 */
+  content: string | S
+}
+
 /**
  * 获取匹配选项的响应类型
  */
 export type ResponseTypeForOptions<T extends ChatOptions | undefined> =
-  T extends { responseFormat: ResponseFormat.JSON }
-    ? ChatResponse<ResponseFormat.JSON>
-    : ChatResponse<ResponseFormat.TEXT>
+  T extends { responseSchema: z.ZodTypeAny }
+    ? StructuredChatResponse<z.infer<T['responseSchema']>>
+    : T extends { responseSchema: Record<string, any> } | { responseFormat: ResponseFormat.JSON }
+      ? ChatResponse<ResponseFormat.JSON>
+      : ChatResponse<ResponseFormat.TEXT>
 
 /**
  * 获取匹配选项的流式响应片段类型
  */
 export type StreamChunkTypeForOptions<T extends ChatOptions | undefined> =
-  T extends { responseFormat: ResponseFormat.JSON }
-    ? ChatStreamChunk<ResponseFormat.JSON>
-    : ChatStreamChunk<ResponseFormat.TEXT>
+  T extends { responseSchema: z.ZodTypeAny }
+    ? StructuredChatStreamChunk<z.infer<T['responseSchema']>>
+    : T extends { responseSchema: Record<string, any> } | { responseFormat: ResponseFormat.JSON }
+      ? ChatStreamChunk<ResponseFormat.JSON>
+      : ChatStreamChunk<ResponseFormat.TEXT>
@@ -0,0 +1,76 @@
+/**
+ * 取消请求工具类
+ * 用于在模型请求、工具执行和递归调用中响应 AbortSignal
+ */
+export class AbortHelper {
+  /**
+   * 创建取消错误
+   * @param signal 已取消的信号，优先使用其中的取消原因
+   * @returns name 为 AbortError 的错误
+   */
+  static createAbortError(signal?: AbortSignal): Error {
+    if (AbortHelper.isAbortError(signal?.reason)) {
+      return signal!.reason
+    }
+
+    const error = new Error('请求已取消')
+    error.name = 'AbortError'
+    return error
+  }
+
+  /**
+   * 信号已取消时抛出取消错误
+   * @param signal 取消信号
+   */
+  static throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw AbortHelper.createAbortError(signal)
+    }
+  }
+
+  /**
+   * 判断错误是否为取消错误
+   * fetch 抛出的 DOMException 不一定继承自当前环境的 Error，因此只按名称判断
+   * @param error 捕获到的错误
+   * @returns 是否为取消错误
+   */
+  static isAbortError(error: unknown): error is Error {
+    return typeof error === 'object' && error !== null && (error as Error).name === 'AbortError'
+  }
+
+  /**
+   * 在信号取消时提前结束等待
+   * 用于不支持 AbortSignal 的异步操作，操作本身不会被中断，但结果会被丢弃
+   * @param promise 要等待的异步操作
+   * @param signal 取消信号
+   * @returns 异步操作的结果
+   */
+  static race<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+      return promise
+    }
+    if (signal.aborted) {
+      return Promise.reject(AbortHelper.createAbortError(signal))
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(AbortHelper.createAbortError(signal))
+      signal.addEventListener('abort', onAbort, { once: true })
+      promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort))
+    })
+  }
+
+  /**
+   * 等待指定时间，信号取消时提前结束
+   * @param ms 等待时间（毫秒）
+   * @param signal 取消信号
+   */
+  static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    return AbortHelper.race(new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, ms)
+    }), signal).finally(() => clearTimeout(timer))
+  }
+}
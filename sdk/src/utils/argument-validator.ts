@@ -0,0 +1,138 @@
+/**
+ * 函数参数校验工具类
+ * 用于在执行前按函数声明的参数模式校验并转换模型给出的参数
+ */
+import type { ValidateFunction } from 'ajv'
+import type { AgentFunctionSchema, ArgumentIssue } from '../types'
+import { createHash } from 'node:crypto'
+import Ajv from 'ajv'
+
+/** 最多缓存的校验函数数量 */
+const MAX_COMPILED = 500
+
+/** 参数校验结果 */
+export type ArgumentValidationResult =
+  | { success: true, data: Record<string, any> }
+  | { success: false, issues: ArgumentIssue[] }
+
+export class ArgumentValidator {
+  /**
+   * 允许类型转换和默认值的 JSON Schema 校验器，忽略不认识的关键字
+   * 不保存编译过的参数模式，避免相同 $id 的模式冲突
+   */
+  private static ajv = new Ajv({ allErrors: true, coerceTypes: true, useDefaults: true, strict: false, addUsedSchema: false })
+
+  /**
+   * 已编译的校验函数，按函数名和参数模式的哈希缓存
+   * 每次获取工具都会重新生成参数模式对象，不能按对象缓存
+   */
+  private static compiled = new Map<string, ValidateFunction | null>()
+
+  /**
+   * 校验函数调用参数
+   * 有 Zod 模式时使用 safeParse，否则按 JSON Schema 校验（如 MCP 工具的 inputSchema）
+   * 字符串形式的数字、布尔值等会被转换为声明的类型
+   * @param func 函数定义
+   * @param args 模型给出的参数
+   * @returns 校验通过时返回转换后的参数，否则返回校验问题列表
+   */
+  static validate(func: AgentFunctionSchema, args: Record<string, any> | undefined): ArgumentValidationResult {
+    const input = args ?? {}
+
+    if (func.zodSchema) {
+      const parsed = func.zodSchema.safeParse(input)
+      if (parsed.success) {
+        return { success: true, data: parsed.data }
+      }
+
+      // Zod 不会自动转换类型，先按 JSON Schema 转换后再校验一次
+      const coerced = this.validateJsonSchema(func, input)
+      if (coerced.success) {
+        const retried = func.zodSchema.safeParse(coerced.data)
+        if (retried.success) {
+          return { success: true, data: retried.data }
+        }
+      }
+
+      return {
+        success: false,
+        issues: parsed.error.issues.map(issue => ({
+          path: issue.path.join('.'),
+          message: issue.message,
+        })),
+      }
+    }
+
+    return this.validateJsonSchema(func, input)
+  }
+
+  /**
+   * 将校验问题格式化为发给模型的错误信息
+   * @param func 函数定义
+   * @param issues 校验问题列表
+   * @returns 错误信息
+   */
+  static formatIssues(func: AgentFunctionSchema, issues: ArgumentIssue[]): string {
+    const details = issues.map(issue => `${issue.path || '(root)'}: ${issue.message}`).join('; ')
+    return `函数 '${func.name}' 的参数校验失败，请按参数定义修正后重新调用：${details}`
+  }
+
+  /**
+   * 按 JSON Schema 校验参数
+   * @param func 函数定义
+   * @param args 参数
+   * @returns 校验结果，参数模式无法编译时视为校验通过
+   */
+  private static validateJsonSchema(func: AgentFunctionSchema, args: Record<string, any>): ArgumentValidationResult {
+    const validate = func.parameters ? this.compile(func.name, func.parameters) : null
+    if (!validate) {
+      return { success: true, data: args }
+    }
+
+    // 类型转换和默认值会直接修改数据，复制一份避免影响原始调用
+    const data = structuredClone(args)
+    if (validate(data)) {
+      return { success: true, data }
+    }
+
+    return {
+      success: false,
+      issues: (validate.errors || []).map(error => ({
+        path: [
+          ...error.instancePath.split('/').filter(Boolean),
+          ...(error.keyword === 'required' ? [error.params.missingProperty] : []),
+        ].join('.'),
+        message: error.message || '参数不合法',
+      })),
+    }
+  }
+
+  /**
+   * 编译并缓存 JSON Schema 校验函数
+   * 编译后从校验器中移除参数模式，只由本类的缓存持有校验函数，超出数量时移除最早的缓存
+   * @param name 函数名称
+   * @param schema JSON Schema
+   * @returns 校验函数，无法编译时返回 null
+   */
+  private static compile(name: string, schema: Record<string, any>): ValidateFunction | null {
+    const key = `${name}:${createHash('sha256').update(JSON.stringify(schema)).digest('hex')}`
+    if (!this.compiled.has(key)) {
+      let validate: ValidateFunction | null = null
+      try {
+        validate = this.ajv.compile(schema)
+      }
+      catch (error: any) {
+        console.warn(`无法编译函数 '${name}' 的参数模式，跳过参数校验: ${error.message}`)
+      }
+      finally {
+        this.ajv.removeSchema(schema)
+      }
+
+      if (this.compiled.size >= MAX_COMPILED) {
+        this.compiled.delete(this.compiled.keys().next().value!)
+      }
+      this.compiled.set(key, validate)
+    }
+    return this.compiled.get(key) ?? null
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * 消息内容处理工具类
+ * 用于在纯文本与多模态内容片段之间转换
+ */
+import type { ContentPart, MessageContent } from '../types'
+
+export class ContentHelper {
+  /**
+   * 将消息内容转换为内容片段列表
+   * @param content 消息内容
+   * @returns 内容片段列表，空文本时返回空数组
+   */
+  static toParts(content: MessageContent): ContentPart[] {
+    if (typeof content === 'string') {
+      return content ? [{ type: 'text', text: content }] : []
+    }
+    return content
+  }
+
+  /**
+   * 获取消息内容中的文本部分
+   * @param content 消息内容
+   * @returns 所有文本片段拼接后的文本
+   */
+  static getText(content: MessageContent): string {
+    if (typeof content === 'string') {
+      return content
+    }
+    return content
+      .filter(part => part.type === 'text')
+      .map(part => part.text)
+      .join('\n')
+  }
+
+  /**
+   * 获取消息内容中的非文本片段（图片、文件、音频）
+   * @param content 消息内容
+   * @returns 非文本片段列表
+   */
+  static getAttachments(content: MessageContent): ContentPart[] {
+    if (typeof content === 'string') {
+      return []
+    }
+    return content.filter(part => part.type !== 'text')
+  }
+
+  /**
+   * 替换消息内容中的文本部分，保留其中的附件
+   * @param content 原始消息内容
+   * @param text 新的文本内容
+   * @returns 新的消息内容，没有附件时返回纯文本
+   */
+  static withText(content: MessageContent, text: string): MessageContent {
+    const attachments = ContentHelper.getAttachments(content)
+    if (attachments.length === 0) {
+      return text
+    }
+    return text ? [{ type: 'text', text }, ...attachments] : attachments
+  }
+
+  /**
+   * 检查消息内容是否为空
+   * @param content 消息内容
+   * @returns 没有文本也没有附件时返回 true
+   */
+  static isEmpty(content: MessageContent | undefined): boolean {
+    if (!content) {
+      return true
+    }
+    return ContentHelper.toParts(content).every(part => part.type === 'text' && !part.text)
+  }
+}
@@ -1,6 +1,15 @@
 import type { Client } from '@modelcontextprotocol/sdk/client/index.js'
-import type { AgentCallback, AgentFunctionSchema, FunctionCall } from '../types'
+import type { AgentCallback, AgentFunctionSchema, ArgumentIssue, FunctionApprovalDecision, FunctionApprovalHandler, FunctionCall } from '../types'
 import { AgentEventType } from '../types'
+import { AbortHelper } from './abort-helper'
+import { ArgumentValidator } from './argument-validator'
+import { Semaphore } from './semaphore'
+
+/** 默认的重试等待时间（毫秒） */
+const DEFAULT_BACKOFF = 500
+
+/** 默认的一轮对话中最大失败次数 */
+const DEFAULT_MAX_FAILURES = 3
 
 /**
  * 函数调用执行器
@@ -9,9 +18,14 @@ import { AgentEventType } from '../types'
 export class FunctionCallExecutor {
   /**
    * 执行函数调用
+   * 在并发限制内同时执行多个函数调用，结果顺序与调用顺序一致
    * @param functionCalls 函数调用列表
    * @param functions 可用的函数列表
    * @param callback 回调函数
+   * @param mcpClient 默认的 MCP 客户端，用于没有记录来源客户端的 MCP 工具
+   * @param signal 取消信号，取消后不再执行剩余的函数调用
+   * @param concurrency 全局最大并发数，默认为1，即依次执行
+   * @param approvalHandler 审批处理器，执行需要审批的函数前调用
    * @returns 带执行结果的函数调用列表
    */
   static async executeFunctionCalls(
@@ -19,11 +33,12 @@ export class FunctionCallExecutor {
     functions: AgentFunctionSchema[],
     callback?: AgentCallback,
     mcpClient?: Client,
+    signal?: AbortSignal,
+    concurrency = 1,
+    approvalHandler?: FunctionApprovalHandler,
   ): Promise<FunctionCall[]> {
-    const results: FunctionCall[] = []
-
     if (!functionCalls || functionCalls.length === 0) {
-      return results
+      return []
     }
 
     // 确保每个函数调用都有唯一ID
@@ -34,81 +49,359 @@ export class FunctionCallExecutor {
       }
     })
 
-    // 通知开始执行函数调用
-    callback?.(AgentEventType.FUNCTION_CALL_START, { functionCalls })
+    // 全局并发限制和每个函数各自的并发限制
+    const globalLimiter = new Semaphore(concurrency)
+    const functionLimiters = new Map<string, Semaphore>()
+    const getFunctionLimiter = (func: AgentFunctionSchema) => {
+      if (!func.concurrency) {
+        return undefined
+      }
+      if (!functionLimiters.has(func.name)) {
+        functionLimiters.set(func.name, new Semaphore(func.concurrency))
+      }
+      return functionLimiters.get(func.name)
+    }
 
-    for (const call of functionCalls) {
-      // 检查函数调用是否已经执行
+    return Promise.all(functionCalls.map(async (call) => {
+      // 已执行过的函数调用直接返回
       if (call.result !== undefined) {
-        // 已执行过的函数调用直接添加到结果中
-        results.push(call)
-        continue
+        return call
       }
 
       const func = functions.find(f => f.name === call.name)
+      const functionLimiter = func ? getFunctionLimiter(func) : undefined
+
+      // 先占用函数自身的名额，避免等待同名函数时占用全局名额
+      await functionLimiter?.acquire()
+      try {
+        return await globalLimiter.run(() => this.executeFunctionCall(call, func, callback, mcpClient, signal, approvalHandler))
+      }
+      finally {
+        functionLimiter?.release()
+      }
+    }))
+  }
+
+  /**
+   * 执行单个函数调用
+   * 开始和结束时分别通知回调，便于实时展示每个调用的进度
+   * @param call 函数调用
+   * @param func 对应的函数定义，未找到时为空
+   * @param callback 回调函数
+   * @param mcpClient MCP 客户端
+   * @param signal 取消信号
+   * @param approvalHandler 审批处理器
+   * @returns 带执行结果的函数调用
+   */
+  private static async executeFunctionCall(
+    call: FunctionCall,
+    func: AgentFunctionSchema | undefined,
+    callback?: AgentCallback,
+    mcpClient?: Client,
+    signal?: AbortSignal,
+    approvalHandler?: FunctionApprovalHandler,
+  ): Promise<FunctionCall> {
+    AbortHelper.throwIfAborted(signal)
+
+    // 通知开始执行函数调用
+    callback?.(AgentEventType.FUNCTION_CALL_START, { functionCalls: [call] })
+    const startTime = Date.now()
+
+    const resultCall = func
+      ? await this.runFunctionCall(call, func, callback, mcpClient, signal, approvalHandler)
+      : this.createFailedCall(call, `Function '${call.name}' not found`, callback, startTime)
+
+    // 通知函数调用结束
+    callback?.(AgentEventType.FUNCTION_CALL_END, { functionCalls: [resultCall] })
+
+    return resultCall
+  }
+
+  /**
+   * 校验参数、审批后执行函数
+   * @param call 函数调用
+   * @param func 函数定义
+   * @param callback 回调函数
+   * @param mcpClient MCP 客户端
+   * @param signal 取消信号
+   * @param approvalHandler 审批处理器
+   * @returns 带执行结果的函数调用
+   */
+  private static async runFunctionCall(
+    call: FunctionCall,
+    func: AgentFunctionSchema,
+    callback?: AgentCallback,
+    mcpClient?: Client,
+    signal?: AbortSignal,
+    approvalHandler?: FunctionApprovalHandler,
+  ): Promise<FunctionCall> {
+    // 按参数模式校验参数，不合法时不执行函数
+    let validation = ArgumentValidator.validate(func, call.arguments)
+    if (!validation.success) {
+      return this.createInvalidCall(call, func, validation.issues, callback)
+    }
 
-      if (func) {
-        try {
-          // 复制函数调用对象，添加执行结果
-          const resultCall = { ...call }
-
-          // 记录开始执行时间
-          const startTime = Date.now()
-
-          if (func.executor) {
-            // 执行函数
-            resultCall.result = await func.executor(call.arguments, func.config)
-          }
-          else {
-            // 执行函数
-            resultCall.result = await mcpClient?.callTool({
-              name: func.name,
-              arguments: call.arguments,
-            })
-          }
-
-          // 计算执行时长（毫秒）
-          const executionTime = Date.now() - startTime
-
-          // 将执行时长添加到结果中
-          resultCall.executionTime = executionTime
-
-          results.push(resultCall)
+    let executedCall = call
+    let approval: FunctionCall['approval']
+
+    if (func.requiresApproval) {
+      const decision = await this.requestApproval({ ...call, arguments: validation.data }, callback, signal, approvalHandler)
+
+      if (decision.type === 'deny') {
+        return {
+          ...call,
+          result: { error: `用户拒绝执行函数 '${call.name}'`, reason: decision.reason },
+          executionTime: 0,
+          attempts: 0,
+          approval: 'denied',
         }
-        catch (error: any) {
-          // 通知执行函数出错
-          callback?.(AgentEventType.ERROR, {
-            functionCall: call,
-            error: error.message,
-          })
-
-          // 捕获执行错误，返回错误信息
-          results.push({
-            ...call,
-            result: { error: error.message },
-            executionTime: 0, // 执行失败时记录时长为0
-          })
+      }
+
+      if (decision.type === 'edit') {
+        // 修改后的参数同样需要校验，执行结果中记录实际使用的参数
+        executedCall = { ...call, arguments: decision.arguments }
+        validation = ArgumentValidator.validate(func, decision.arguments)
+        if (!validation.success) {
+          return { ...this.createInvalidCall(executedCall, func, validation.issues, callback), approval: 'edited' }
         }
       }
-      else {
-        // 通知未找到函数
-        callback?.(AgentEventType.ERROR, {
-          functionCall: call,
-          error: `Function '${call.name}' not found`,
-        })
-
-        // 未找到对应函数，返回错误信息
-        results.push({
-          ...call,
-          result: { error: `Function '${call.name}' not found` },
-          executionTime: 0, // 未找到函数时记录时长为0
-        })
+
+      approval = decision.type === 'edit' ? 'edited' : 'approved'
+    }
+
+    // 回调或审批过程中可能已经取消了请求
+    AbortHelper.throwIfAborted(signal)
+
+    // 记录开始执行时间
+    const startTime = Date.now()
+
+    // 使用校验转换后的参数，按执行策略执行函数，失败时按策略重试
+    const { result, error, attempts } = await this.executeWithPolicy({ ...executedCall, arguments: validation.data }, func, mcpClient, signal)
+
+    if (error) {
+      return {
+        ...this.createFailedCall(executedCall, error.message, callback, startTime),
+        attempts,
+        failed: true,
+        ...(approval && { approval }),
       }
     }
 
-    // 通知函数调用结束
-    callback?.(AgentEventType.FUNCTION_CALL_END, { functionCalls: results })
+    // 添加执行结果和执行时长（毫秒）
+    return {
+      ...executedCall,
+      result,
+      executionTime: Date.now() - startTime,
+      attempts,
+      ...(approval && { approval }),
+    }
+  }
+
+  /**
+   * 请求审批函数调用
+   * 处理器出错时视为拒绝执行
+   * @param call 待审批的函数调用
+   * @param callback 回调函数
+   * @param signal 取消信号
+   * @param approvalHandler 审批处理器
+   * @returns 审批结果
+   */
+  private static async requestApproval(
+    call: FunctionCall,
+    callback?: AgentCallback,
+    signal?: AbortSignal,
+    approvalHandler?: FunctionApprovalHandler,
+  ): Promise<FunctionApprovalDecision> {
+    // 通知等待审批
+    callback?.(AgentEventType.FUNCTION_CALL_APPROVAL_REQUIRED, { functionCall: call })
+
+    if (!approvalHandler) {
+      return { type: 'deny', reason: '未设置审批处理器' }
+    }
+
+    try {
+      return await AbortHelper.race(Promise.resolve(approvalHandler(call, { signal })), signal)
+    }
+    catch (error: any) {
+      if (signal?.aborted) {
+        throw AbortHelper.createAbortError(signal)
+      }
+      return { type: 'deny', reason: error.message }
+    }
+  }
+
+  /**
+   * 创建执行失败的函数调用结果
+   * @param call 函数调用
+   * @param message 错误信息
+   * @param callback 回调函数
+   * @param startTime 开始处理的时间，用于计算执行时长，包括失败前的所有重试
+   * @returns 带错误信息的函数调用
+   */
+  private static createFailedCall(call: FunctionCall, message: string, callback?: AgentCallback, startTime = Date.now()): FunctionCall {
+    // 通知执行函数出错
+    callback?.(AgentEventType.ERROR, {
+      functionCall: call,
+      error: message,
+    })
+
+    return {
+      ...call,
+      result: { error: message },
+      executionTime: Date.now() - startTime,
+    }
+  }
+
+  /**
+   * 创建参数校验失败的函数调用结果
+   * 返回结构化的校验错误，模型可以在下一轮递归中修正参数
+   * @param call 函数调用
+   * @param func 函数定义
+   * @param issues 校验问题列表
+   * @param callback 回调函数
+   * @returns 带校验错误的函数调用
+   */
+  private static createInvalidCall(call: FunctionCall, func: AgentFunctionSchema, issues: ArgumentIssue[], callback?: AgentCallback): FunctionCall {
+    const failedCall = this.createFailedCall(call, ArgumentValidator.formatIssues(func, issues), callback)
+    return {
+      ...failedCall,
+      result: { ...failedCall.result, issues },
+      attempts: 0,
+    }
+  }
+
+  /**
+   * 检查函数在本轮对话中是否因失败次数过多而停用
+   * @param func 函数定义
+   * @param executedCalls 本轮对话中已执行的函数调用
+   * @returns 是否已停用
+   */
+  static isFunctionDisabled(func: AgentFunctionSchema, executedCalls: FunctionCall[]): boolean {
+    const maxFailures = func.policy?.maxFailures ?? DEFAULT_MAX_FAILURES
+    const failures = executedCalls.filter(call => call.name === func.name && call.failed).length
+    return failures >= maxFailures
+  }
+
+  /**
+   * 按执行策略执行函数
+   * 可重试的错误会在等待后重试，等待时间每次翻倍
+   * @param call 函数调用
+   * @param func 函数定义
+   * @param mcpClient MCP 客户端
+   * @param signal 取消信号
+   * @returns 执行结果或最后一次的错误，以及执行次数
+   */
+  private static async executeWithPolicy(
+    call: FunctionCall,
+    func: AgentFunctionSchema,
+    mcpClient?: Client,
+    signal?: AbortSignal,
+  ): Promise<{ result?: any, error?: Error, attempts: number }> {
+    const policy = func.policy || {}
+    const maxAttempts = Math.max(0, policy.retries || 0) + 1
+    const backoff = policy.backoff ?? DEFAULT_BACKOFF
+
+    for (let attempts = 1; ; attempts++) {
+      try {
+        const result = await this.invokeFunction(call, func, mcpClient, signal, policy.timeout)
 
-    return results
+        // 执行器可能没有响应取消信号，结果已无意义
+        AbortHelper.throwIfAborted(signal)
+
+        return { result, attempts }
+      }
+      catch (error: any) {
+        // 请求被取消时直接结束，不作为函数执行错误返回给模型
+        if (signal?.aborted) {
+          throw AbortHelper.createAbortError(signal)
+        }
+
+        const retryable = policy.retryable ? policy.retryable(error) : true
+        if (attempts >= maxAttempts || !retryable) {
+          return { error, attempts }
+        }
+
+        await AbortHelper.sleep(backoff * 2 ** (attempts - 1), signal)
+      }
+    }
+  }
+
+  /**
+   * 调用 MCP 工具
+   * MCP 服务通过 isError 返回工具执行错误，按执行失败处理，以便按策略重试和停用
+   * @param call 函数调用
+   * @param func 函数定义
+   * @param client MCP 客户端
+   * @param signal 取消信号
+   * @returns 工具执行结果
+   * @throws 工具返回错误时抛出错误，错误信息为结果中的文本内容
+   */
+  private static async callMcpTool(
+    call: FunctionCall,
+    func: AgentFunctionSchema,
+    client?: Client,
+    signal?: AbortSignal,
+  ): Promise<any> {
+    const result = await client?.callTool({
+      name: func.mcp?.toolName ?? func.name,
+      arguments: call.arguments,
+    }, undefined, { signal })
+
+    if (result?.isError) {
+      const message = Array.isArray(result.content)
+        ? result.content.filter((part: any) => part.type === 'text').map((part: any) => part.text).join('\n')
+        : ''
+      throw new Error(message || `MCP工具 '${func.name}' 执行失败`)
+    }
+    return result
+  }
+
+  /**
+   * 执行一次函数，超时后通过取消信号通知执行器停止
+   * MCP 工具通过其所属的客户端按原始工具名调用
+   * @param call 函数调用
+   * @param func 函数定义
+   * @param mcpClient MCP 客户端
+   * @param signal 取消信号
+   * @param timeout 超时时间（毫秒）
+   * @returns 函数执行结果
+   */
+  private static async invokeFunction(
+    call: FunctionCall,
+    func: AgentFunctionSchema,
+    mcpClient?: Client,
+    signal?: AbortSignal,
+    timeout?: number,
+  ): Promise<any> {
+    const client = func.mcp?.client ?? mcpClient
+    const invoke = (invokeSignal?: AbortSignal) => func.executor
+      ? func.executor(call.arguments, func.config, { signal: invokeSignal })
+      : this.callMcpTool(call, func, client, invokeSignal)
+
+    if (!timeout) {
+      return invoke(signal)
+    }
+
+    // 超时或外部取消时都会取消本次执行
+    const controller = new AbortController()
+    const onAbort = () => controller.abort(signal?.reason)
+    signal?.addEventListener('abort', onAbort, { once: true })
+    const timer = setTimeout(() => controller.abort(), timeout)
+
+    try {
+      return await AbortHelper.race(Promise.resolve(invoke(controller.signal)), controller.signal)
+    }
+    catch (error) {
+      if (controller.signal.aborted && !signal?.aborted) {
+        const timeoutError = new Error(`函数 '${func.name}' 执行超时（${timeout}ms）`)
+        timeoutError.name = 'TimeoutError'
+        throw timeoutError
+      }
+      throw error
+    }
+    finally {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+    }
   }
 }
@@ -0,0 +1,35 @@
+/**
+ * 历史记录处理工具类
+ * 用于在裁剪历史记录时保持对话轮次的完整
+ */
+import type { ChatMessage } from '../types'
+import { ChatRole } from '../types'
+
+export class HistoryHelper {
+  /**
+   * 拆分历史记录开头的系统消息和其余消息
+   * @param history 历史记录
+   * @returns 开头的系统消息和其余消息
+   */
+  static splitSystemMessages(history: ChatMessage[]): { system: ChatMessage[], messages: ChatMessage[] } {
+    const index = history.findIndex(message => message.role !== ChatRole.SYSTEM)
+    const splitAt = index === -1 ? history.length : index
+    return { system: history.slice(0, splitAt), messages: history.slice(splitAt) }
+  }
+
+  /**
+   * 查找从指定位置开始的第一条用户消息
+   * 从对话轮次的开头裁剪，避免留下没有对应工具调用的工具结果或没有问题的回答
+   * @param history 历史记录
+   * @param index 开始查找的位置
+   * @returns 用户消息的位置，找不到时返回历史记录的长度
+   */
+  static findTurnStart(history: ChatMessage[], index: number): number {
+    for (let i = Math.max(0, index); i < history.length; i++) {
+      if (history[i].role === ChatRole.USER) {
+        return i
+      }
+    }
+    return history.length
+  }
+}
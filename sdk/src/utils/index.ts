@@ -1,6 +1,16 @@
+export * from './abort-helper'
+export * from './argument-validator'
+export * from './content-helper'
 export * from './function-call-executor'
 export * from './function-call-parser'
+export * from './history-helper'
 export * from './json-helper'
+export * from './mcp-content-helper'
+export * from './mcp-server'
 export * from './model-helpers'
 export * from './prompt'
 export * from './prompt-enhancer'
+export * from './response-validator'
+export * from './semaphore'
+export * from './sse-parser'
+export * from './token-estimator'
@@ -32,6 +32,27 @@ export class JsonHelper {
     }
   }
 
+  /**
+   * 解析 JSON 字符串
+   * 解析失败时尝试修复（如去掉代码块标记、补全括号）后再次解析
+   * @param content 要解析的内容
+   * @returns 解析后的值
+   * @throws 修复后仍然无法解析时抛出错误
+   */
+  static parseJson(content: string): any {
+    try {
+      return JSON.parse(content)
+    }
+    catch {
+      try {
+        return JSON.parse(jsonrepair(content))
+      }
+      catch (error: any) {
+        throw new Error(`无法解析JSON: ${error.message}`)
+      }
+    }
+  }
+
   /**
    * 安全解析 JSON 字符串
    * 如果解析失败，会尝试修复并再次解析
@@ -0,0 +1,63 @@
+/**
+ * MCP 内容转换工具类
+ * 用于将 MCP 资源和提示模板中的内容转换为消息内容片段
+ */
+import type { PromptMessage, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js'
+import type { ContentPart } from '../types'
+
+/** MCP 资源内容 */
+type ResourceContents = ReadResourceResult['contents'][number]
+
+export class McpContentHelper {
+  /**
+   * 将资源内容转换为内容片段
+   * 文本内容转换为文本片段，二进制内容按 MIME 类型转换为图片、音频或文件片段
+   * @param contents 资源内容列表
+   * @returns 内容片段列表
+   */
+  static fromResourceContents(contents: ResourceContents[]): ContentPart[] {
+    return contents.map((content): ContentPart => {
+      if (typeof content.text === 'string') {
+        return { type: 'text', text: content.text }
+      }
+      return this.fromBlob(String(content.blob ?? ''), content.mimeType, content.uri)
+    })
+  }
+
+  /**
+   * 将提示模板消息的内容转换为内容片段
+   * @param content 提示模板消息的内容
+   * @returns 内容片段列表，不支持的内容类型返回空数组
+   */
+  static fromPromptContent(content: PromptMessage['content']): ContentPart[] {
+    switch (content.type) {
+      case 'text':
+        return [{ type: 'text', text: content.text }]
+      case 'image':
+        return [{ type: 'image', data: content.data, mimeType: content.mimeType }]
+      case 'audio':
+        return [{ type: 'audio', data: content.data, mimeType: content.mimeType }]
+      case 'resource':
+        return this.fromResourceContents([content.resource])
+      default:
+        return []
+    }
+  }
+
+  /**
+   * 将 base64 编码的二进制内容转换为内容片段
+   * @param data base64 编码的数据
+   * @param mimeType MIME 类型，未知时按二进制文件处理
+   * @param uri 资源 URI，作为文件名
+   * @returns 内容片段
+   */
+  private static fromBlob(data: string, mimeType = 'application/octet-stream', uri?: string): ContentPart {
+    if (mimeType.startsWith('image/')) {
+      return { type: 'image', data, mimeType }
+    }
+    if (mimeType.startsWith('audio/')) {
+      return { type: 'audio', data, mimeType }
+    }
+    return { type: 'file', data, mimeType, name: uri }
+  }
+}
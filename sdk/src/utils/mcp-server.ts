@@ -0,0 +1,61 @@
+/**
+ * MCP 服务工具
+ * 用于将 UnifiedAI 上添加的函数发布为 MCP 服务
+ */
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import type { UnifiedAI } from '../models/unified'
+import type { FunctionCall, McpServerOptions } from '../types'
+import { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+import { ModelHelpers } from './model-helpers'
+
+/**
+ * 创建发布 UnifiedAI 函数的 MCP 服务
+ * 只发布通过 addFunction 添加的函数，不包括 MCP 客户端提供的工具
+ * 调用时按参数模式校验参数、按执行策略执行，需要审批的函数交给 UnifiedAI 的审批处理器
+ * @param ai UnifiedAI 实例
+ * @param options 服务选项
+ * @returns 未连接的 MCP 服务，连接传输层后即可使用
+ */
+export function createMcpServer(ai: UnifiedAI, options: McpServerOptions = {}): Server {
+  const server = new Server(
+    { name: options.name || 'unified-ai', version: options.version || '1.0.0' },
+    { capabilities: { tools: {} } },
+  )
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: ai.getLocalTools().map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: ModelHelpers.normalizeToolParameters(tool.parameters) as { type: 'object' },
+    })),
+  }))
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const call = await ai.callFunction(request.params.name, request.params.arguments, extra.signal)
+    return toCallToolResult(call)
+  })
+
+  return server
+}
+
+/**
+ * 将函数调用结果转换为 MCP 工具调用结果
+ * 未执行（函数不存在、参数不合法或被拒绝）和执行失败的调用标记为错误
+ * @param call 带执行结果的函数调用
+ * @returns MCP 工具调用结果
+ */
+function toCallToolResult(call: FunctionCall): CallToolResult {
+  const { result } = call
+  const isError = !call.attempts || !!call.failed
+
+  // 执行器已经返回了 MCP 格式的结果
+  if (!isError && Array.isArray(result?.content)) {
+    return result
+  }
+
+  return {
+    content: [{ type: 'text', text: typeof result === 'string' ? result : JSON.stringify(result ?? null) }],
+    isError,
+  }
+}
@@ -1,6 +1,7 @@
 import type { BaseModel } from '../base'
-import type { AgentFunctionSchema, ChatMessage, ChatOptions } from '../types'
+import type { AgentFunctionSchema, ChatMessage, ChatOptions, FunctionCall, MessageContent, TokenUsage } from '../types'
 import { ChatRole } from '../types'
+import { ContentHelper } from './content-helper'
 import { getToolEnhancedPrompt } from './prompt'
 
 /**
@@ -27,6 +28,25 @@ export class ModelHelpers {
     return model.convertToolsFormat(tools)
   }
 
+  /**
+   * 将工具参数规范化为 JSON Schema 对象
+   * 兼容直接以属性名为键、附带 required 数组的简写形式
+   * @param parameters 原始参数定义
+   * @returns JSON Schema 格式的参数定义
+   */
+  static normalizeToolParameters(parameters: Record<string, any> = {}): Record<string, any> {
+    if (parameters.type || parameters.properties) {
+      return { type: 'object', properties: {}, ...parameters }
+    }
+
+    const { required, ...properties } = parameters
+    return {
+      type: 'object',
+      properties,
+      required: Array.isArray(required) ? required : [],
+    }
+  }
+
   /**
    * 融合 content 和 tools，创建适合不支持 tools 的模型的增强提示
    * @param content 原始提示内容
@@ -67,7 +87,7 @@ export class ModelHelpers {
       if (message.role === ChatRole.SYSTEM) {
         if (systemContent)
           systemContent += '\n\n'
-        systemContent += message.content
+        systemContent += ContentHelper.getText(message.content)
       }
       else {
         processedMessages.push(message)
@@ -93,6 +113,21 @@ export class ModelHelpers {
     return processedMessages
   }
 
+  /**
+   * 合并选项中的系统消息和历史记录中的系统消息
+   * 历史记录中的系统消息（如对话摘要）放在选项中的系统消息之后
+   * @param systemMessage 选项中的系统消息
+   * @param history 历史记录
+   * @returns 合并后的系统消息，都没有时返回 undefined
+   */
+  static mergeSystemMessages(systemMessage: string | undefined, history: ChatMessage[] = []): string | undefined {
+    const texts = [
+      systemMessage,
+      ...history.filter(message => message.role === ChatRole.SYSTEM).map(message => ContentHelper.getText(message.content)),
+    ].filter(Boolean)
+    return texts.length > 0 ? texts.join('\n\n') : undefined
+  }
+
   /**
    * 准备聊天选项，根据模型能力增强选项
    * @param options 原始选项
@@ -120,4 +155,65 @@ export class ModelHelpers {
 
     return enhancedOptions as T
   }
+
+  /**
+   * 构建一轮原生函数调用对应的历史消息
+   * 依次为用户提示（为空时省略）、携带工具调用的助手消息和每个工具的执行结果
+   * @param prompt 本轮发送给模型的提示
+   * @param content 模型在发起工具调用时输出的文本
+   * @param functionCalls 已执行的函数调用
+   * @returns 可追加到历史记录中的消息
+   */
+  static createFunctionCallMessages(prompt: MessageContent, content: string, functionCalls: FunctionCall[]): ChatMessage[] {
+    const messages: ChatMessage[] = []
+
+    if (!ContentHelper.isEmpty(prompt)) {
+      messages.push({ role: ChatRole.USER, content: prompt })
+    }
+
+    messages.push({
+      role: ChatRole.ASSISTANT,
+      content,
+      toolCalls: functionCalls.map(call => ({
+        id: call.id,
+        name: call.name,
+        arguments: call.arguments || {},
+      })),
+    })
+
+    for (const call of functionCalls) {
+      messages.push({
+        role: ChatRole.TOOL,
+        content: JSON.stringify(call.result ?? null),
+        toolCallId: call.id,
+        name: call.name,
+      })
+    }
+
+    return messages
+  }
+
+  /**
+   * 累加多次请求的 token 使用情况
+   * @param usages token 使用情况列表，可以包含 undefined
+   * @returns 累加后的 token 使用情况，全部为空时返回 undefined
+   */
+  static mergeUsage(...usages: (TokenUsage | undefined)[]): TokenUsage | undefined {
+    let merged: TokenUsage | undefined
+
+    for (const usage of usages) {
+      if (!usage) {
+        continue
+      }
+
+      merged = merged || {}
+      for (const key of ['promptTokens', 'completionTokens', 'totalTokens'] as const) {
+        if (usage[key] !== undefined) {
+          merged[key] = (merged[key] || 0) + usage[key]
+        }
+      }
+    }
+
+    return merged
+  }
 }
@@ -1,10 +1,11 @@
-import type { AgentFunctionSchema, ChatOptions } from '../types'
+import type { AgentFunctionSchema, ChatOptions, MessageContent } from '../types'
 /**
  * prompt.ts
  *
  * 集中管理 SDK 中使用的所有提示模板
  */
 import { ResponseFormat } from '../types'
+import { ContentHelper } from './content-helper'
 
 /**
  * 通用系统提示
@@ -152,6 +153,68 @@ export const THINKING_HISTORY_PROMPT = `以下是用户的历史对话记录，
 
 %s`
 
+/**
+ * MCP 资源上下文提示
+ * 用于将用户附加的资源内容放在问题之前
+ */
+export const RESOURCE_CONTEXT_PROMPT = `用户附加了以下资源作为上下文，回答时请参考这些内容：
+
+%s
+
+用户的问题：
+%s`
+
+/**
+ * 函数结果截断提示
+ * 用于标记因超出上下文预算而被截断的函数结果
+ */
+export const TRUNCATED_FUNCTION_RESULT_TEMPLATE = `%s
+...（结果过长，已截断，原始结果共 %d 个字符）`
+
+/**
+ * 对话摘要提示
+ * 用于将较早的历史消息压缩为摘要，依次填入之前的摘要和需要压缩的对话
+ */
+export const CONVERSATION_SUMMARY_PROMPT = `请将下面的对话压缩为一份简洁的摘要，供之后的对话参考。
+要求：
+1. 保留用户的目标、偏好、已确认的事实和结论，以及尚未完成的事项
+2. 保留关键的数据、名称和工具执行结果，省略寒暄和重复的内容
+3. 如果有之前的摘要，将其中仍然有效的内容合并到新的摘要中
+4. 使用对话中用户使用的语言，只输出摘要内容
+
+之前的摘要：
+%s
+
+需要压缩的对话：
+%s`
+
+/**
+ * 对话摘要上下文提示
+ * 用于将摘要作为系统消息放在历史记录开头
+ */
+export const CONVERSATION_SUMMARY_CONTEXT_PROMPT = `以下是之前对话的摘要，回答时请参考这些内容：
+<conversation_summary>
+%s
+</conversation_summary>`
+
+/**
+ * 响应模式提示
+ * 用于要求模型按指定的 JSON Schema 返回内容，填入 JSON Schema
+ */
+export const RESPONSE_SCHEMA_PROMPT = `请只返回一个符合以下 JSON Schema 的 JSON，不要包含代码块标记或任何其他说明文字：
+<response_schema>
+%s
+</response_schema>`
+
+/**
+ * 响应模式重试提示
+ * 用于在返回内容校验失败后要求模型修正，填入校验问题
+ */
+export const RESPONSE_SCHEMA_RETRY_PROMPT = `你上一次返回的内容不符合要求的 JSON 格式：
+%s
+
+请修正上述问题，重新返回完整的内容，只返回 JSON，不要包含任何其他说明文字。`
+
 /**
  * 获取增强的系统消息
  *
@@ -198,7 +261,7 @@ export function getThinkingPrompt(prompt: string): string {
 export function getThinkingWithToolsPrompt(
   prompt: string,
   toolsDescription: string,
-  history?: { role: string, content: string }[],
+  history?: { role: string, content: MessageContent }[],
   systemMessage?: string,
 ): string {
   const baseThinkingPrompt = getThinkingPrompt(prompt)
@@ -207,7 +270,7 @@ export function getThinkingWithToolsPrompt(
   let historyPart = ''
   if (history && history.length > 0) {
     const historyText = history.map(msg =>
-      `${msg.role === 'user' ? '用户' : '助手'}: ${msg.content}`,
+      `${msg.role === 'user' ? '用户' : msg.role === 'tool' ? '工具结果' : '助手'}: ${ContentHelper.getText(msg.content)}`,
     ).join('\n\n')
 
     historyPart = `\n\n${THINKING_HISTORY_PROMPT.replace('%s', historyText)}`
@@ -287,3 +350,78 @@ export function getFunctionFollowupPrompt(
 export function getMaxRecursionDepthWarning(depth: number, cleanContent: string): string {
   return MAX_RECURSION_DEPTH_WARNING.replace('%d', (depth + 1).toString()).replace('%s', cleanContent)
 }
+
+/**
+ * 获取附加了资源内容的提示
+ *
+ * @param resources 资源 URI 及其文本内容
+ * @param prompt 用户原始提示
+ * @returns 包含资源内容的提示
+ */
+export function getResourceContextPrompt(resources: { uri: string, text: string }[], prompt: string): string {
+  const resourcesText = resources
+    .map(resource => `<resource uri="${resource.uri}">\n${resource.text}\n</resource>`)
+    .join('\n\n')
+  // 资源内容中可能包含占位符或 $ 等替换模式，一次性按顺序替换模板中的占位符
+  const values = [resourcesText, prompt]
+  return RESOURCE_CONTEXT_PROMPT.replace(/%s/g, () => values.shift() || '')
+}
+
+/**
+ * 获取对话摘要提示
+ *
+ * @param previousSummary 之前的摘要
+ * @param messages 需要压缩的历史消息
+ * @returns 对话摘要提示
+ */
+export function getConversationSummaryPrompt(previousSummary: string | undefined, messages: { role: string, content: MessageContent }[]): string {
+  const conversationText = messages.map(msg =>
+    `${msg.role === 'user' ? '用户' : msg.role === 'tool' ? '工具结果' : msg.role === 'system' ? '系统' : '助手'}: ${ContentHelper.getText(msg.content)}`,
+  ).join('\n\n')
+  // 对话内容中可能包含占位符或 $ 等替换模式，一次性按顺序替换模板中的占位符
+  const values = [previousSummary || '无', conversationText]
+  return CONVERSATION_SUMMARY_PROMPT.replace(/%s/g, () => values.shift() || '')
+}
+
+/**
+ * 获取对话摘要上下文提示
+ *
+ * @param summary 摘要内容
+ * @returns 放在历史记录开头的系统消息
+ */
+export function getConversationSummaryContextPrompt(summary: string): string {
+  return CONVERSATION_SUMMARY_CONTEXT_PROMPT.replace('%s', () => summary)
+}
+
+/**
+ * 获取截断后的函数结果
+ *
+ * @param result 序列化后的完整函数结果
+ * @param maxLength 保留的最大字符数
+ * @returns 截断后的函数结果
+ */
+export function getTruncatedFunctionResult(result: string, maxLength: number): string {
+  return TRUNCATED_FUNCTION_RESULT_TEMPLATE
+    .replace('%d', result.length.toString())
+    .replace('%s', () => result.slice(0, maxLength))
+}
+
+/**
+ * 获取响应模式提示
+ *
+ * @param jsonSchema 响应模式对应的 JSON Schema
+ * @returns 响应模式提示
+ */
+export function getResponseSchemaPrompt(jsonSchema: Record<string, any>): string {
+  return RESPONSE_SCHEMA_PROMPT.replace('%s', () => JSON.stringify(jsonSchema, null, 2))
+}
+
+/**
+ * 获取响应模式重试提示
+ *
+ * @param issues 格式化后的校验问题
+ * @returns 响应模式重试提示
+ */
+export function getResponseSchemaRetryPrompt(issues: string): string {
+  return RESPONSE_SCHEMA_RETRY_PROMPT.replace('%s', () => issues)
+}
@@ -0,0 +1,125 @@
+/**
+ * 响应内容校验工具类
+ * 用于按响应模式解析并校验模型返回的 JSON 内容
+ */
+import type { ValidateFunction } from 'ajv'
+import type { ArgumentIssue, ResponseSchema } from '../types'
+import Ajv from 'ajv'
+import { z } from 'zod'
+import zodToJsonSchema from 'zod-to-json-schema'
+import { JsonHelper } from './json-helper'
+
+/** 响应内容校验结果 */
+export type ResponseValidationResult =
+  | { success: true, data: any }
+  | { success: false, issues: ArgumentIssue[] }
+
+export class ResponseValidator {
+  /** 允许类型转换和默认值的 JSON Schema 校验器，忽略不认识的关键字 */
+  private static ajv = new Ajv({ allErrors: true, coerceTypes: true, useDefaults: true, strict: false })
+
+  /** 已编译的校验函数，按响应模式缓存 */
+  private static compiled = new WeakMap<object, ValidateFunction | null>()
+
+  /** Zod 模式转换后的 JSON Schema，按响应模式缓存 */
+  private static jsonSchemas = new WeakMap<object, Record<string, any>>()
+
+  /**
+   * 获取响应模式对应的 JSON Schema
+   * @param schema 响应模式
+   * @returns JSON Schema，Zod 模式会被转换并展开所有引用
+   */
+  static toJsonSchema(schema: ResponseSchema): Record<string, any> {
+    if (!(schema instanceof z.ZodType)) {
+      return schema
+    }
+    if (!this.jsonSchemas.has(schema)) {
+      const jsonSchema: Record<string, any> = zodToJsonSchema(schema, { $refStrategy: 'none', strictUnions: true })
+      delete jsonSchema.$schema
+      this.jsonSchemas.set(schema, jsonSchema)
+    }
+    return this.jsonSchemas.get(schema)!
+  }
+
+  /**
+   * 按响应模式校验响应内容
+   * 字符串内容先按 JSON 解析，有 Zod 模式时使用 safeParse，否则按 JSON Schema 校验
+   * @param schema 响应模式
+   * @param content 模型返回的内容
+   * @returns 校验通过时返回解析后的数据，否则返回校验问题列表
+   */
+  static validate(schema: ResponseSchema, content: unknown): ResponseValidationResult {
+    let data = content
+    if (typeof content === 'string') {
+      try {
+        data = JsonHelper.parseJson(content)
+      }
+      catch (error: any) {
+        return { success: false, issues: [{ path: '', message: error.message }] }
+      }
+    }
+
+    if (schema instanceof z.ZodType) {
+      const parsed = schema.safeParse(data)
+      if (parsed.success) {
+        return { success: true, data: parsed.data }
+      }
+      return {
+        success: false,
+        issues: parsed.error.issues.map(issue => ({
+          path: issue.path.join('.'),
+          message: issue.message,
+        })),
+      }
+    }
+
+    const validate = this.compile(schema)
+    if (!validate) {
+      return { success: true, data }
+    }
+
+    // 类型转换和默认值会直接修改数据，复制一份避免影响原始内容
+    const copy = structuredClone(data)
+    if (validate(copy)) {
+      return { success: true, data: copy }
+    }
+
+    return {
+      success: false,
+      issues: (validate.errors || []).map(error => ({
+        path: [
+          ...error.instancePath.split('/').filter(Boolean),
+          ...(error.keyword === 'required' ? [error.params.missingProperty] : []),
+        ].join('.'),
+        message: error.message || '内容不合法',
+      })),
+    }
+  }
+
+  /**
+   * 将校验问题格式化为文本
+   * @param issues 校验问题列表
+   * @returns 每行一个问题的文本
+   */
+  static formatIssues(issues: ArgumentIssue[]): string {
+    return issues.map(issue => `- ${issue.path || '(root)'}: ${issue.message}`).join('\n')
+  }
+
+  /**
+   * 编译并缓存 JSON Schema 校验函数
+   * @param schema JSON Schema
+   * @returns 校验函数，无法编译时返回 null
+   */
+  private static compile(schema: Record<string, any>): ValidateFunction | null {
+    if (!this.compiled.has(schema)) {
+      try {
+        this.compiled.set(schema, this.ajv.compile(schema))
+      }
+      catch (error: any) {
+        console.warn(`无法编译响应模式，跳过内容校验: ${error.message}`)
+        this.compiled.set(schema, null)
+      }
+    }
+    return this.compiled.get(schema) ?? null
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * 信号量
+ * 用于限制同时执行的异步任务数量
+ */
+export class Semaphore {
+  private available: number
+  private waiting: Array<() => void> = []
+
+  /**
+   * 构造函数
+   * @param limit 最大并发数，小于1时按1处理
+   */
+  constructor(limit: number) {
+    this.available = Math.max(1, Math.floor(limit) || 1)
+  }
+
+  /**
+   * 获取一个执行名额，没有空闲名额时等待
+   */
+  async acquire(): Promise<void> {
+    if (this.available > 0) {
+      this.available--
+      return
+    }
+    await new Promise<void>(resolve => this.waiting.push(resolve))
+  }
+
+  /**
+   * 释放执行名额，有等待者时直接交给下一个等待者
+   */
+  release(): void {
+    const next = this.waiting.shift()
+    if (next) {
+      next()
+    }
+    else {
+      this.available++
+    }
+  }
+
+  /**
+   * 在名额限制内执行任务
+   * @param task 要执行的任务
+   * @returns 任务结果
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire()
+    try {
+      return await task()
+    }
+    finally {
+      this.release()
+    }
+  }
+}
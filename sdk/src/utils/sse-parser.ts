@@ -0,0 +1,117 @@
+/**
+ * SSE 事件
+ */
+export interface SSEEvent {
+  /** 事件名称 */
+  event?: string
+  /** 事件数据 */
+  data: string
+}
+
+/**
+ * SSE 解析器
+ * 用于解析 HTTP 流式响应中的 Server-Sent Events
+ */
+export class SSEParser {
+  /**
+   * 解析 SSE 响应体
+   * @param body fetch 返回的响应体
+   * @returns 逐个返回 SSE 事件的异步生成器
+   */
+  static async* parse(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent, void, unknown> {
+    const reader = body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) {
+          break
+        }
+
+        buffer += decoder.decode(value, { stream: true })
+
+        // 事件之间以空行分隔
+        let separatorIndex = this.findEventSeparator(buffer)
+        while (separatorIndex !== -1) {
+          const rawEvent = buffer.substring(0, separatorIndex)
+          buffer = buffer.substring(separatorIndex).replace(/^(?:\r?\n){2}/, '')
+
+          const event = this.parseEvent(rawEvent)
+          if (event) {
+            yield event
+          }
+
+          separatorIndex = this.findEventSeparator(buffer)
+        }
+      }
+
+      // 处理流结束时剩余的内容
+      buffer += decoder.decode()
+      const event = this.parseEvent(buffer)
+      if (event) {
+        yield event
+      }
+    }
+    finally {
+      reader.releaseLock()
+    }
+  }
+
+  /**
+   * 查找事件分隔符（空行）的位置
+   * @param buffer 缓冲区内容
+   * @returns 分隔符位置，未找到时返回 -1
+   */
+  private static findEventSeparator(buffer: string): number {
+    const lfIndex = buffer.indexOf('\n\n')
+    const crlfIndex = buffer.indexOf('\r\n\r\n')
+
+    if (lfIndex === -1) {
+      return crlfIndex
+    }
+    if (crlfIndex === -1) {
+      return lfIndex
+    }
+    return Math.min(lfIndex, crlfIndex)
+  }
+
+  /**
+   * 解析单个事件文本
+   * @param rawEvent 事件原始文本
+   * @returns 解析后的事件，没有数据时返回 undefined
+   */
+  private static parseEvent(rawEvent: string): SSEEvent | undefined {
+    if (!rawEvent.trim()) {
+      return undefined
+    }
+
+    let event: string | undefined
+    const dataLines: string[] = []
+
+    for (const line of rawEvent.split(/\r?\n/)) {
+      // 以冒号开头的是注释行
+      if (!line || line.startsWith(':')) {
+        continue
+      }
+
+      const colonIndex = line.indexOf(':')
+      const field = colonIndex === -1 ? line : line.substring(0, colonIndex)
+      const value = colonIndex === -1 ? '' : line.substring(colonIndex + 1).replace(/^ /, '')
+
+      if (field === 'event') {
+        event = value
+      }
+      else if (field === 'data') {
+        dataLines.push(value)
+      }
+    }
+
+    if (dataLines.length === 0) {
+      return undefined
+    }
+
+    return { event, data: dataLines.join('\n') }
+  }
+}
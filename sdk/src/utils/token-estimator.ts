@@ -0,0 +1,76 @@
+/**
+ * Token 估算工具类
+ * 在无法调用模型计算 token 时，按字符粗略估算消息占用的 token 数
+ */
+import type { ChatMessage, ChatOptions, MessageContent } from '../types'
+import { ContentHelper } from './content-helper'
+
+/** 中日韩字符，通常每个字符约占一个 token */
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu
+
+/** 图片、音频、文件等非文本片段按固定数量估算 */
+const ATTACHMENT_TOKENS = 258
+
+/** 每条消息的角色等格式开销 */
+const MESSAGE_OVERHEAD_TOKENS = 4
+
+export class TokenEstimator {
+  /**
+   * 估算文本的 token 数
+   * 中日韩字符每个按一个 token 计算，其他字符每四个按一个 token 计算
+   * @param text 文本
+   * @returns 估算的 token 数
+   */
+  static estimateText(text: string): number {
+    if (!text) {
+      return 0
+    }
+    const cjkCount = text.match(CJK_PATTERN)?.length || 0
+    return cjkCount + Math.ceil((text.length - cjkCount) / 4)
+  }
+
+  /**
+   * 估算消息内容的 token 数
+   * @param content 消息内容
+   * @returns 估算的 token 数
+   */
+  static estimateContent(content: MessageContent): number {
+    return ContentHelper.toParts(content).reduce((total, part) => {
+      return total + (part.type === 'text' ? this.estimateText(part.text) : ATTACHMENT_TOKENS)
+    }, 0)
+  }
+
+  /**
+   * 估算单条消息的 token 数，包含工具调用参数
+   * @param message 消息
+   * @returns 估算的 token 数
+   */
+  static estimateMessage(message: ChatMessage): number {
+    const toolCallTokens = (message.toolCalls || []).reduce((total, call) => {
+      return total + this.estimateText(call.name) + this.estimateText(JSON.stringify(call.arguments || {}))
+    }, 0)
+    return MESSAGE_OVERHEAD_TOKENS + this.estimateContent(message.content) + toolCallTokens
+  }
+
+  /**
+   * 估算消息列表的 token 数
+   * @param messages 消息列表
+   * @returns 估算的 token 数
+   */
+  static estimateMessages(messages: ChatMessage[]): number {
+    return messages.reduce((total, message) => total + this.estimateMessage(message), 0)
+  }
+
+  /**
+   * 估算一次请求的 token 数，包含系统消息、工具定义、历史记录和提示
+   * @param prompt 提示/消息内容
+   * @param options 聊天请求选项
+   * @returns 估算的 token 数
+   */
+  static estimateRequest(prompt: MessageContent, options?: ChatOptions): number {
+    return this.estimateContent(prompt)
+      + this.estimateMessages(options?.history || [])
+      + this.estimateText(options?.systemMessage || '')
+      + (options?.tools ? this.estimateText(JSON.stringify(options.tools)) : 0)
+  }
+}
@@ -0,0 +1,40 @@
+describe('config tests', () => {
+  const prices = process.env.USAGE_PRICES;
+
+  afterEach(() => {
+    if (prices === undefined) {
+      delete process.env.USAGE_PRICES;
+    } else {
+      process.env.USAGE_PRICES = prices;
+    }
+    jest.restoreAllMocks();
+  });
+
+  const loadConfig = () => {
+    let loaded: typeof import('../config');
+    jest.isolateModules(() => {
+      loaded = require('../config');
+    });
+    return loaded!.config;
+  };
+
+  it('USAGE_PRICES 覆盖或补充默认价格', () => {
+    process.env.USAGE_PRICES = '{"gemini-2.0-flash":{"input":1,"output":2},"gemini-2.5-pro":{"input":1.25,"output":10}}';
+
+    const config = loadConfig();
+
+    expect(config.usage.prices['gemini-2.0-flash']).toEqual({ input: 1, output: 2 });
+    expect(config.usage.prices['gemini-2.5-pro']).toEqual({ input: 1.25, output: 10 });
+    expect(config.usage.prices['gemini-1.5-pro']).toEqual({ input: 1.25, output: 5 });
+  });
+
+  it('USAGE_PRICES 格式不正确时输出警告并使用默认价格', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    for (const value of ['{gemini', '[1, 2]']) {
+      process.env.USAGE_PRICES = value;
+      expect(loadConfig().usage.prices['gemini-2.0-flash']).toEqual({ input: 0.1, output: 0.4 });
+    }
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+});
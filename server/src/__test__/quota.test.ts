@@ -0,0 +1,66 @@
+import { config } from '../config';
+import { UserQuotaRepository } from '../repositories/UserQuotaRepository';
+import { QuotaExceededError, QuotaService } from '../services/QuotaService';
+
+// 用内存中的计数代替数据库
+jest.mock('../repositories/UserQuotaRepository', () => ({ UserQuotaRepository: jest.fn() }));
+
+describe('quota tests', () => {
+  const quota = { ...config.quota };
+  let requestCount: number;
+  let totalTokens: number;
+
+  beforeEach(() => {
+    requestCount = 0;
+    totalTokens = 0;
+    (UserQuotaRepository as jest.Mock).mockImplementation(() => ({
+      findByUserIdAndDate: jest.fn(async () => ({ requestCount, totalTokens })),
+      tryIncrementRequests: jest.fn(async (_userId: string, _date: string, limit: number) => {
+        // 模拟数据库查询的延迟，让并发请求交错执行
+        await new Promise(resolve => setImmediate(resolve));
+        if (limit > 0 && requestCount >= limit) {
+          return false;
+        }
+        requestCount++;
+        return true;
+      }),
+    }));
+  });
+
+  afterEach(() => {
+    Object.assign(config.quota, quota);
+  });
+
+  it('并发请求不会超出每分钟和每日的请求数', async () => {
+    Object.assign(config.quota, { requestsPerMinute: 2, requestsPerDay: 3, tokensPerDay: 0 });
+    const service = new QuotaService();
+
+    const results = await Promise.allSettled(Array.from({ length: 5 }, () => service.consume('user_1')));
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(2);
+    expect(requestCount).toBe(2);
+
+    // 每日请求数的检查和增加是原子的
+    const daily = await Promise.allSettled(['user_2', 'user_3'].map(userId => service.consume(userId)));
+    expect(daily.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((daily[1] as PromiseRejectedResult).reason).toMatchObject({ code: 'DAILY_REQUESTS_EXCEEDED' });
+    expect(requestCount).toBe(3);
+  });
+
+  it('没有记录的请求归还每分钟的请求数，一分钟内没有请求的用户被清理', async () => {
+    Object.assign(config.quota, { requestsPerMinute: 1, requestsPerDay: 0, tokensPerDay: 100 });
+    const service = new QuotaService();
+    const now = Date.now();
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    totalTokens = 100;
+    await expect(service.consume('user_1')).rejects.toThrow(QuotaExceededError);
+    totalTokens = 0;
+    await expect(service.consume('user_1')).resolves.toBeUndefined();
+    await expect(service.consume('user_1')).rejects.toMatchObject({ code: 'RATE_LIMITED' });
+
+    spy.mockReturnValue(now + 61 * 1000);
+    await service.consume('user_2');
+    expect([...(service as any).recentRequests.keys()]).toEqual(['user_2']);
+    spy.mockRestore();
+  });
+});
@@ -0,0 +1,26 @@
+import { ToolApprovalService } from '../services/ToolApprovalService';
+
+describe('tool approval tests', () => {
+  it('提交审批结果后返回给等待的调用，其他用户不能提交', async () => {
+    const service = new ToolApprovalService();
+    const { approvalId, decision } = service.request('user_1');
+
+    expect(service.respond(approvalId, 'user_2', { type: 'approve' })).toBe(false);
+    expect(service.respond(approvalId, 'user_1', { type: 'approve' })).toBe(true);
+    await expect(decision).resolves.toEqual({ type: 'approve' });
+    expect(service.respond(approvalId, 'user_1', { type: 'approve' })).toBe(false);
+  });
+
+  it('请求取消时拒绝执行，已取消的请求直接拒绝', async () => {
+    const service = new ToolApprovalService();
+    const controller = new AbortController();
+    const pending = service.request('user_1', controller.signal);
+
+    controller.abort();
+    await expect(pending.decision).resolves.toEqual({ type: 'deny', reason: '请求已取消' });
+
+    const aborted = service.request('user_1', controller.signal);
+    await expect(aborted.decision).resolves.toEqual({ type: 'deny', reason: '请求已取消' });
+    expect(service.respond(aborted.approvalId, 'user_1', { type: 'approve' })).toBe(false);
+  });
+});
@@ -0,0 +1,60 @@
+import { MockModel, UnifiedAI } from '@oukek/unified-ai';
+import { UsageLedgerService } from '../services/UsageLedgerService';
+
+// 只检查记录的内容，不连接数据库
+jest.mock('../repositories/UsageRecordRepository', () => ({ UsageRecordRepository: jest.fn() }));
+
+describe('usage ledger tests', () => {
+  it('流式请求按调用顺序记录用量，函数执行记录到发起调用的那一条', async () => {
+    const service = new UsageLedgerService();
+    const save = jest.spyOn(service, 'save').mockResolvedValue();
+    const session = service.createSession('user_1', 'conversation_1');
+    const weatherFunction = {
+      name: 'getWeather',
+      description: '获取指定城市的天气信息',
+      parameters: { type: 'object', properties: { city: { type: 'string' } } },
+      executor: jest.fn(async ({ city }) => ({ city, condition: '晴朗' })),
+    };
+    const model = new MockModel({
+      responses: [
+        {
+          functionCalls: [{ id: 'call_1', name: 'getWeather', arguments: { city: '北京' } }],
+          usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+        },
+        { content: '北京今天晴朗', usage: { promptTokens: 30, completionTokens: 8, totalTokens: 38 } },
+      ],
+    });
+    const ai = new UnifiedAI(session.wrap(model, 'chat'), {
+      functions: [weatherFunction],
+      middlewares: [session.middleware],
+    });
+
+    const chunks = [];
+    for await (const chunk of ai.unifiedChatStream('北京天气怎么样？', { optimizeUserQuestion: false })) {
+      chunks.push(chunk);
+    }
+    expect(session.getUsage()).toEqual({ promptTokens: 40, completionTokens: 13, totalTokens: 53 });
+    await session.flush();
+
+    expect(chunks[chunks.length - 1].usage).toEqual({ promptTokens: 40, completionTokens: 13, totalTokens: 53 });
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(save.mock.calls[0][0]).toEqual([
+      expect.objectContaining({
+        userId: 'user_1',
+        conversationId: 'conversation_1',
+        source: 'chat',
+        totalTokens: 15,
+        error: null,
+        toolCallCount: 1,
+        toolCalls: [{ name: 'getWeather', executionTime: expect.any(Number), failed: undefined }],
+      }),
+      expect.objectContaining({
+        source: 'chat',
+        totalTokens: 38,
+        error: null,
+        toolCallCount: 0,
+        toolCalls: null,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,24 @@
+import { AIService } from '../services/AIService';
+import { ConfigRepository } from '../repositories/ConfigRepository';
+import { UserToolsRepository } from '../repositories/UserToolsRepository';
+
+// 不连接数据库和 WebSocket
+jest.mock('../db', () => ({ AppDataSource: { getRepository: jest.fn() } }));
+jest.mock('../socket', () => ({}));
+
+describe('user tools ai tests', () => {
+  it('发布工具时不需要 API 密钥，需要审批的工具不发布', async () => {
+    jest.spyOn(UserToolsRepository.prototype, 'findByUserId').mockResolvedValue({
+      enabledTools: ['getTime', 'searchWebByUrl'],
+      toolConfigs: {},
+    } as any);
+    const findConfig = jest.spyOn(ConfigRepository.prototype, 'findByUserIdAndType').mockResolvedValue(null);
+
+    const ai = await new AIService().createUserToolsAI('user_1');
+
+    expect(ai.getLocalTools().map(tool => tool.name)).toEqual(['getTime']);
+    expect(findConfig).not.toHaveBeenCalled();
+    const call = await ai.callFunction('searchWebByUrl', { url: 'https://example.com' });
+    expect(call.attempts).toBeFalsy();
+  });
+});
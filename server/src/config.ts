@@ -15,8 +15,100 @@ export const dbConfig: DataSourceOptions = {
 };
 
 // 主配置对象
+/**
+ * 读取 USAGE_PRICES 中的模型价格
+ * 格式不正确时输出警告并只使用默认价格，不影响服务启动
+ */
+function parseUsagePrices(): Record<string, { input: number; output: number }> {
+  try {
+    const prices = JSON.parse(process.env.USAGE_PRICES || '{}');
+    if (prices && typeof prices === 'object' && !Array.isArray(prices)) {
+      return prices;
+    }
+    console.warn('USAGE_PRICES 必须是 JSON 对象，已使用默认价格');
+  } catch (error: any) {
+    console.warn(`无法解析 USAGE_PRICES，已使用默认价格: ${error.message}`);
+  }
+  return {};
+}
+
 export const config = {
   port: process.env.PORT || 3000,
   nodeEnv: process.env.NODE_ENV || 'development',
+  // 上传文件配置
+  upload: {
+    // 文件存储目录
+    dir: process.env.UPLOAD_DIR || path.join(__dirname, '../uploads'),
+    // 单个文件大小上限（字节）
+    maxSize: Number(process.env.UPLOAD_MAX_SIZE) || 20 * 1024 * 1024,
+    // 允许上传的文件类型，以 / 结尾的表示该大类下的所有类型
+    allowedMimeTypes: ['image/', 'audio/', 'application/pdf'],
+  },
+  // 工具调用审批配置
+  toolApproval: {
+    // 等待用户审批的最长时间（毫秒），超时后拒绝执行
+    timeout: Number(process.env.TOOL_APPROVAL_TIMEOUT) || 5 * 60 * 1000,
+  },
+  // MCP 连接配置
+  mcp: {
+    // 连接空闲多久后关闭（毫秒）
+    idleTimeout: Number(process.env.MCP_IDLE_TIMEOUT) || 10 * 60 * 1000,
+    // 健康检查间隔（毫秒）
+    healthCheckInterval: Number(process.env.MCP_HEALTH_CHECK_INTERVAL) || 60 * 1000,
+    // 健康检查等待响应的最长时间（毫秒）
+    healthCheckTimeout: 10 * 1000,
+    // 服务进程连续异常退出后的最大重启次数
+    maxRestarts: 3,
+    // 等待用户回答MCP信息征询的最长时间（毫秒），超时后取消
+    elicitationTimeout: Number(process.env.MCP_ELICITATION_TIMEOUT) || 5 * 60 * 1000,
+  },
+  // 对话记忆配置
+  memory: {
+    // 未被摘要覆盖的历史消息超过该数量时生成新的摘要
+    summaryTriggerMessages: Number(process.env.MEMORY_SUMMARY_TRIGGER_MESSAGES) || 40,
+    // 生成摘要后保留原文的最近消息数
+    keepMessages: Number(process.env.MEMORY_KEEP_MESSAGES) || 20,
+    // 发送给模型的历史记录最多占用的 token 数（估算值）
+    maxHistoryTokens: Number(process.env.MEMORY_MAX_HISTORY_TOKENS) || 200000,
+  },
+  // 模型配置
+  model: {
+    // 主模型名称
+    name: process.env.GEMINI_MODEL || 'gemini-2.0-flash',
+    // 主模型请求失败时依次切换的备用模型，多个用逗号分隔
+    fallbackModels: (process.env.GEMINI_FALLBACK_MODELS ?? 'gemini-1.5-flash').split(',').map(name => name.trim()).filter(Boolean),
+    // 每个模型失败后的最大重试次数
+    retries: Number(process.env.MODEL_RETRIES ?? 1),
+    // 第一次重试前的等待时间（毫秒），之后每次翻倍
+    backoff: Number(process.env.MODEL_RETRY_BACKOFF) || 1000,
+  },
+  // 模型响应缓存配置，用于生成标题和问题优化等重复的请求
+  cache: {
+    // 是否启用缓存
+    enabled: process.env.MODEL_CACHE_ENABLED !== 'false',
+    // 缓存有效期（毫秒）
+    ttl: Number(process.env.MODEL_CACHE_TTL) || 24 * 60 * 60 * 1000,
+  },
+  // 用户配额配置，各项为0时不限制
+  quota: {
+    // 每个用户每分钟最多发起的对话请求数
+    requestsPerMinute: Number(process.env.QUOTA_REQUESTS_PER_MINUTE ?? 10),
+    // 每个用户每天最多发起的对话请求数
+    requestsPerDay: Number(process.env.QUOTA_REQUESTS_PER_DAY ?? 200),
+    // 每个用户每天最多消耗的 token 数
+    tokensPerDay: Number(process.env.QUOTA_TOKENS_PER_DAY ?? 1000000),
+  },
+  // 用量记录配置
+  usage: {
+    // 模型价格（美元 / 百万 token），按模型名称完全匹配或最长前缀匹配，可以通过 USAGE_PRICES 传入 JSON 覆盖或补充
+    prices: {
+      'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+      'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+      'gemini-1.5-pro': { input: 1.25, output: 5 },
+      ...parseUsagePrices(),
+    } as Record<string, { input: number; output: number }>,
+    // 可以查看所有用户用量的用户名，多个用逗号分隔
+    adminUsers: (process.env.USAGE_ADMIN_USERS || '').split(',').map(name => name.trim()).filter(Boolean),
+  },
   // 在这里添加其他配置项
 }; 
\ No newline at end of file
@@ -1,52 +1,183 @@
 import { AIService } from '../services/AIService';
 import { ConversationRepository } from '../repositories/ConversationRepository';
 import { ChatMessageRepository } from '../repositories/ChatMessageRepository';
-import { ChatMessage } from '../entities/ChatMessage';
-import { Response } from 'express';
+import { AttachmentRepository } from '../repositories/AttachmentRepository';
+import { ChatMessage, MessageAttachment } from '../entities/ChatMessage';
+import { Conversation } from '../entities/Conversation';
+import { NextFunction, Request, Response } from 'express';
+import { AbortHelper, ChatMessage as AIChatMessage, ChatRole, ContentPart, FunctionApprovalHandler, McpResourceReference, MessageContent } from '@oukek/unified-ai';
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../config';
+import { ToolApprovalService, toolApprovalService } from '../services/ToolApprovalService';
+import { parseResourceReferences } from '../utils/mcps';
+
+/**
+ * 通过会话和附件检查的消息请求
+ */
+export interface CheckedMessageRequest {
+  conversation: Conversation; // 发送消息的会话
+  attachments: MessageAttachment[]; // 本次消息的附件
+}
+
+/**
+ * 消息请求的会话或附件无效时抛出的错误，REST 接口按 status 返回
+ */
+export class InvalidMessageError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'InvalidMessageError';
+  }
+}
 
 export class AIController {
   private aiService: AIService;
   private conversationRepository: ConversationRepository;
   private messageRepository: ChatMessageRepository;
+  private attachmentRepository: AttachmentRepository;
 
   constructor() {
     this.aiService = new AIService();
     this.conversationRepository = new ConversationRepository();
     this.messageRepository = new ChatMessageRepository();
+    this.attachmentRepository = new AttachmentRepository();
+  }
+
+  /**
+   * 将文本和附件组合为发送给AI的消息内容
+   * 图片和音频以对应类型发送，其余文件以文件类型发送
+   */
+  private async buildMessageContent(text: string, attachments?: MessageAttachment[]): Promise<MessageContent> {
+    if (!attachments || attachments.length === 0) {
+      return text;
+    }
+
+    const parts: ContentPart[] = text ? [{ type: 'text', text }] : [];
+    const records = await Promise.all(attachments.map(item => this.attachmentRepository.findById(item.id)));
+    for (const record of records) {
+      if (!record) {
+        continue;
+      }
+      const data = (await fs.promises.readFile(path.resolve(config.upload.dir, record.path))).toString('base64');
+      if (record.mimeType.startsWith('image/')) {
+        parts.push({ type: 'image', data, mimeType: record.mimeType });
+      } else if (record.mimeType.startsWith('audio/')) {
+        parts.push({ type: 'audio', data, mimeType: record.mimeType });
+      } else {
+        parts.push({ type: 'file', data, mimeType: record.mimeType, name: record.name });
+      }
+    }
+    return parts;
+  }
+
+  /**
+   * 检查消息请求的会话和附件
+   * 只能向自己的会话发送消息，只能使用自己上传的附件
+   * @param userId 用户ID
+   * @param conversationId 会话ID
+   * @param attachmentIds 本次消息的附件ID
+   * @throws InvalidMessageError 会话或附件不存在、无权访问会话时抛出
+   */
+  async checkMessageRequest(userId: string, conversationId: string, attachmentIds: string[] = []): Promise<CheckedMessageRequest> {
+    const conversation = await this.conversationRepository.findById(conversationId);
+    if (!conversation) {
+      throw new InvalidMessageError('会话不存在', 404);
+    }
+    if (conversation.userId !== userId) {
+      throw new InvalidMessageError('无权访问该会话', 403);
+    }
+
+    const attachmentRecords = await this.attachmentRepository.findByIdsAndUserId(attachmentIds, userId);
+    if (attachmentRecords.length !== attachmentIds.length) {
+      throw new InvalidMessageError('附件不存在', 400);
+    }
+    const attachments: MessageAttachment[] = attachmentRecords.map(item => ({
+      id: item.id,
+      name: item.name,
+      mimeType: item.mimeType,
+      size: item.size
+    }));
+
+    return { conversation, attachments };
   }
 
+  /**
+   * 检查 SSE 消息请求的中间件，需要放在 authenticateToken 之后、enforceQuota 之前
+   * 检查通过的请求保存在 res.locals.message 中，无效的请求不占用配额
+   */
+  checkStreamMessageRequest = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { content = '', attachmentIds = [] } = req.body;
+    if (typeof content !== 'string' || !Array.isArray(attachmentIds) || (!content && attachmentIds.length === 0)) {
+      res.status(400).json({ error: '消息内容不能为空' });
+      return;
+    }
+
+    const resources = parseResourceReferences(req.body.resources);
+    if (!resources) {
+      res.status(400).json({ error: 'resources格式无效' });
+      return;
+    }
+
+    try {
+      const checked = await this.checkMessageRequest(req.user!.id, req.params.conversationId, attachmentIds);
+      res.locals.message = { ...checked, content, resources };
+      next();
+    } catch (error: any) {
+      if (error instanceof InvalidMessageError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error('检查消息请求失败:', error);
+      res.status(500).json({ error: '处理消息失败' });
+    }
+  };
+
   /**
    * 流式发送消息到AI（通过WebSocket处理）
+   * 会话和附件需要先通过 checkMessageRequest 检查，配额在检查之后记录
    */
   async handleStreamMessage(
     userId: string,
-    conversationId: string,
+    request: CheckedMessageRequest,
     content: string,
     socketCallback: (eventType: string, data: any) => void,
+    signal?: AbortSignal,
+    resources: McpResourceReference[] = [],
   ): Promise<any> {
     try {
-      // 获取会话信息
-      const conversation = await this.conversationRepository.findById(conversationId);
-      if (!conversation) {
-        throw new Error('会话不存在');
-      }
+      const { conversation, attachments } = request;
+      const conversationId = conversation.id;
 
-      // 检查会话所有权
-      if (conversation.userId !== userId) {
-        throw new Error('无权访问该会话');
-      }
-
-      // 获取会话历史记录
+      // 获取会话历史记录，附件先以文本占位，记忆处理后只加载保留下来的消息的附件
       const messages = await this.messageRepository.findByConversationId(conversationId);
-      const history = messages.map(msg => ({
-        role: msg.role,
-        content: msg?.blocks?.map(block => {
+      const messageAttachments = new Map<AIChatMessage, { text: string, attachments: MessageAttachment[] }>();
+      const history = messages.map(msg => {
+        const text = msg?.blocks?.map(block => {
           if (block.type === 'text') {
             return typeof block.content === 'string' ? block.content : JSON.stringify(block.content)
           } else if (block.type === 'tool') {
             return JSON.stringify(block.data.result)
           }
-        }).join('\n') || msg.content
+        }).join('\n') || msg.content;
+        const placeholder = msg.attachments?.length ? `[附件: ${msg.attachments.map(item => item.name).join(', ')}]` : '';
+        const message: AIChatMessage = {
+          role: msg.role === 'user' ? ChatRole.USER : ChatRole.ASSISTANT,
+          content: [text, placeholder].filter(Boolean).join('\n')
+        };
+        if (msg.attachments?.length) {
+          messageAttachments.set(message, { text, attachments: msg.attachments });
+        }
+        return message;
+      });
+
+      // 历史记录过长时压缩为摘要，摘要变化时保存到会话中
+      const memory = await this.aiService.applyMemory(userId, history, conversation.summary || undefined, signal, conversationId);
+      if (memory.summary !== (conversation.summary || undefined)) {
+        await this.conversationRepository.update(conversationId, { summary: memory.summary || null });
+      }
+      const memoryHistory = await Promise.all(memory.history.map(async message => {
+        const item = messageAttachments.get(message);
+        return item ? { ...message, content: await this.buildMessageContent(item.text, item.attachments) } : message;
       }));
 
       // 添加用户消息
@@ -54,6 +185,9 @@ export class AIController {
       userMessage.conversationId = conversationId;
       userMessage.content = content;
       userMessage.role = 'user';
+      if (attachments.length > 0) {
+        userMessage.attachments = attachments;
+      }
       const savedUserMessage = await this.messageRepository.create(userMessage);
 
       // 创建AI消息占位
@@ -117,14 +251,43 @@ export class AIController {
         }
       };
 
+      // 需要审批的工具调用：记录到工具块并通知客户端，等待用户批准、拒绝或修改参数
+      const approvalHandler: FunctionApprovalHandler = async (functionCall) => {
+        const { approvalId, decision } = toolApprovalService.request(userId, signal);
+
+        const block = contentBlocks.find(item => item.type === 'tool' && item.data?.id === functionCall.id);
+        if (block) {
+          block.data = { ...block.data, approvalId, approvalStatus: 'pending' };
+        }
+
+        socketCallback('functionCallApprovalRequired', {
+          functionCall,
+          approvalId,
+          messageId: savedAssistantMessage.id
+        });
+
+        return decision;
+      };
+
       // 发送流式请求到AI
-      await this.aiService.sendMessageStream(
-        userId,
-        content,
-        history,
-        conversation.systemMessage || undefined,
-        aiCallback,
-      );
+      try {
+        await this.aiService.sendMessageStream(
+          userId,
+          await this.buildMessageContent(content, attachments),
+          memoryHistory,
+          conversation.systemMessage || undefined,
+          aiCallback,
+          signal,
+          approvalHandler,
+          resources,
+          conversationId,
+        );
+      } catch (error) {
+        // 取消时保留已生成的内容，其他错误继续抛出
+        if (!signal?.aborted || !AbortHelper.isAbortError(error)) {
+          throw error;
+        }
+      }
 
       // 流处理完成后，更新最终消息
       await this.messageRepository.update(savedAssistantMessage.id, {
@@ -145,8 +308,9 @@ export class AIController {
         try {
           const title = await this.aiService.generateTitle(
             userId,
-            content,
-            fullContent
+            content || attachments.map(item => item.name).join('、'),
+            fullContent,
+            conversationId
           );
           
           await this.conversationRepository.update(conversationId, {
@@ -176,35 +340,58 @@ export class AIController {
 
   /**
    * 通过SSE流式发送消息到AI
+   * 会话和附件需要先通过 checkMessageRequest 检查
    */
   async handleStreamMessageSSE(
     userId: string,
-    conversationId: string,
+    request: CheckedMessageRequest,
     content: string,
     res: Response,
+    signal?: AbortSignal,
+    resources: McpResourceReference[] = [],
   ): Promise<void> {
     try {
+      // 开始输出时才设置SSE所需的头部，之前出错（如加载历史记录失败）时仍可以返回普通的错误响应
+      const startStream = () => {
+        if (!res.headersSent) {
+          res.setHeader('Content-Type', 'text/event-stream');
+          res.setHeader('Cache-Control', 'no-cache');
+          res.setHeader('Connection', 'keep-alive');
+          res.setHeader('X-Accel-Buffering', 'no');
+        }
+      };
+
       // 创建一个适配器函数，将socketCallback转换为SSE发送
       const sseCallback = (eventType: string, data: any) => {
+        // 如果客户端断开连接，不再发送
+        if (res.writableEnded || signal?.aborted) {
+          return;
+        }
+
         // 将数据转换为SSE格式并发送
+        startStream();
         res.write(`event: ${eventType}\n`);
         res.write(`data: ${JSON.stringify(data)}\n\n`);
-        
-        // 如果客户端断开连接，我们需要处理
-        if (res.writableEnded) {
-          return;
-        }
       };
 
       // 调用现有的handleStreamMessage方法
       const result = await this.handleStreamMessage(
         userId,
-        conversationId,
+        request,
         content,
-        sseCallback
+        sseCallback,
+        signal,
+        resources
       );
 
+      // 客户端已断开，无需再发送完成事件
+      if (res.writableEnded || signal?.aborted) {
+        res.end();
+        return;
+      }
+
       // 发送完成事件
+      startStream();
       res.write(`event: complete\n`);
       res.write(`data: ${JSON.stringify({ 
         messageId: result.assistantMessage.id,
@@ -229,4 +416,33 @@ export class AIController {
       }
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * 提交工具调用审批结果（SSE 方式使用）
+   * 请求体为 { type: 'approve' } | { type: 'deny', reason? } | { type: 'edit', arguments }
+   */
+  respondToolApproval = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user || !req.user.id) {
+        res.status(401).json({ message: '未授权' });
+        return;
+      }
+
+      const decision = ToolApprovalService.parseDecision(req.body);
+      if (!decision) {
+        res.status(400).json({ message: '审批结果格式不正确' });
+        return;
+      }
+
+      if (!toolApprovalService.respond(req.params.approvalId, req.user.id, decision)) {
+        res.status(404).json({ message: '审批请求不存在或已结束' });
+        return;
+      }
+
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('提交工具审批结果失败:', error);
+      res.status(500).json({ message: '提交审批结果失败', error: error.message });
+    }
+  };
+}
@@ -1,12 +1,17 @@
 import { Request, Response } from 'express';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { createMcpServer } from '@oukek/unified-ai';
 import { UserMcpRepository } from '../repositories/UserMcpRepository';
-import { availableMcps, Mcp } from '../utils/mcps';
+import { AIService } from '../services/AIService';
+import { availableMcps, parseSamplingPolicy, validateMcpConfig } from '../utils/mcps';
 
 export class McpController {
   private userMcpRepository: UserMcpRepository;
+  private aiService: AIService;
 
   constructor() {
     this.userMcpRepository = new UserMcpRepository();
+    this.aiService = new AIService();
   }
 
   // 获取系统支持的所有MCP
@@ -16,9 +21,12 @@ export class McpController {
       const mcps = availableMcps.map(mcp => ({
         name: mcp.name,
         desc: mcp.desc,
+        transport: mcp.transport || 'stdio',
         command: mcp.command,
         args: mcp.args,
-        env: mcp.env || {}
+        env: mcp.env || {},
+        url: mcp.url,
+        headers: mcp.headers
       }));
       
       res.json(mcps);
@@ -40,13 +48,14 @@ export class McpController {
       
       if (!userMcps) {
         // 如果用户还没有MCP配置，返回空数组
-        res.json({ enabledMcps: [], mcpConfigs: {} });
+        res.json({ enabledMcps: [], mcpConfigs: {}, samplingPolicy: { enabled: false } });
         return;
       }
       
       res.json({
         enabledMcps: userMcps.enabledMcps || [],
-        mcpConfigs: userMcps.mcpConfigs || {}
+        mcpConfigs: userMcps.mcpConfigs || {},
+        samplingPolicy: userMcps.samplingPolicy || { enabled: false }
       });
     } catch (error) {
       console.error('获取用户MCP配置失败:', error);
@@ -64,6 +73,13 @@ export class McpController {
 
       const { enabledMcps, mcpConfigs } = req.body;
       
+      // 验证samplingPolicy格式
+      const samplingPolicy = req.body.samplingPolicy !== undefined ? parseSamplingPolicy(req.body.samplingPolicy) : undefined;
+      if (samplingPolicy === null) {
+        res.status(400).json({ message: 'samplingPolicy格式无效' });
+        return;
+      }
+      
       // 验证enabledMcps是否为数组
       if (enabledMcps && !Array.isArray(enabledMcps)) {
         res.status(400).json({ message: 'enabledMcps应为字符串数组' });
@@ -79,37 +95,10 @@ export class McpController {
       // 验证mcpConfigs中的配置是否有效
       if (mcpConfigs) {
         for (const [name, config] of Object.entries(mcpConfigs)) {
-          // 检查config是否为对象且包含必要字段
-          if (typeof config !== 'object' || Array.isArray(config)) {
-            res.status(400).json({ 
-              message: `MCP '${name}' 的配置格式无效`,
-              invalidMcp: name
-            });
-            return;
-          }
-          
-          // 检查必要字段
-          const typedConfig = config as any;
-          if (!typedConfig.command || typeof typedConfig.command !== 'string') {
+          const configError = validateMcpConfig(name, config);
+          if (configError) {
             res.status(400).json({ 
-              message: `MCP '${name}' 的command字段无效`,
-              invalidMcp: name
-            });
-            return;
-          }
-          
-          if (!typedConfig.args || !Array.isArray(typedConfig.args)) {
-            res.status(400).json({ 
-              message: `MCP '${name}' 的args字段无效`,
-              invalidMcp: name
-            });
-            return;
-          }
-          
-          // 检查可选字段
-          if (typedConfig.env && (typeof typedConfig.env !== 'object' || Array.isArray(typedConfig.env))) {
-            res.status(400).json({ 
-              message: `MCP '${name}' 的env字段无效`,
+              message: configError,
               invalidMcp: name
             });
             return;
@@ -120,17 +109,112 @@ export class McpController {
       // 保存用户MCP配置
       const updatedUserMcps = await this.userMcpRepository.updateByUserId(req.user.id, {
         enabledMcps: enabledMcps !== undefined ? enabledMcps : undefined,
-        mcpConfigs: mcpConfigs !== undefined ? mcpConfigs : undefined
+        mcpConfigs: mcpConfigs !== undefined ? mcpConfigs : undefined,
+        samplingPolicy
       });
       
       res.json({
         message: 'MCP配置更新成功',
         enabledMcps: updatedUserMcps?.enabledMcps || [],
-        mcpConfigs: updatedUserMcps?.mcpConfigs || {}
+        mcpConfigs: updatedUserMcps?.mcpConfigs || {},
+        samplingPolicy: updatedUserMcps?.samplingPolicy || { enabled: false }
       });
     } catch (error) {
       console.error('更新用户MCP配置失败:', error);
       res.status(500).json({ message: '服务器内部错误' });
     }
   };
-} 
\ No newline at end of file
+
+  // 获取用户启用的MCP提供的资源
+  getMcpResources = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user || !req.user.id) {
+        res.status(401).json({ message: '未授权' });
+        return;
+      }
+
+      const resources = await this.aiService.listMcpResources(req.user.id);
+      res.json(resources);
+    } catch (error: any) {
+      console.error('获取MCP资源失败:', error);
+      res.status(500).json({ message: error.message || '服务器内部错误' });
+    }
+  };
+
+  // 获取用户启用的MCP提供的提示模板
+  getMcpPrompts = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user || !req.user.id) {
+        res.status(401).json({ message: '未授权' });
+        return;
+      }
+
+      const prompts = await this.aiService.listMcpPrompts(req.user.id);
+      res.json(prompts);
+    } catch (error: any) {
+      console.error('获取MCP提示模板失败:', error);
+      res.status(500).json({ message: error.message || '服务器内部错误' });
+    }
+  };
+
+  // 按参数生成MCP提示模板的消息
+  getMcpPrompt = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user || !req.user.id) {
+        res.status(401).json({ message: '未授权' });
+        return;
+      }
+
+      const { server, name, arguments: args = {} } = req.body;
+      if (typeof server !== 'string' || typeof name !== 'string' || !name) {
+        res.status(400).json({ message: 'server和name字段无效' });
+        return;
+      }
+
+      // 提示模板参数只能是字符串
+      if (typeof args !== 'object' || Array.isArray(args) || Object.values(args).some(value => typeof value !== 'string')) {
+        res.status(400).json({ message: 'arguments应为字符串键值对' });
+        return;
+      }
+
+      const messages = await this.aiService.getMcpPrompt(req.user.id, server, name, args);
+      res.json(messages);
+    } catch (error: any) {
+      console.error('获取MCP提示模板内容失败:', error);
+      res.status(500).json({ message: error.message || '服务器内部错误' });
+    }
+  };
+
+  // 以MCP服务的形式发布用户启用的工具，使用无状态的 streamable HTTP 传输
+  handleMcpServer = async (req: Request, res: Response): Promise<void> => {
+    if (!req.user || !req.user.id) {
+      res.status(401).json({ message: '未授权' });
+      return;
+    }
+
+    // 无状态模式下没有会话，不支持 GET 建立的通知流和 DELETE 结束会话
+    if (req.method !== 'POST') {
+      res.status(405).json({ jsonrpc: '2.0', error: { code: -32000, message: '不支持的请求方法' }, id: null });
+      return;
+    }
+
+    try {
+      // 每个请求使用新的服务和传输层，请求结束后关闭
+      const ai = await this.aiService.createUserToolsAI(req.user.id);
+      const server = createMcpServer(ai, { name: 'unified-ai-server' });
+      const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+      res.on('close', () => {
+        transport.close();
+        server.close();
+      });
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error: any) {
+      console.error('处理MCP请求失败:', error);
+      if (!res.headersSent) {
+        res.status(500).json({ jsonrpc: '2.0', error: { code: -32603, message: error.message || '服务器内部错误' }, id: null });
+      }
+    }
+  };
+}
@@ -0,0 +1,19 @@
+import { Request, Response } from 'express';
+import { quotaService } from '../services/QuotaService';
+
+export class QuotaController {
+  // 获取用户当天的配额使用情况
+  getUserQuota = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user || !req.user.id) {
+        res.status(401).json({ message: '未授权' });
+        return;
+      }
+
+      res.json(await quotaService.getStatus(req.user.id));
+    } catch (error) {
+      console.error('获取用户配额失败:', error);
+      res.status(500).json({ message: '服务器内部错误' });
+    }
+  };
+}
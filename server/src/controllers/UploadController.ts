@@ -0,0 +1,102 @@
+import { Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AttachmentRepository } from '../repositories/AttachmentRepository';
+import { config } from '../config';
+
+export class UploadController {
+  private attachmentRepository: AttachmentRepository;
+
+  constructor() {
+    this.attachmentRepository = new AttachmentRepository();
+  }
+
+  // 上传附件，请求体为 { name, mimeType, data }，data 为 base64 编码的文件内容
+  upload = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user || !req.user.id) {
+        res.status(401).json({ message: '未授权' });
+        return;
+      }
+
+      const { name, mimeType, data } = req.body;
+      if (!name || typeof name !== 'string' || !mimeType || typeof mimeType !== 'string' || !data || typeof data !== 'string') {
+        res.status(400).json({ message: '文件名、文件类型和文件内容不能为空' });
+        return;
+      }
+
+      const allowed = config.upload.allowedMimeTypes.some(type =>
+        type.endsWith('/') ? mimeType.startsWith(type) : mimeType === type
+      );
+      if (!allowed) {
+        res.status(400).json({ message: `不支持的文件类型: ${mimeType}` });
+        return;
+      }
+
+      // 兼容 data URL 格式
+      const buffer = Buffer.from(data.replace(/^data:[^;]+;base64,/, ''), 'base64');
+      if (buffer.length === 0) {
+        res.status(400).json({ message: '文件内容不能为空' });
+        return;
+      }
+      if (buffer.length > config.upload.maxSize) {
+        res.status(413).json({ message: `文件大小不能超过 ${Math.floor(config.upload.maxSize / 1024 / 1024)}MB` });
+        return;
+      }
+
+      // 以随机文件名保存，避免文件名冲突和路径穿越
+      const fileName = `${randomUUID()}${path.extname(name).slice(0, 10)}`;
+      await fs.promises.mkdir(config.upload.dir, { recursive: true });
+      await fs.promises.writeFile(path.join(config.upload.dir, fileName), buffer);
+
+      const attachment = await this.attachmentRepository.create({
+        userId: req.user.id,
+        name,
+        mimeType,
+        size: buffer.length,
+        path: fileName
+      });
+
+      res.status(201).json({
+        id: attachment.id,
+        name: attachment.name,
+        mimeType: attachment.mimeType,
+        size: attachment.size,
+        createdAt: attachment.createdAt
+      });
+    } catch (error) {
+      console.error('上传附件失败:', error);
+      res.status(500).json({ message: '服务器内部错误' });
+    }
+  };
+
+  // 获取附件文件内容
+  getFile = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user || !req.user.id) {
+        res.status(401).json({ message: '未授权' });
+        return;
+      }
+
+      const attachment = await this.attachmentRepository.findById(req.params.id);
+      if (!attachment) {
+        res.status(404).json({ message: '附件不存在' });
+        return;
+      }
+
+      // 验证该附件是否属于当前用户
+      if (attachment.userId !== req.user.id) {
+        res.status(403).json({ message: '无权访问该附件' });
+        return;
+      }
+
+      res.type(attachment.mimeType);
+      res.setHeader('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(attachment.name)}`);
+      res.sendFile(path.resolve(config.upload.dir, attachment.path));
+    } catch (error) {
+      console.error('获取附件失败:', error);
+      res.status(500).json({ message: '服务器内部错误' });
+    }
+  };
+}
@@ -0,0 +1,116 @@
+import { Request, Response } from 'express';
+import { usageLedgerService } from '../services/UsageLedgerService';
+import { UsageFilter, UsageGroupBy } from '../repositories/UsageRecordRepository';
+import { ConversationRepository } from '../repositories/ConversationRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { config } from '../config';
+import { formatDate, isValidDate } from '../utils/date';
+
+// 未指定日期范围时统计最近的天数
+const DEFAULT_RANGE_DAYS = 30;
+
+export class UsageController {
+  private conversationRepository: ConversationRepository;
+  private userRepository: UserRepository;
+
+  constructor() {
+    this.conversationRepository = new ConversationRepository();
+    this.userRepository = new UserRepository();
+  }
+
+  /**
+   * 解析查询参数中的日期范围（from、to，格式为 YYYY-MM-DD，包含起止日期）
+   * @returns 日期范围，格式不正确时返回 null
+   */
+  private parseRange(req: Request): Pick<UsageFilter, 'from' | 'to'> | null {
+    const { from, to } = req.query;
+    const defaultFrom = new Date();
+    defaultFrom.setDate(defaultFrom.getDate() - (DEFAULT_RANGE_DAYS - 1));
+
+    const range = {
+      from: typeof from === 'string' && from ? from : formatDate(defaultFrom),
+      to: typeof to === 'string' && to ? to : formatDate(),
+    };
+    if (!isValidDate(range.from) || !isValidDate(range.to) || range.from > range.to) {
+      return null;
+    }
+    return range;
+  }
+
+  /**
+   * 统计当前用户的用量，按指定字段分组时同时返回分组结果
+   */
+  private respondWithUsage = async (req: Request, res: Response, groupBy?: UsageGroupBy): Promise<void> => {
+    try {
+      if (!req.user || !req.user.id) {
+        res.status(401).json({ message: '未授权' });
+        return;
+      }
+
+      const range = this.parseRange(req);
+      if (!range) {
+        res.status(400).json({ message: '日期范围格式不正确，应为 YYYY-MM-DD' });
+        return;
+      }
+
+      const filter: UsageFilter = { ...range, userId: req.user.id };
+      if (!groupBy) {
+        res.json({ ...range, totals: await usageLedgerService.getTotals(filter) });
+        return;
+      }
+
+      const items = await usageLedgerService.getBreakdown(filter, groupBy);
+      if (groupBy === 'conversationId') {
+        // 附带会话标题，已删除的会话没有标题
+        const conversations = await this.conversationRepository.findByIds(items.map(item => item.key).filter((key): key is string => !!key));
+        const titles = new Map(conversations.map(conversation => [conversation.id, conversation.title]));
+        res.json({ ...range, items: items.map(item => ({ ...item, title: item.key ? titles.get(item.key) || null : null })) });
+        return;
+      }
+      res.json({ ...range, items });
+    } catch (error) {
+      console.error('获取用量统计失败:', error);
+      res.status(500).json({ message: '服务器内部错误' });
+    }
+  };
+
+  // 获取当前用户的用量汇总
+  getSummary = (req: Request, res: Response): Promise<void> => this.respondWithUsage(req, res);
+
+  // 获取当前用户按天的用量
+  getDaily = (req: Request, res: Response): Promise<void> => this.respondWithUsage(req, res, 'date');
+
+  // 获取当前用户按模型的用量
+  getByModel = (req: Request, res: Response): Promise<void> => this.respondWithUsage(req, res, 'model');
+
+  // 获取当前用户按会话的用量
+  getByConversation = (req: Request, res: Response): Promise<void> => this.respondWithUsage(req, res, 'conversationId');
+
+  // 获取所有用户的用量，仅配置的管理员可以查看
+  getByUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user || !req.user.id) {
+        res.status(401).json({ message: '未授权' });
+        return;
+      }
+      if (!config.usage.adminUsers.includes(req.user.username)) {
+        res.status(403).json({ message: '无权查看所有用户的用量' });
+        return;
+      }
+
+      const range = this.parseRange(req);
+      if (!range) {
+        res.status(400).json({ message: '日期范围格式不正确，应为 YYYY-MM-DD' });
+        return;
+      }
+
+      const items = await usageLedgerService.getBreakdown(range, 'userId');
+      const users = await this.userRepository.findByIds(items.map(item => item.key).filter((key): key is string => !!key));
+      const usernames = new Map(users.map(user => [user.id, user.username]));
+      res.json({ ...range, items: items.map(item => ({ ...item, username: item.key ? usernames.get(item.key) || null : null })) });
+    } catch (error) {
+      console.error('获取用户用量统计失败:', error);
+      res.status(500).json({ message: '服务器内部错误' });
+    }
+  };
+}
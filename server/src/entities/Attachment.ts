@@ -0,0 +1,25 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+@Entity('attachments')
+export class Attachment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ length: 255 })
+  name: string; // 原始文件名
+
+  @Column({ length: 100 })
+  mimeType: string;
+
+  @Column({ type: 'integer' })
+  size: number; // 文件大小（字节）
+
+  @Column({ type: 'text' })
+  path: string; // 文件相对于上传目录的存储路径
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
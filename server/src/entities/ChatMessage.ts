@@ -15,6 +15,14 @@ export interface FunctionCall {
   result?: any;
 }
 
+// 定义消息附件类型，文件内容通过 /api/uploads/:id 获取
+export interface MessageAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
 @Entity('chat_messages')
 export class ChatMessage {
   @PrimaryGeneratedColumn('uuid')
@@ -38,6 +46,9 @@ export class ChatMessage {
   @Column({ type: 'simple-json', nullable: true })
   functionCalls: FunctionCall[];
 
+  @Column({ type: 'simple-json', nullable: true })
+  attachments: MessageAttachment[];
+
   @CreateDateColumn()
   timestamp: Date;
 } 
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import { ConversationSummary } from '@oukek/unified-ai';
 
 @Entity('conversations')
 export class Conversation {
@@ -14,6 +15,9 @@ export class Conversation {
   @Column({ type: 'text', nullable: true })
   systemMessage: string;
 
+  @Column({ type: 'simple-json', nullable: true })
+  summary: ConversationSummary | null; // 较早历史消息的摘要，历史记录过长时由模型生成
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,17 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn } from 'typeorm';
+import { CachedResponse } from '@oukek/unified-ai';
+
+@Entity('model_cache')
+export class ModelCache {
+  @PrimaryColumn({ length: 128 })
+  key: string; // 缓存键，由请求内容计算的哈希
+
+  @Column({ type: 'simple-json' })
+  value: CachedResponse; // 缓存的模型响应
+
+  @Column({ type: 'datetime', nullable: true })
+  expiresAt: Date | null; // 过期时间，为空时不过期
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
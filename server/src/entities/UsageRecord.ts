@@ -0,0 +1,65 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+/**
+ * 模型调用的来源
+ * chat 对话、optimize 问题优化、title 生成标题、summary 生成摘要
+ */
+export type UsageSource = 'chat' | 'optimize' | 'title' | 'summary';
+
+/**
+ * 模型调用请求的函数及执行情况
+ */
+export interface UsageToolCall {
+  name: string;
+  executionTime: number; // 执行时长（毫秒）
+  failed?: boolean;
+}
+
+@Entity('usage_records')
+@Index(['userId', 'date'])
+export class UsageRecord {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  conversationId: string | null; // 所属会话
+
+  @Column({ length: 20 })
+  source: UsageSource; // 调用来源
+
+  @Column({ length: 100 })
+  model: string; // 实际响应的模型名称
+
+  @Column({ length: 10 })
+  date: string; // 调用日期，格式为 YYYY-MM-DD（服务器时区），用于按天统计
+
+  @Column({ type: 'integer', default: 0 })
+  promptTokens: number; // 输入token数
+
+  @Column({ type: 'integer', default: 0 })
+  completionTokens: number; // 输出token数
+
+  @Column({ type: 'integer', default: 0 })
+  totalTokens: number; // 总token数
+
+  @Column({ type: 'simple-json', nullable: true })
+  toolCalls: UsageToolCall[] | null; // 本次调用后执行的函数
+
+  @Column({ type: 'integer', default: 0 })
+  toolCallCount: number; // 执行的函数数量
+
+  @Column({ type: 'integer', default: 0 })
+  latency: number; // 调用耗时（毫秒），流式调用为读取完整响应的时间
+
+  @Column({ type: 'real', default: 0 })
+  cost: number; // 按价格表估算的费用（美元）
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null; // 调用失败时的错误信息
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
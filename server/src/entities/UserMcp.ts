@@ -1,4 +1,5 @@
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import { McpSamplingPolicy } from '../utils/mcps';
 
 @Entity('user_mcp')
 export class UserMcp {
@@ -14,6 +15,9 @@ export class UserMcp {
   @Column({ type: 'simple-json', nullable: true })
   mcpConfigs: Record<string, any>; // 存储MCP配置，包含command、args和env等
 
+  @Column({ type: 'simple-json', nullable: true })
+  samplingPolicy: McpSamplingPolicy | null; // MCP采样策略，未设置时不允许采样
+
   @CreateDateColumn()
   createdAt: Date;
 
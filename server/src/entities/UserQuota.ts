@@ -0,0 +1,32 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+
+@Entity('user_quota')
+@Index(['userId', 'date'], { unique: true })
+export class UserQuota {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ length: 10 })
+  date: string; // 统计日期，格式为 YYYY-MM-DD（服务器时区）
+
+  @Column({ type: 'integer', default: 0 })
+  requestCount: number; // 当天发起的对话请求数
+
+  @Column({ type: 'integer', default: 0 })
+  promptTokens: number; // 当天消耗的输入token数
+
+  @Column({ type: 'integer', default: 0 })
+  completionTokens: number; // 当天消耗的输出token数
+
+  @Column({ type: 'integer', default: 0 })
+  totalTokens: number; // 当天消耗的总token数
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
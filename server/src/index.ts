@@ -4,9 +4,11 @@ import { createServer } from 'http';
 import { Server } from 'socket.io';
 import { config as dotenvConfig } from 'dotenv';
 import { initializeDb } from './db';
+import { ModelCacheRepository } from './repositories/ModelCacheRepository';
 import { config } from './config';
 import { setupRoutes } from './routes';
 import { setupSocketHandlers } from './socket';
+import { mcpConnectionManager } from './services/McpConnectionManager';
 
 // 加载环境变量
 dotenvConfig();
@@ -17,7 +19,8 @@ const PORT = config.port;
 
 // 中间件
 app.use(cors());
-app.use(express.json());
+// 附件以 base64 形式上传，需要放宽请求体大小限制
+app.use(express.json({ limit: '30mb' }));
 
 // HTTP服务器
 const httpServer = createServer(app);
@@ -40,6 +43,11 @@ console.log('Socket 处理器已设置完成');
 // 数据库连接
 initializeDb()
   .then(() => {
+    // 清理过期的模型响应缓存
+    new ModelCacheRepository().deleteExpired().catch((error) => {
+      console.error('清理模型响应缓存失败:', error);
+    });
+
     // 启动服务器
     httpServer.listen(PORT, () => {
       console.log(`服务器运行在端口 ${PORT}`);
@@ -47,4 +55,15 @@ initializeDb()
   })
   .catch((error) => {
     console.error('数据库连接失败:', error);
-  }); 
+  });
+
+// 退出前关闭MCP服务进程，避免残留子进程
+const shutdown = async (signal: string) => {
+  console.log(`收到 ${signal}，正在关闭服务器...`);
+  httpServer.close();
+  await mcpConnectionManager.shutdown();
+  process.exit(0);
+};
+process.once('SIGINT', () => shutdown('SIGINT'));
+process.once('SIGTERM', () => shutdown('SIGTERM'));
+
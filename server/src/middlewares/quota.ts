@@ -0,0 +1,21 @@
+import { Request, Response, NextFunction } from 'express';
+import { QuotaExceededError, quotaService } from '../services/QuotaService';
+
+/**
+ * 检查并记录用户配额的中间件，需要放在 authenticateToken 和请求检查之后，无效的请求不占用配额
+ * 超出配额时返回 429，响应体包含错误原因和重置时间
+ */
+export const enforceQuota = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    await quotaService.consume(req.user!.id);
+    next();
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      res.setHeader('Retry-After', String(error.retryAfter));
+      res.status(429).json(error.toJSON());
+      return;
+    }
+    console.error('检查用户配额失败:', error);
+    res.status(500).json({ message: '检查用户配额失败' });
+  }
+};
@@ -0,0 +1,32 @@
+import { In, Repository } from 'typeorm';
+import { Attachment } from '../entities/Attachment';
+import { AppDataSource } from '../db';
+
+export class AttachmentRepository {
+  private repository: Repository<Attachment>;
+
+  constructor() {
+    this.repository = AppDataSource.getRepository(Attachment);
+  }
+
+  async findById(id: string): Promise<Attachment | null> {
+    return this.repository.findOneBy({ id });
+  }
+
+  async findByIdsAndUserId(ids: string[], userId: string): Promise<Attachment[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    return this.repository.findBy({ id: In(ids), userId });
+  }
+
+  async create(data: Partial<Attachment>): Promise<Attachment> {
+    const attachment = this.repository.create(data);
+    return this.repository.save(attachment);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.repository.delete(id);
+    return !!result?.affected && result.affected > 0;
+  }
+}
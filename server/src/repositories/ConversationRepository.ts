@@ -1,4 +1,4 @@
-import { Repository } from 'typeorm';
+import { In, Repository } from 'typeorm';
 import { Conversation } from '../entities/Conversation';
 import { AppDataSource } from '../db';
 
@@ -17,6 +17,10 @@ export class ConversationRepository {
     return this.repository.findOneBy({ id });
   }
 
+  async findByIds(ids: string[]): Promise<Conversation[]> {
+    return ids.length > 0 ? this.repository.findBy({ id: In(ids) }) : [];
+  }
+
   async findByUserId(userId: string): Promise<Conversation[]> {
     return this.repository.findBy({ userId });
   }
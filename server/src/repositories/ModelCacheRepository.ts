@@ -0,0 +1,50 @@
+import { LessThan, Repository } from 'typeorm';
+import { CachedResponse, ResponseCacheStore } from '@oukek/unified-ai';
+import { ModelCache } from '../entities/ModelCache';
+import { AppDataSource } from '../db';
+
+/**
+ * 模型响应缓存，保存在数据库中，供 CachedModel 使用
+ */
+export class ModelCacheRepository implements ResponseCacheStore {
+  private repository: Repository<ModelCache>;
+
+  constructor() {
+    this.repository = AppDataSource.getRepository(ModelCache);
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const cache = await this.repository.findOneBy({ key });
+    if (!cache) {
+      return undefined;
+    }
+
+    // 过期的缓存读取时删除
+    if (cache.expiresAt && cache.expiresAt.getTime() <= Date.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+    return cache.value;
+  }
+
+  async set(key: string, value: CachedResponse, ttl?: number): Promise<void> {
+    await this.repository.save({
+      key,
+      value,
+      expiresAt: ttl ? new Date(Date.now() + ttl) : null,
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.repository.delete({ key });
+  }
+
+  async clear(): Promise<void> {
+    await this.repository.clear();
+  }
+
+  async deleteExpired(): Promise<number> {
+    const result = await this.repository.delete({ expiresAt: LessThan(new Date()) });
+    return result.affected || 0;
+  }
+}
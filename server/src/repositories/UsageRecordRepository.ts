@@ -0,0 +1,63 @@
+import { Repository } from 'typeorm';
+import { UsageRecord } from '../entities/UsageRecord';
+import { AppDataSource } from '../db';
+
+/**
+ * 可以分组统计的字段
+ */
+export type UsageGroupBy = 'date' | 'model' | 'conversationId' | 'userId';
+
+/**
+ * 统计的筛选条件，日期格式为 YYYY-MM-DD，包含起止日期
+ */
+export interface UsageFilter {
+  userId?: string;
+  from: string;
+  to: string;
+}
+
+export class UsageRecordRepository {
+  private repository: Repository<UsageRecord>;
+
+  constructor() {
+    this.repository = AppDataSource.getRepository(UsageRecord);
+  }
+
+  async createMany(data: Partial<UsageRecord>[]): Promise<UsageRecord[]> {
+    const records = this.repository.create(data);
+    return this.repository.save(records);
+  }
+
+  /**
+   * 汇总用量，指定分组字段时按该字段分组
+   * @returns 原始查询结果，数值字段可能是字符串
+   */
+  async aggregate(filter: UsageFilter, groupBy?: UsageGroupBy): Promise<Record<string, any>[]> {
+    const query = this.repository
+      .createQueryBuilder('record')
+      .select('COUNT(*)', 'calls')
+      .addSelect('COALESCE(SUM(record.promptTokens), 0)', 'promptTokens')
+      .addSelect('COALESCE(SUM(record.completionTokens), 0)', 'completionTokens')
+      .addSelect('COALESCE(SUM(record.totalTokens), 0)', 'totalTokens')
+      .addSelect('COALESCE(SUM(record.toolCallCount), 0)', 'toolCalls')
+      .addSelect('COALESCE(AVG(record.latency), 0)', 'averageLatency')
+      .addSelect('COALESCE(SUM(record.cost), 0)', 'cost')
+      .addSelect('COALESCE(SUM(CASE WHEN record.error IS NULL THEN 0 ELSE 1 END), 0)', 'errors')
+      .where('record.date BETWEEN :from AND :to', { from: filter.from, to: filter.to });
+
+    if (filter.userId) {
+      query.andWhere('record.userId = :userId', { userId: filter.userId });
+    }
+
+    if (groupBy) {
+      query.addSelect(`record.${groupBy}`, groupBy).groupBy(`record.${groupBy}`);
+      if (groupBy === 'date') {
+        query.orderBy('record.date', 'ASC');
+      } else {
+        query.orderBy('cost', 'DESC').addOrderBy('totalTokens', 'DESC');
+      }
+    }
+
+    return query.getRawMany();
+  }
+}
@@ -0,0 +1,55 @@
+import { Repository } from 'typeorm';
+import { TokenUsage } from '@oukek/unified-ai';
+import { UserQuota } from '../entities/UserQuota';
+import { AppDataSource } from '../db';
+
+export class UserQuotaRepository {
+  private repository: Repository<UserQuota>;
+
+  constructor() {
+    this.repository = AppDataSource.getRepository(UserQuota);
+  }
+
+  async findByUserIdAndDate(userId: string, date: string): Promise<UserQuota | null> {
+    return this.repository.findOneBy({ userId, date });
+  }
+
+  /**
+   * 当天请求数小于上限时加一，检查和增加在同一条语句中完成，并发请求不会超出上限
+   * @param limit 每日请求数上限，为0时不限制
+   * @returns 是否增加成功，已达到上限时返回 false
+   */
+  async tryIncrementRequests(userId: string, date: string, limit: number): Promise<boolean> {
+    await this.ensure(userId, date);
+    const query = this.repository
+      .createQueryBuilder()
+      .update(UserQuota)
+      .set({ requestCount: () => 'requestCount + 1' })
+      .where('userId = :userId AND date = :date', { userId, date });
+    if (limit > 0) {
+      query.andWhere('requestCount < :limit', { limit });
+    }
+    const result = await query.execute();
+    return !!result.affected;
+  }
+
+  async addUsage(userId: string, date: string, usage: TokenUsage): Promise<void> {
+    await this.ensure(userId, date);
+    await this.repository.increment({ userId, date }, 'promptTokens', usage.promptTokens || 0);
+    await this.repository.increment({ userId, date }, 'completionTokens', usage.completionTokens || 0);
+    await this.repository.increment({ userId, date }, 'totalTokens', usage.totalTokens || 0);
+  }
+
+  /**
+   * 确保当天的统计记录存在，并发请求同时创建时忽略重复的记录
+   */
+  private async ensure(userId: string, date: string): Promise<void> {
+    await this.repository
+      .createQueryBuilder()
+      .insert()
+      .into(UserQuota)
+      .values({ userId, date })
+      .orIgnore()
+      .execute();
+  }
+}
@@ -1,4 +1,4 @@
-import { Repository } from 'typeorm';
+import { In, Repository } from 'typeorm';
 import { User } from '../entities/User';
 import { AppDataSource } from '../db';
 
@@ -17,6 +17,10 @@ export class UserRepository {
     return this.repository.findOneBy({ id });
   }
 
+  async findByIds(ids: string[]): Promise<User[]> {
+    return ids.length > 0 ? this.repository.findBy({ id: In(ids) }) : [];
+  }
+
   async findByUsername(username: string): Promise<User | null> {
     return this.repository.findOne({
       where: { username },
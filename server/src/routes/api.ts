@@ -5,7 +5,11 @@ import { ConversationController } from '../controllers/ConversationController';
 import { ToolController } from '../controllers/ToolController';
 import { McpController } from '../controllers/McpController';
 import { AIController } from '../controllers/AIController';
+import { UploadController } from '../controllers/UploadController';
+import { QuotaController } from '../controllers/QuotaController';
+import { UsageController } from '../controllers/UsageController';
 import { authenticateToken } from '../middlewares/auth';
+import { enforceQuota } from '../middlewares/quota';
 
 const router: Router = Router();
 const userController = new UserController();
@@ -14,6 +18,9 @@ const conversationController = new ConversationController();
 const toolController = new ToolController();
 const mcpController = new McpController();
 const aiController = new AIController();
+const uploadController = new UploadController();
+const quotaController = new QuotaController();
+const usageController = new UsageController();
 
 // 认证路由
 router.post('/auth/register', userController.register);
@@ -46,24 +53,22 @@ router.post('/conversations/:conversationId/messages', authenticateToken, conver
 
 
 // SSE 流式消息路由（POST方式，适用于长消息）
-router.post('/conversations/:conversationId/messages/stream', authenticateToken, async (req: Request, res: Response) => {
+// 先检查会话和附件，再检查并记录配额
+router.post('/conversations/:conversationId/messages/stream', authenticateToken, aiController.checkStreamMessageRequest, enforceQuota, async (req: Request, res: Response) => {
   try {
     const userId = req.user!.id;
-    const { conversationId } = req.params;
-    const { content } = req.body;
+    const { content, resources, ...request } = res.locals.message;
     
-    if (!content || typeof content !== 'string') {
-      res.status(400).json({ error: '消息内容不能为空' });
-      return;
-    }
-    
-    // 设置SSE所需的头部
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    res.setHeader('X-Accel-Buffering', 'no');
+    // 客户端断开连接时取消AI请求
+    // 请求体读取完成后 req 的 close 事件就会触发，因此监听 res 的 close 并判断响应是否已正常结束
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        controller.abort();
+      }
+    });
     
-    await aiController.handleStreamMessageSSE(userId, conversationId, content, res);
+    await aiController.handleStreamMessageSSE(userId, request, content, res, controller.signal, resources);
   } catch (error: any) {
     // 如果还没发送响应头，则发送错误JSON
     if (!res.headersSent) {
@@ -77,6 +82,13 @@ router.post('/conversations/:conversationId/messages/stream', authenticateToken,
   }
 });
 
+// 工具调用审批（SSE 方式下提交审批结果）
+router.post('/tool-approvals/:approvalId', authenticateToken, aiController.respondToolApproval);
+
+// 附件路由
+router.post('/uploads', authenticateToken, uploadController.upload);
+router.get('/uploads/:id', authenticateToken, uploadController.getFile);
+
 // 工具路由
 router.get('/tools', toolController.getAllTools); // 获取所有可用工具（无需登录）
 router.get('/user/tools', authenticateToken, toolController.getUserTools); // 获取用户启用的工具
@@ -86,6 +98,19 @@ router.put('/user/tools', authenticateToken, toolController.updateUserTools); //
 router.get('/mcps', mcpController.getAllMcps); // 获取所有可用MCP（无需登录）
 router.get('/user/mcps', authenticateToken, mcpController.getUserMcps); // 获取用户启用的MCP
 router.put('/user/mcps', authenticateToken, mcpController.updateUserMcps); // 更新用户启用的MCP
+router.get('/user/mcps/resources', authenticateToken, mcpController.getMcpResources); // 获取启用的MCP提供的资源
+router.get('/user/mcps/prompts', authenticateToken, mcpController.getMcpPrompts); // 获取启用的MCP提供的提示模板
+router.post('/user/mcps/prompts/get', authenticateToken, mcpController.getMcpPrompt); // 按参数生成提示模板的消息
+
+// 配额路由
+router.get('/user/quota', authenticateToken, quotaController.getUserQuota); // 获取用户当天的配额使用情况
+
+// 用量路由，查询参数 from、to 为 YYYY-MM-DD 格式的日期范围，默认为最近30天
+router.get('/usage/summary', authenticateToken, usageController.getSummary); // 获取用量汇总
+router.get('/usage/daily', authenticateToken, usageController.getDaily); // 按天统计用量
+router.get('/usage/models', authenticateToken, usageController.getByModel); // 按模型统计用量
+router.get('/usage/conversations', authenticateToken, usageController.getByConversation); // 按会话统计用量
+router.get('/usage/users', authenticateToken, usageController.getByUser); // 按用户统计所有用户的用量（仅管理员）
 
 // 在这里添加更多路由
 
@@ -1,5 +1,7 @@
 import { Express, Request, Response } from 'express';
 import apiRoutes from './api';
+import { McpController } from '../controllers/McpController';
+import { authenticateToken } from '../middlewares/auth';
 
 /**
  * 设置应用路由
@@ -7,4 +9,8 @@ import apiRoutes from './api';
 export function setupRoutes(app: Express): void {
   // API 路由
   app.use('/api', apiRoutes);
+
+  // MCP 服务路由，其他 MCP 客户端可以通过 streamable HTTP 使用用户启用的工具
+  const mcpController = new McpController();
+  app.all('/mcp', authenticateToken, mcpController.handleMcpServer);
 } 
\ No newline at end of file
@@ -1,38 +1,101 @@
-import { GeminiModel, UnifiedAI, ChatRole, AgentEventType } from '@oukek/unified-ai';
+import { BaseModel, CachedModel, GeminiModel, RouterModel, UnifiedAI, AgentEventType, ChatMessage, CombinedMemory, ConversationSummary, FunctionApprovalHandler, JsonResponseMiddleware, McpPrompt, McpResource, McpResourceReference, MemoryResult, MessageContent, MockModel, QuestionOptimizerMiddleware, SummaryMemory, SystemPromptMiddleware, TokenBudgetMemory } from '@oukek/unified-ai';
 import { ConfigRepository } from '../repositories/ConfigRepository';
 import { UserToolsRepository } from '../repositories/UserToolsRepository';
 import { UserMcpRepository } from '../repositories/UserMcpRepository';
+import { ModelCacheRepository } from '../repositories/ModelCacheRepository';
 import { availableTools } from '../utils/tools';
+import { McpSamplingPolicy, validateMcpConfig } from '../utils/mcps';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { getDefaultEnvironment, StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { mcpConnectionManager, McpLease } from './McpConnectionManager';
+import { mcpElicitationService } from './McpElicitationService';
+import { config } from '../config';
+import { quotaService } from './QuotaService';
+import { UsageLedgerSession, usageLedgerService } from './UsageLedgerService';
+import { UsageSource } from '../entities/UsageRecord';
 
 export class AIService {
   private configRepository: ConfigRepository;
   private userToolsRepository: UserToolsRepository;
   private userMcpRepository: UserMcpRepository;
+  private modelCacheRepository: ModelCacheRepository;
   
   constructor() {
     this.configRepository = new ConfigRepository();
     this.userToolsRepository = new UserToolsRepository();
     this.userMcpRepository = new UserMcpRepository();
+    this.modelCacheRepository = new ModelCacheRepository();
   }
   
   /**
    * 创建AI实例
    * @param apiKey API密钥
+   * @param ledger 用量记录，传入时记录对话和问题优化的每次模型调用
    */
-  private createAI(apiKey: string): UnifiedAI {
+  private createAI(apiKey: string, ledger?: UsageLedgerSession): UnifiedAI {
     try {
-      const geminiModel = new GeminiModel({
-        apiKey,
+      // 模型同时请求多个工具时并发执行，问题优化、系统提示和 JSON 解析通过内置中间件启用
+      // 相同问题的优化结果从缓存读取
+      const middlewares = [
+        new QuestionOptimizerMiddleware({ model: this.createCachedModel(apiKey, ledger, 'optimize') }),
+        new SystemPromptMiddleware(),
+        new JsonResponseMiddleware(),
+      ];
+      return new UnifiedAI(this.createModel(apiKey, ledger), {
+        concurrency: 4,
+        middlewares: ledger ? [...middlewares, ledger.middleware] : middlewares,
       });
-      return new UnifiedAI(geminiModel);
     } catch (error) {
       console.error('创建AI实例失败:', error);
       throw error;
     }
   }
   
+  /**
+   * 创建基础模型，用于不需要工具和增强提示的请求，如生成摘要
+   * 主模型请求失败时按配置重试并切换到备用模型
+   * @param apiKey API密钥
+   * @param ledger 用量记录，传入时记录经过该模型的每次调用
+   * @param source 调用来源
+   */
+  private createModel(apiKey: string, ledger?: UsageLedgerSession, source: UsageSource = 'chat'): BaseModel {
+    const models = [config.model.name, ...config.model.fallbackModels];
+    const model = new RouterModel({
+      routes: models.map(model => ({ name: model, model: new GeminiModel({ apiKey, model }) })),
+      retries: config.model.retries,
+      backoff: config.model.backoff,
+      onFallback: ({ from, to, error, attempts }) => {
+        console.warn(`模型 ${from} 请求失败 ${attempts} 次，切换到 ${to}：`, error.message);
+      },
+    });
+    return ledger ? ledger.wrap(model, source) : model;
+  }
+  
+  /**
+   * 创建带响应缓存的基础模型，用于生成标题和问题优化等经常重复的请求
+   * 未启用缓存时返回基础模型，命中缓存的请求不产生用量记录
+   * @param apiKey API密钥
+   * @param ledger 用量记录
+   * @param source 调用来源
+   */
+  private createCachedModel(apiKey: string, ledger?: UsageLedgerSession, source?: UsageSource): BaseModel {
+    const model = this.createModel(apiKey, ledger, source);
+    if (!config.cache.enabled) {
+      return model;
+    }
+    return new CachedModel(model, { store: this.modelCacheRepository, ttl: config.cache.ttl });
+  }
+  
+  /**
+   * 结束一次请求的用量记录，按记录的用量累加用户当天的 token 配额后保存记录
+   * 在 finally 中调用，请求失败或取消前已消耗的 token 同样计入配额
+   * @param userId 用户ID
+   * @param ledger 用量记录
+   */
+  private async finishLedger(userId: string, ledger: UsageLedgerSession): Promise<void> {
+    await quotaService.recordUsage(userId, ledger.getUsage());
+    await ledger.flush();
+  }
+  
   /**
    * 获取用户的API密钥
    * @param userId 用户ID
@@ -46,51 +109,137 @@ export class AIService {
   }
   
   /**
-   * 获取用户MCP配置
+   * 获取用户启用的所有MCP客户端
+   * 单个MCP连接失败时跳过，不影响其他MCP
    * @param userId 用户ID
+   * @returns MCP客户端、用户的采样策略和归还连接的清理函数
    */
-  private async getUserMcp(userId: string): Promise<{client?: Client, cleanup?: () => Promise<void>}> {
+  private async getUserMcps(userId: string): Promise<{clients: Array<{ name: string, client: Client }>, samplingPolicy?: McpSamplingPolicy, cleanup?: () => Promise<void>}> {
     try {
       // 获取用户MCP配置
       const userMcps = await this.userMcpRepository.findByUserId(userId);
       if (!userMcps || !userMcps.enabledMcps || userMcps.enabledMcps.length === 0) {
         console.warn(`用户未启用任何MCP`);
-        return {};
+        return { clients: [] };
       }
       
-      // 获取第一个启用的MCP
-      const mcpName = userMcps.enabledMcps[0];
-      
-      // 获取MCP配置
-      const mcpConfig = userMcps.mcpConfigs?.[mcpName];
-      if (!mcpConfig || !mcpConfig.command || !Array.isArray(mcpConfig.args)) {
-        console.warn(`MCP配置不完整: ${mcpName}`);
-        return {};
-      }
-      
-      // 创建MCP客户端
-      const mcpClient = new Client({ name: mcpName, version: '1.0.0' });
-      const transport = new StdioClientTransport({
-        command: mcpConfig.command,
-        args: mcpConfig.args,
-        env: Object.assign({}, getDefaultEnvironment(), mcpConfig.env || {})
-      });
-      
-      // 连接到传输层
-      await mcpClient.connect(transport);
+      // 同时连接所有启用的MCP
+      const results = await Promise.all(userMcps.enabledMcps.map(async (mcpName) => {
+        // 获取MCP配置
+        const mcpConfig = userMcps.mcpConfigs?.[mcpName];
+        const configError = validateMcpConfig(mcpName, mcpConfig);
+        if (configError) {
+          console.warn(`MCP配置不完整: ${configError}`);
+          return null;
+        }
+        
+        try {
+          // 从连接池获取MCP客户端，连接在多轮对话之间复用
+          const lease = await mcpConnectionManager.acquire(userId, mcpName, mcpConfig);
+          return { name: mcpName, ...lease };
+        } catch (error) {
+          console.error(`初始化MCP客户端失败: ${mcpName}`, error);
+          return null;
+        }
+      }));
+      const clients = results.filter((item): item is { name: string } & McpLease => item !== null);
       
-      // 创建清理函数
+      // 创建清理函数，归还连接而不是关闭
       const cleanup = async () => {
-        if (mcpClient) {
-          await mcpClient.close();
-        }
+        clients.forEach(({ release }) => release());
       };
       
-      return { client: mcpClient, cleanup };
+      return { clients, samplingPolicy: userMcps.samplingPolicy || undefined, cleanup };
     } catch (error) {
       console.error(`初始化MCP客户端失败:`, error);
-      return {};
+      return { clients: [] };
+    }
+  }
+  
+  /**
+   * 将用户启用的MCP添加到AI实例
+   * MCP 工具可能修改文件等外部资源，执行前需要用户审批
+   * MCP 服务的采样请求按用户的采样策略使用该AI实例的模型，信息征询通过 WebSocket 询问用户
+   * 处理器注册在本次请求借出的客户端上，归还连接后移除，不影响同时使用该连接的其他请求
+   * @param userId 用户ID
+   * @param ai AI实例
+   * @returns 归还MCP连接的清理函数
+   */
+  private async useUserMcps(userId: string, ai: UnifiedAI): Promise<(() => Promise<void>) | undefined> {
+    const { clients, samplingPolicy, cleanup } = await this.getUserMcps(userId);
+    const sampling = samplingPolicy?.enabled ? { maxTokens: samplingPolicy.maxTokens } : false;
+    
+    // 工具名以MCP名称为前缀以免重名
+    for (const { name, client } of clients) {
+      ai.useMcp(client, {
+        name,
+        requiresApproval: true,
+        sampling,
+        elicitationHandler: (request, { signal }) => mcpElicitationService.ask(userId, request, signal),
+      });
     }
+    
+    return cleanup;
+  }
+  
+  /**
+   * 使用带有用户MCP的AI实例执行操作，完成后归还MCP连接
+   * @param userId 用户ID
+   * @param action 要执行的操作
+   */
+  private async withUserMcps<T>(userId: string, action: (ai: UnifiedAI) => Promise<T>): Promise<T> {
+    // 操作期间 MCP 服务发起的采样请求同样记录用量
+    const ledger = usageLedgerService.createSession(userId);
+    const ai = this.createAI(await this.getUserApiKey(userId), ledger);
+    const cleanup = await this.useUserMcps(userId, ai);
+    try {
+      return await action(ai);
+    } finally {
+      await cleanup?.();
+      await this.finishLedger(userId, ledger);
+    }
+  }
+  
+  /**
+   * 获取用户启用的MCP提供的资源
+   * @param userId 用户ID
+   */
+  async listMcpResources(userId: string): Promise<McpResource[]> {
+    return this.withUserMcps(userId, ai => ai.listMcpResources());
+  }
+  
+  /**
+   * 获取用户启用的MCP提供的提示模板
+   * @param userId 用户ID
+   */
+  async listMcpPrompts(userId: string): Promise<McpPrompt[]> {
+    return this.withUserMcps(userId, ai => ai.listMcpPrompts());
+  }
+  
+  /**
+   * 按参数生成MCP提示模板的消息
+   * @param userId 用户ID
+   * @param server MCP名称
+   * @param name 提示模板名称
+   * @param args 提示模板参数
+   */
+  async getMcpPrompt(userId: string, server: string, name: string, args: Record<string, string>): Promise<ChatMessage[]> {
+    return this.withUserMcps(userId, ai => ai.getMcpPrompt(name, args, server));
+  }
+  
+  /**
+   * 创建只添加了用户启用工具的AI实例，用于以MCP服务的形式发布工具
+   * 工具使用用户保存的工具配置，实例上的模型不会被调用
+   * @param userId 用户ID
+   */
+  async createUserToolsAI(userId: string): Promise<UnifiedAI> {
+    // 只执行工具，不调用模型，因此不需要用户的 API 密钥
+    // 通过 MCP 调用时没有审批界面，需要审批的工具不发布
+    const tools = await this.getUserTools(userId);
+    return new UnifiedAI(new MockModel({ responses: [] }), {
+      concurrency: 4,
+      functions: tools.filter(tool => !tool.requiresApproval),
+    });
   }
   
   /**
@@ -122,17 +271,19 @@ export class AIService {
    * @param userId 用户ID
    * @param userMessage 用户消息
    * @param aiResponse AI响应
+   * @param conversationId 会话ID，用于记录用量
    */
-  async generateTitle(userId: string, userMessage: string, aiResponse: string): Promise<string> {
+  async generateTitle(userId: string, userMessage: string, aiResponse: string, conversationId?: string): Promise<string> {
+    const ledger = usageLedgerService.createSession(userId, conversationId);
     try {
       // 获取API密钥
       const apiKey = await this.getUserApiKey(userId);
       
-      // 创建AI实例
-      const ai = this.createAI(apiKey);
+      // 标题只需要模型直接回答，相同的对话从缓存读取
+      const model = this.createCachedModel(apiKey, ledger, 'title');
       
       // 发送请求生成标题
-      const titleResponse = await ai.unifiedChat(
+      const titleResponse = await model.unifiedChat(
         `基于以下对话生成一个简短的标题（不超过15个字符），请严格返回一个简短的标题，不要返回任何其他内容：\n用户: ${userMessage}\n助手: ${aiResponse.substring(0, 100)}`
       );
       
@@ -142,43 +293,84 @@ export class AIService {
       console.error('生成标题失败:', error);
       // 生成失败时使用截断的用户消息作为标题
       return userMessage.length > 15 ? `${userMessage.substring(0, 12)}...` : userMessage;
+    } finally {
+      await this.finishLedger(userId, ledger);
+    }
+  }
+  
+  /**
+   * 处理会话历史记录，控制发送给模型的上下文长度
+   * 较早的消息压缩为摘要，剩余的历史记录仍然过长时按 token 预算裁剪
+   * @param userId 用户ID
+   * @param history 完整的历史对话记录，保留下来的消息与传入的是同一个对象
+   * @param summary 会话已保存的摘要
+   * @param signal 取消信号
+   * @param conversationId 会话ID，用于记录生成摘要的用量
+   * @returns 发送给模型的历史记录和最新的摘要
+   */
+  async applyMemory(
+    userId: string,
+    history: ChatMessage[],
+    summary?: ConversationSummary,
+    signal?: AbortSignal,
+    conversationId?: string,
+  ): Promise<MemoryResult> {
+    const ledger = usageLedgerService.createSession(userId, conversationId);
+    const memory = new CombinedMemory([
+      new SummaryMemory({
+        model: this.createModel(await this.getUserApiKey(userId), ledger, 'summary'),
+        triggerMessages: config.memory.summaryTriggerMessages,
+        keepMessages: config.memory.keepMessages,
+      }),
+      new TokenBudgetMemory({ maxTokens: config.memory.maxHistoryTokens }),
+    ]);
+    try {
+      return await memory.apply(history, { summary, signal });
+    } finally {
+      await this.finishLedger(userId, ledger);
     }
   }
   
   /**
    * 使用流式响应发送消息到AI
    * @param userId 用户ID
-   * @param content 用户消息内容
-   * @param history 历史对话记录
+   * @param content 用户消息内容，可以包含图片、文件等附件
+   * @param history 历史对话记录，通过 applyMemory 处理后的结果
    * @param systemMessage 系统消息
    * @param callback 流式回调函数
+   * @param signal 取消信号，客户端断开或主动取消时停止生成
+   * @param approvalHandler 工具调用审批处理器
+   * @param resources 作为上下文附加的MCP资源
+   * @param conversationId 会话ID，用于记录用量
    */
   async sendMessageStream(
     userId: string,
-    content: string,
-    history: Array<{ role: 'user' | 'assistant', content: string }>,
+    content: MessageContent,
+    history: ChatMessage[],
     systemMessage?: string,
     callback?: (eventType: string, data: any) => void,
+    signal?: AbortSignal,
+    approvalHandler?: FunctionApprovalHandler,
+    resources?: McpResourceReference[],
+    conversationId?: string,
   ): Promise<void> {
     // MCP相关资源
-    let mcpClient: Client | undefined;
     let mcpCleanup: (() => Promise<void>) | undefined;
+    // 记录本次请求的每次模型调用
+    const ledger = usageLedgerService.createSession(userId, conversationId);
     
     try {
       // 获取API密钥
       const apiKey = await this.getUserApiKey(userId);
       
       // 创建AI实例
-      const ai = this.createAI(apiKey);
+      const ai = this.createAI(apiKey, ledger);
       
       // 初始化MCP客户端
-      const { client, cleanup } = await this.getUserMcp(userId);
-      mcpClient = client;
-      mcpCleanup = cleanup;
-      
-      // 如果MCP客户端初始化成功，添加到AI实例
-      if (mcpClient) {
-        ai.useMcp(mcpClient);
+      mcpCleanup = await this.useUserMcps(userId, ai);
+
+      if (approvalHandler) {
+        ai.useApprovalHandler(approvalHandler);
       }
       
       // 获取并添加用户启用的工具
@@ -187,12 +379,6 @@ export class AIService {
         ai.addFunctions(tools);
       }
       
-      // 转换历史记录格式
-      const formattedHistory = history.map(msg => ({
-        role: msg.role === 'user' ? ChatRole.USER : ChatRole.ASSISTANT,
-        content: msg.content
-      }));
-      
       // 将 AgentEventType 常量映射到事件类型字符串
       const eventTypeMap = {
         [AgentEventType.RESPONSE_CHUNK]: 'responseChunk',
@@ -209,11 +395,13 @@ export class AIService {
       
       // 发送流式请求到AI
       const response = await ai.unifiedChatStream(content, {
-        history: formattedHistory,
-        systemMessage: systemMessage || undefined
+        history,
+        systemMessage: systemMessage || undefined,
+        signal,
+        resources
       }, wrappedCallback);
       
-      // 消费流
+      // 消费流，消耗的 token 在结束时按用量记录计入配额
       for await (const _ of response) {
         // 已经通过回调处理了每个块
       }
@@ -229,6 +417,7 @@ export class AIService {
           console.error('清理MCP资源失败:', error);
         }
       }
+      await this.finishLedger(userId, ledger);
     }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,378 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { getDefaultEnvironment, StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { ErrorCode, McpError, ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { config } from '../config';
+import { Mcp } from '../utils/mcps';
+
+/** MCP 服务的连接配置 */
+export type McpServerConfig = Omit<Mcp, 'name' | 'desc'>;
+
+/** 从连接池中借出的 MCP 客户端，用完后需要调用 release 归还 */
+export interface McpLease {
+  client: Client;
+  release: () => void;
+}
+
+type RequestSchema = Parameters<Client['setRequestHandler']>[0];
+type RequestHandler = (request: any, extra: any) => any;
+
+/**
+ * 缓存工具列表的 MCP 客户端
+ * 每轮对话都会获取工具列表，连接复用后只在服务通知工具变化时重新获取
+ */
+class PooledMcpClient extends Client {
+  private toolsCache?: ReturnType<Client['listTools']>;
+  // 正在使用该连接的请求注册的处理器，按借出顺序排列
+  private leaseHandlers: Map<string, RequestHandler>[] = [];
+  // 已注册分发处理器的请求方法
+  private dispatchedMethods = new Set<string>();
+
+  constructor(name: string) {
+    // 声明采样和信息征询能力，具体的处理器在每次使用时按用户设置注册
+    super({ name, version: '1.0.0' }, { capabilities: { sampling: {}, elicitation: {} } });
+  }
+
+  /**
+   * 为一次请求借出客户端
+   * 通过返回的客户端注册的请求处理器只属于该请求，同一用户同时进行的多个请求不会互相覆盖，
+   * 服务发起的请求交给最近借出且注册了对应处理器的请求处理
+   * @returns 该请求使用的客户端和归还时移除处理器的函数
+   */
+  lease(): { client: Client, release: () => void } {
+    const handlers = new Map<string, RequestHandler>();
+    this.leaseHandlers.push(handlers);
+
+    const client = new Proxy(this, {
+      get: (target, property) => {
+        if (property === 'setRequestHandler') {
+          return (schema: RequestSchema, handler: RequestHandler) => {
+            this.registerDispatcher(schema);
+            handlers.set(schema.shape.method.value, handler);
+          };
+        }
+        if (property === 'removeRequestHandler') {
+          return (method: string) => {
+            handlers.delete(method);
+          };
+        }
+        const value = Reflect.get(target, property, target);
+        return typeof value === 'function' ? value.bind(target) : value;
+      },
+    });
+
+    return {
+      client,
+      release: () => {
+        this.leaseHandlers = this.leaseHandlers.filter(item => item !== handlers);
+      },
+    };
+  }
+
+  /**
+   * 为请求方法注册一次分发处理器，服务发起请求时查找正在使用连接的请求注册的处理器
+   * @param schema 请求定义
+   * @throws 客户端未声明对应能力时抛出错误
+   */
+  private registerDispatcher(schema: RequestSchema): void {
+    const method: string = schema.shape.method.value;
+    if (this.dispatchedMethods.has(method)) {
+      return;
+    }
+
+    super.setRequestHandler(schema, (request, extra) => {
+      const handlers = [...this.leaseHandlers].reverse().find(item => item.has(method));
+      if (!handlers) {
+        throw new McpError(ErrorCode.MethodNotFound, `当前没有可以处理 ${method} 请求的对话`);
+      }
+      return handlers.get(method)!(request, extra);
+    });
+    this.dispatchedMethods.add(method);
+  }
+
+  listTools(...args: Parameters<Client['listTools']>): ReturnType<Client['listTools']> {
+    // 带分页游标的请求不缓存
+    if (args[0]?.cursor) {
+      return super.listTools(...args);
+    }
+    if (!this.toolsCache) {
+      const tools = super.listTools(...args);
+      // 获取失败时不缓存，下次重新获取
+      tools.catch(() => {
+        if (this.toolsCache === tools) {
+          this.toolsCache = undefined;
+        }
+      });
+      this.toolsCache = tools;
+    }
+    return this.toolsCache;
+  }
+
+  clearToolsCache(): void {
+    this.toolsCache = undefined;
+  }
+}
+
+interface McpConnection {
+  key: string;
+  name: string;
+  config: McpServerConfig;
+  client?: PooledMcpClient;
+  connecting?: Promise<PooledMcpClient>;
+  // 正在使用该连接的请求数
+  users: number;
+  // 连续异常退出后的重启次数
+  restarts: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * MCP 连接管理器
+ * 保持 MCP 连接常驻，同一用户连接配置相同的 MCP 共享同一个连接
+ * 连接不在用户之间共享，服务发起的采样和信息征询请求需要交给对应的用户处理
+ * 空闲超时后关闭连接，定期检查连接状态，进程异常退出时自动重启
+ */
+export class McpConnectionManager {
+  private connections = new Map<string, McpConnection>();
+  private healthCheckTimer?: NodeJS.Timeout;
+  private shuttingDown = false;
+
+  /**
+   * 借出 MCP 客户端，没有可用连接时创建新连接
+   * @param userId 用户ID
+   * @param name MCP名称
+   * @param serverConfig MCP 服务的连接配置
+   * @returns 客户端和归还函数
+   */
+  async acquire(userId: string, name: string, serverConfig: McpServerConfig): Promise<McpLease> {
+    if (this.shuttingDown) {
+      throw new Error('服务器正在关闭，无法连接MCP');
+    }
+
+    const key = JSON.stringify([
+      userId,
+      name,
+      serverConfig.transport || 'stdio',
+      serverConfig.command,
+      serverConfig.args,
+      serverConfig.env || {},
+      serverConfig.url,
+      serverConfig.headers || {},
+    ]);
+    let connection = this.connections.get(key);
+    if (!connection) {
+      connection = { key, name, config: serverConfig, users: 0, restarts: 0 };
+      this.connections.set(key, connection);
+    }
+
+    clearTimeout(connection.idleTimer);
+    connection.users++;
+    this.startHealthCheck();
+
+    try {
+      const lease = (await this.connect(connection)).lease();
+      let released = false;
+      return {
+        client: lease.client,
+        release: () => {
+          if (!released) {
+            released = true;
+            lease.release();
+            this.release(connection!);
+          }
+        },
+      };
+    } catch (error) {
+      this.release(connection);
+      throw error;
+    }
+  }
+
+  /**
+   * 关闭所有连接，服务器退出时调用
+   */
+  async shutdown(): Promise<void> {
+    this.shuttingDown = true;
+    clearInterval(this.healthCheckTimer);
+    await Promise.all([...this.connections.values()].map(connection => this.close(connection)));
+  }
+
+  /**
+   * 归还连接，没有请求使用时开始计算空闲时间
+   * @param connection 连接
+   */
+  private release(connection: McpConnection): void {
+    connection.users = Math.max(0, connection.users - 1);
+    if (connection.users === 0) {
+      clearTimeout(connection.idleTimer);
+      connection.idleTimer = setTimeout(() => {
+        console.log(`MCP连接空闲超时，关闭连接: ${connection.name}`);
+        this.close(connection);
+      }, config.mcp.idleTimeout);
+      connection.idleTimer.unref();
+    }
+  }
+
+  /**
+   * 获取已建立的连接或建立新连接，并发请求共用同一次连接过程
+   * @param connection 连接
+   * @returns 已连接的客户端
+   */
+  private connect(connection: McpConnection): Promise<PooledMcpClient> {
+    if (connection.client) {
+      return Promise.resolve(connection.client);
+    }
+    if (!connection.connecting) {
+      connection.connecting = this.createClient(connection).finally(() => {
+        connection.connecting = undefined;
+      });
+    }
+    return connection.connecting;
+  }
+
+  /**
+   * 启动或连接 MCP 服务
+   * @param connection 连接
+   * @returns 已连接的客户端
+   */
+  private async createClient(connection: McpConnection): Promise<PooledMcpClient> {
+    const client = new PooledMcpClient(connection.name);
+    const transport = this.createTransport(connection.config);
+
+    // 服务通知工具列表变化时清除缓存
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      client.clearToolsCache();
+    });
+
+    await client.connect(transport);
+
+    // 连接关闭时，如果不是主动关闭的，说明服务进程异常退出
+    client.onclose = () => {
+      if (connection.client === client) {
+        connection.client = undefined;
+        this.handleCrash(connection);
+      }
+    };
+
+    connection.client = client;
+    console.log(`MCP连接已建立: ${connection.name}`);
+    return client;
+  }
+
+  /**
+   * 按传输方式创建传输层
+   * @param serverConfig MCP 服务的连接配置
+   * @returns 传输层
+   */
+  private createTransport(serverConfig: McpServerConfig): Transport {
+    switch (serverConfig.transport || 'stdio') {
+      case 'sse':
+        return new SSEClientTransport(new URL(serverConfig.url!), {
+          // SSE 连接和发送消息的请求都需要带上请求头
+          eventSourceInit: {
+            fetch: (url, init) => fetch(url, { ...init, headers: { ...init?.headers, ...serverConfig.headers } }),
+          },
+          requestInit: { headers: serverConfig.headers },
+        });
+      case 'streamable-http':
+        return new StreamableHTTPClientTransport(new URL(serverConfig.url!), {
+          requestInit: { headers: serverConfig.headers },
+        });
+      default:
+        return new StdioClientTransport({
+          command: serverConfig.command!,
+          args: serverConfig.args,
+          env: Object.assign({}, getDefaultEnvironment(), serverConfig.env || {})
+        });
+    }
+  }
+
+  /**
+   * 处理连接异常断开，如服务进程退出或远程服务断开
+   * 仍有请求在使用时立即重连，否则移除连接，下次使用时再连接
+   * @param connection 连接
+   */
+  private handleCrash(connection: McpConnection): void {
+    if (this.shuttingDown || this.connections.get(connection.key) !== connection) {
+      return;
+    }
+
+    if (connection.users === 0) {
+      console.warn(`MCP服务已退出: ${connection.name}`);
+      this.connections.delete(connection.key);
+      return;
+    }
+
+    if (connection.restarts >= config.mcp.maxRestarts) {
+      console.error(`MCP服务多次异常退出，不再重启: ${connection.name}`);
+      this.connections.delete(connection.key);
+      return;
+    }
+
+    connection.restarts++;
+    console.warn(`MCP服务异常退出，正在重启（第${connection.restarts}次）: ${connection.name}`);
+    this.connect(connection).catch((error) => {
+      console.error(`重启MCP服务失败: ${connection.name}`, error);
+    });
+  }
+
+  /**
+   * 关闭连接并移出连接池
+   * @param connection 连接
+   */
+  private async close(connection: McpConnection): Promise<void> {
+    clearTimeout(connection.idleTimer);
+    if (this.connections.get(connection.key) === connection) {
+      this.connections.delete(connection.key);
+    }
+
+    const client = connection.client ?? await connection.connecting?.catch(() => undefined);
+    connection.client = undefined;
+    try {
+      await client?.close();
+    } catch (error) {
+      console.error(`关闭MCP连接失败: ${connection.name}`, error);
+    }
+
+    if (this.connections.size === 0) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = undefined;
+    }
+  }
+
+  /**
+   * 启动定期健康检查，没有响应的连接会被关闭并按异常退出处理
+   */
+  private startHealthCheck(): void {
+    if (this.healthCheckTimer) {
+      return;
+    }
+
+    this.healthCheckTimer = setInterval(() => {
+      for (const connection of this.connections.values()) {
+        const client = connection.client;
+        if (!client) {
+          continue;
+        }
+
+        client.ping({ timeout: config.mcp.healthCheckTimeout })
+          .then(() => {
+            connection.restarts = 0;
+          })
+          .catch((error) => {
+            console.warn(`MCP健康检查失败: ${connection.name}`, error.message);
+            // 关闭后会触发 onclose，按异常退出处理
+            client.close().catch(() => {});
+          });
+      }
+    }, config.mcp.healthCheckInterval);
+
+    // 健康检查不应阻止进程退出
+    this.healthCheckTimer.unref();
+  }
+}
+
+// MCP 连接需要在所有请求之间复用，因此使用单例
+export const mcpConnectionManager = new McpConnectionManager();
@@ -0,0 +1,91 @@
+import { randomUUID } from 'crypto';
+import { McpElicitationRequest, McpElicitationResult } from '@oukek/unified-ai';
+import { config } from '../config';
+import { emitToRoom, getRoomClients } from '../socket';
+import { SocketKey } from '../socket/key';
+
+interface PendingElicitation {
+  userId: string;
+  resolve: (result: McpElicitationResult) => void;
+}
+
+/**
+ * MCP信息征询服务
+ * 通过 WebSocket 把 MCP 服务的问题发给用户，并等待用户回答
+ */
+export class McpElicitationService {
+  private pending = new Map<string, PendingElicitation>();
+
+  /**
+   * 向用户发起信息征询并等待回答
+   * @param userId 用户ID，只有该用户可以回答
+   * @param request 信息征询请求
+   * @param signal 取消信号，请求取消时结束征询
+   * @returns 用户的回答，用户不在线时拒绝，超时或取消时按取消处理
+   */
+  async ask(userId: string, request: McpElicitationRequest, signal?: AbortSignal): Promise<McpElicitationResult> {
+    const room = SocketKey.room.user(userId);
+    if ((await getRoomClients(room)).length === 0) {
+      return { action: 'decline' };
+    }
+
+    const elicitationId = randomUUID();
+
+    return new Promise<McpElicitationResult>((resolve) => {
+      const finish = (result: McpElicitationResult) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.pending.delete(elicitationId);
+        // 通知客户端关闭问题，用户可能在其他页面已经回答
+        emitToRoom(room, 'mcp:elicitationEnd', { elicitationId });
+        resolve(result);
+      };
+      const onAbort = () => finish({ action: 'cancel' });
+      const timer = setTimeout(() => finish({ action: 'cancel' }), config.mcp.elicitationTimeout);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(elicitationId, { userId, resolve: finish });
+
+      emitToRoom(room, 'mcp:elicitation', {
+        elicitationId,
+        server: request.server,
+        message: request.message,
+        requestedSchema: request.requestedSchema,
+      });
+    });
+  }
+
+  /**
+   * 提交用户的回答
+   * @param elicitationId 信息征询ID
+   * @param userId 回答的用户ID
+   * @param result 用户的回答
+   * @returns 是否找到对应的信息征询
+   */
+  respond(elicitationId: string, userId: string, result: McpElicitationResult): boolean {
+    const elicitation = this.pending.get(elicitationId);
+    if (!elicitation || elicitation.userId !== userId) {
+      return false;
+    }
+    elicitation.resolve(result);
+    return true;
+  }
+
+  /**
+   * 校验并规范化客户端提交的回答
+   * @param input 客户端提交的数据
+   * @returns 回答，格式不正确时返回 null
+   */
+  static parseResult(input: any): McpElicitationResult | null {
+    if (input?.action === 'accept' && input.content && typeof input.content === 'object' && !Array.isArray(input.content)) {
+      return { action: 'accept', content: input.content };
+    }
+    if (input?.action === 'decline' || input?.action === 'cancel') {
+      return { action: input.action };
+    }
+    return null;
+  }
+}
+
+// 信息征询需要在 AI 请求和 WebSocket 连接之间共享，因此使用单例
+export const mcpElicitationService = new McpElicitationService();
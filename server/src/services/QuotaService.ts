@@ -0,0 +1,174 @@
+import { TokenUsage } from '@oukek/unified-ai';
+import { UserQuotaRepository } from '../repositories/UserQuotaRepository';
+import { config } from '../config';
+import { formatDate } from '../utils/date';
+
+/** 每分钟请求数的统计窗口（毫秒） */
+const RATE_LIMIT_WINDOW = 60 * 1000;
+
+/**
+ * 超出配额的原因
+ */
+export type QuotaExceededCode = 'RATE_LIMITED' | 'DAILY_REQUESTS_EXCEEDED' | 'DAILY_TOKENS_EXCEEDED';
+
+/**
+ * 单项配额的使用情况
+ */
+export interface QuotaUsage {
+  used: number; // 已使用的数量
+  limit: number; // 上限，为0时不限制
+  remaining: number | null; // 剩余数量，不限制时为 null
+}
+
+/**
+ * 用户当天的配额状态
+ */
+export interface QuotaStatus {
+  date: string; // 统计日期
+  requests: QuotaUsage; // 对话请求数
+  tokens: QuotaUsage; // token 数
+  requestsPerMinute: number; // 每分钟最多请求数，为0时不限制
+  resetAt: string; // 每日配额的重置时间
+}
+
+/**
+ * 超出配额时抛出的错误，REST 接口返回 429，WebSocket 通过 ai:chatError 发送
+ */
+export class QuotaExceededError extends Error {
+  constructor(message: string, public readonly code: QuotaExceededCode, public readonly resetAt: Date) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+
+  /**
+   * 距离重置还需等待的秒数
+   */
+  get retryAfter(): number {
+    return Math.max(1, Math.ceil((this.resetAt.getTime() - Date.now()) / 1000));
+  }
+
+  toJSON() {
+    return {
+      error: this.message,
+      code: this.code,
+      resetAt: this.resetAt.toISOString(),
+      retryAfter: this.retryAfter,
+    };
+  }
+}
+
+/**
+ * 用户配额服务
+ * 每日请求数和 token 数按天保存在数据库中，每分钟请求数只在内存中统计
+ */
+export class QuotaService {
+  private userQuotaRepository = new UserQuotaRepository();
+  // 每个用户最近一分钟内的请求时间
+  private recentRequests = new Map<string, number[]>();
+  // 上次清理 recentRequests 的时间
+  private lastPrunedAt = 0;
+
+  /**
+   * 获取用户当天的配额状态
+   * @param userId 用户ID
+   */
+  async getStatus(userId: string): Promise<QuotaStatus> {
+    const date = formatDate();
+    const quota = await this.userQuotaRepository.findByUserIdAndDate(userId, date);
+    return {
+      date,
+      requests: this.toUsage(quota?.requestCount || 0, config.quota.requestsPerDay),
+      tokens: this.toUsage(quota?.totalTokens || 0, config.quota.tokensPerDay),
+      requestsPerMinute: config.quota.requestsPerMinute,
+      resetAt: this.getResetTime().toISOString(),
+    };
+  }
+
+  /**
+   * 检查配额并记录一次对话请求
+   * 每分钟请求数在第一次等待前占用，每日请求数的检查和增加在同一条语句中完成，并发请求不会超出上限
+   * @param userId 用户ID
+   * @throws QuotaExceededError 超出每分钟请求数、每日请求数或每日 token 数时抛出
+   */
+  async consume(userId: string): Promise<void> {
+    const now = Date.now();
+    this.pruneRecentRequests(now);
+    const recent = (this.recentRequests.get(userId) || []).filter(time => now - time < RATE_LIMIT_WINDOW);
+    if (config.quota.requestsPerMinute > 0 && recent.length >= config.quota.requestsPerMinute) {
+      const resetAt = new Date(recent[0] + RATE_LIMIT_WINDOW);
+      throw new QuotaExceededError(`请求过于频繁，请在 ${Math.ceil((resetAt.getTime() - now) / 1000)} 秒后重试`, 'RATE_LIMITED', resetAt);
+    }
+    recent.push(now);
+    this.recentRequests.set(userId, recent);
+
+    try {
+      const date = formatDate();
+      const resetAt = this.getResetTime();
+      const quota = await this.userQuotaRepository.findByUserIdAndDate(userId, date);
+      if (this.toUsage(quota?.totalTokens || 0, config.quota.tokensPerDay).remaining === 0) {
+        throw new QuotaExceededError(`今日 token 额度已用完，将于 ${this.formatTime(resetAt)} 重置`, 'DAILY_TOKENS_EXCEEDED', resetAt);
+      }
+      if (!await this.userQuotaRepository.tryIncrementRequests(userId, date, config.quota.requestsPerDay)) {
+        throw new QuotaExceededError(`今日请求次数已用完，将于 ${this.formatTime(resetAt)} 重置`, 'DAILY_REQUESTS_EXCEEDED', resetAt);
+      }
+    } catch (error) {
+      // 请求没有被记录时归还占用的每分钟请求数
+      const index = recent.indexOf(now);
+      if (index !== -1) {
+        recent.splice(index, 1);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 记录模型消耗的 token 数，记录失败时不影响对话
+   * @param userId 用户ID
+   * @param usage 消耗的 token 数，命中缓存等没有消耗时为空
+   */
+  async recordUsage(userId: string, usage?: TokenUsage): Promise<void> {
+    if (!usage?.totalTokens) {
+      return;
+    }
+    try {
+      await this.userQuotaRepository.addUsage(userId, formatDate(), usage);
+    } catch (error) {
+      console.error('记录token用量失败:', error);
+    }
+  }
+
+  /**
+   * 移除最近一分钟内没有请求的用户，每个统计窗口最多执行一次
+   */
+  private pruneRecentRequests(now: number): void {
+    if (now - this.lastPrunedAt < RATE_LIMIT_WINDOW) {
+      return;
+    }
+    this.lastPrunedAt = now;
+    for (const [userId, times] of this.recentRequests) {
+      if (times.length === 0 || now - times[times.length - 1] >= RATE_LIMIT_WINDOW) {
+        this.recentRequests.delete(userId);
+      }
+    }
+  }
+
+  private toUsage(used: number, limit: number): QuotaUsage {
+    return { used, limit, remaining: limit > 0 ? Math.max(0, limit - used) : null };
+  }
+
+  /**
+   * 获取每日配额的重置时间，即下一个零点
+   */
+  private getResetTime(): Date {
+    const resetAt = new Date();
+    resetAt.setHours(24, 0, 0, 0);
+    return resetAt;
+  }
+
+  private formatTime(date: Date): string {
+    return date.toLocaleString('zh-CN', { hour12: false });
+  }
+}
+
+// 配额需要在 REST 接口和 WebSocket 之间共享每分钟的请求统计，因此使用单例
+export const quotaService = new QuotaService();
@@ -0,0 +1,84 @@
+import { randomUUID } from 'crypto';
+import { FunctionApprovalDecision } from '@oukek/unified-ai';
+import { config } from '../config';
+
+interface PendingApproval {
+  userId: string;
+  resolve: (decision: FunctionApprovalDecision) => void;
+}
+
+/**
+ * 工具调用审批服务
+ * 保存等待用户审批的工具调用，WebSocket 和 HTTP 请求都通过它提交审批结果
+ */
+export class ToolApprovalService {
+  private pending = new Map<string, PendingApproval>();
+
+  /**
+   * 创建审批请求并等待结果
+   * @param userId 用户ID，只有该用户可以提交审批结果
+   * @param signal 取消信号，请求取消时拒绝执行
+   * @returns 审批ID和等待审批结果的 Promise，超时后拒绝执行
+   */
+  request(userId: string, signal?: AbortSignal): { approvalId: string; decision: Promise<FunctionApprovalDecision> } {
+    const approvalId = randomUUID();
+
+    // 已取消的请求不会再触发 abort 事件，直接拒绝执行
+    if (signal?.aborted) {
+      return { approvalId, decision: Promise.resolve({ type: 'deny', reason: '请求已取消' }) };
+    }
+
+    const decision = new Promise<FunctionApprovalDecision>((resolve) => {
+      const finish = (result: FunctionApprovalDecision) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.pending.delete(approvalId);
+        resolve(result);
+      };
+      const onAbort = () => finish({ type: 'deny', reason: '请求已取消' });
+      const timer = setTimeout(() => finish({ type: 'deny', reason: '等待审批超时' }), config.toolApproval.timeout);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(approvalId, { userId, resolve: finish });
+    });
+
+    return { approvalId, decision };
+  }
+
+  /**
+   * 提交审批结果
+   * @param approvalId 审批ID
+   * @param userId 提交审批的用户ID
+   * @param decision 审批结果
+   * @returns 是否找到对应的审批请求
+   */
+  respond(approvalId: string, userId: string, decision: FunctionApprovalDecision): boolean {
+    const approval = this.pending.get(approvalId);
+    if (!approval || approval.userId !== userId) {
+      return false;
+    }
+    approval.resolve(decision);
+    return true;
+  }
+
+  /**
+   * 校验并规范化客户端提交的审批结果
+   * @param input 客户端提交的数据
+   * @returns 审批结果，格式不正确时返回 null
+   */
+  static parseDecision(input: any): FunctionApprovalDecision | null {
+    if (input?.type === 'approve') {
+      return { type: 'approve' };
+    }
+    if (input?.type === 'deny') {
+      return { type: 'deny', reason: typeof input.reason === 'string' ? input.reason : undefined };
+    }
+    if (input?.type === 'edit' && input.arguments && typeof input.arguments === 'object' && !Array.isArray(input.arguments)) {
+      return { type: 'edit', arguments: input.arguments };
+    }
+    return null;
+  }
+}
+
+// 审批请求需要在 WebSocket、SSE 和 HTTP 请求之间共享，因此使用单例
+export const toolApprovalService = new ToolApprovalService();
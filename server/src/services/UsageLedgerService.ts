@@ -0,0 +1,309 @@
+import {
+  AgentFunctionSchema,
+  BaseModel,
+  ChatOptions,
+  MessageContent,
+  MiddlewareContext,
+  ModelHelpers,
+  ResponseTypeForOptions,
+  StreamChunkTypeForOptions,
+  TokenUsage,
+  UnifiedAIMiddleware,
+} from '@oukek/unified-ai';
+import { UsageRecord, UsageSource } from '../entities/UsageRecord';
+import { UsageFilter, UsageGroupBy, UsageRecordRepository } from '../repositories/UsageRecordRepository';
+import { config } from '../config';
+import { formatDate } from '../utils/date';
+
+/**
+ * 用量汇总
+ */
+export interface UsageTotals {
+  calls: number; // 模型调用次数
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  toolCalls: number; // 执行的函数数量
+  averageLatency: number; // 平均调用耗时（毫秒）
+  cost: number; // 估算费用（美元）
+  errors: number; // 失败的调用次数
+}
+
+/**
+ * 分组的用量汇总，key 为分组字段的值
+ */
+export interface UsageBreakdownItem extends UsageTotals {
+  key: string | null;
+}
+
+/** 传递模型调用ID的选项字段，由会话的中间件在调用模型前设置 */
+const CALL_ID_OPTION = 'usageLedgerCallId';
+
+/**
+ * 记录模型调用的包装模型
+ * 每次调用结束后向会话记录一条用量，调用失败或中途取消时同样记录
+ */
+class LedgerModel extends BaseModel {
+  constructor(private model: BaseModel, private session: UsageLedgerSession, private source: UsageSource) {
+    super();
+  }
+
+  getDefaultModel(): string {
+    return this.model.getDefaultModel();
+  }
+
+  supportsTools(model?: string): boolean {
+    return this.model.supportsTools(model);
+  }
+
+  supportsSystemMessages(model?: string): boolean {
+    return this.model.supportsSystemMessages(model);
+  }
+
+  convertToolsFormat(tools: AgentFunctionSchema[]): any {
+    return this.model.convertToolsFormat(tools);
+  }
+
+  async countTokens(prompt: MessageContent, options?: ChatOptions): Promise<number> {
+    return this.model.countTokens(prompt, options);
+  }
+
+  async unifiedChat<T extends ChatOptions | undefined = undefined>(
+    prompt: MessageContent,
+    options?: T,
+  ): Promise<ResponseTypeForOptions<T>> {
+    const startTime = Date.now();
+    const callId = options?.[CALL_ID_OPTION];
+    try {
+      const response = await this.model.unifiedChat(prompt, options);
+      this.session.record(this.source, response.model || this.getModelName(options), Date.now() - startTime, response.usage, undefined, callId);
+      return response;
+    } catch (error: any) {
+      this.session.record(this.source, this.getModelName(options), Date.now() - startTime, undefined, error.message, callId);
+      throw error;
+    }
+  }
+
+  async* unifiedChatStream<T extends ChatOptions | undefined = undefined>(
+    prompt: MessageContent,
+    options?: T,
+  ): AsyncGenerator<StreamChunkTypeForOptions<T>, void, unknown> {
+    const startTime = Date.now();
+    const callId = options?.[CALL_ID_OPTION];
+    let model: string | undefined;
+    let usage: TokenUsage | undefined;
+    let recorded = false;
+    const record = (error?: string) => {
+      if (!recorded) {
+        recorded = true;
+        this.session.record(this.source, model || this.getModelName(options), Date.now() - startTime, usage, error, callId);
+      }
+    };
+
+    try {
+      for await (const chunk of this.model.unifiedChatStream(prompt, options)) {
+        model = chunk.model || model;
+        usage = ModelHelpers.mergeUsage(usage, chunk.usage);
+        // 收到最后一个片段时调用已经结束，UnifiedAI 在读取下一个片段前就会执行函数并递归调用模型
+        if (chunk.isLast) {
+          record();
+        }
+        yield chunk;
+      }
+      record();
+    } catch (streamError: any) {
+      record(streamError.message);
+      throw streamError;
+    } finally {
+      // 调用方提前停止读取时也记录已消耗的用量
+      record('请求已取消');
+    }
+  }
+
+  private getModelName(options?: ChatOptions): string {
+    return options?.model || this.model.getDefaultModel();
+  }
+}
+
+/**
+ * 一次请求的用量记录
+ * 包装的模型每次调用记录一条用量，函数执行情况记录到发起调用的那一条，请求结束后统一保存
+ */
+export class UsageLedgerSession {
+  private records: Partial<UsageRecord>[] = [];
+  // 按模型调用ID索引的记录，用于把函数执行情况记录到发起调用的那一条
+  private recordsByCallId = new Map<string, Partial<UsageRecord>>();
+  // 每层递归的模型调用ID
+  private callIds = new WeakMap<MiddlewareContext, string>();
+  private nextCallId = 0;
+
+  constructor(
+    private service: UsageLedgerService,
+    private userId: string,
+    private conversationId?: string,
+  ) {}
+
+  /**
+   * 记录执行函数的中间件，需要添加到使用 wrap 返回的模型的 UnifiedAI 上，并放在最后
+   * 每层递归调用模型前生成调用ID并通过选项传给包装的模型，该层执行的函数按调用ID找到对应的记录
+   */
+  readonly middleware: UnifiedAIMiddleware = {
+    name: 'usage-ledger',
+    beforeModel: (request, context) => {
+      const callId = String(++this.nextCallId);
+      this.callIds.set(context, callId);
+      return { ...request, options: { ...request.options, [CALL_ID_OPTION]: callId } };
+    },
+    afterToolCall: (call, context) => {
+      const callId = this.callIds.get(context);
+      const record = callId ? this.recordsByCallId.get(callId) : undefined;
+      if (record) {
+        record.toolCalls = [...(record.toolCalls || []), {
+          name: call.name,
+          executionTime: call.executionTime || 0,
+          failed: call.failed || undefined,
+        }];
+        record.toolCallCount = record.toolCalls.length;
+      }
+    },
+  };
+
+  /**
+   * 包装模型，记录经过该模型的每次调用
+   * @param model 实际发起请求的模型，命中缓存的调用不会经过该模型，不产生记录
+   * @param source 调用来源
+   */
+  wrap(model: BaseModel, source: UsageSource): BaseModel {
+    return new LedgerModel(model, this, source);
+  }
+
+  /**
+   * 记录一次模型调用
+   * @param callId 模型调用ID，由中间件生成，函数执行情况按该ID记录
+   */
+  record(source: UsageSource, model: string, latency: number, usage?: TokenUsage, error?: string, callId?: string): void {
+    const record: Partial<UsageRecord> = {
+      userId: this.userId,
+      conversationId: this.conversationId || null,
+      source,
+      model,
+      date: formatDate(),
+      promptTokens: usage?.promptTokens || 0,
+      completionTokens: usage?.completionTokens || 0,
+      totalTokens: usage?.totalTokens || 0,
+      toolCalls: null,
+      toolCallCount: 0,
+      latency,
+      cost: this.service.estimateCost(model, usage),
+      error: error || null,
+    };
+    this.records.push(record);
+    if (callId) {
+      this.recordsByCallId.set(callId, record);
+    }
+  }
+
+  /**
+   * 获取尚未保存的记录累计消耗的 token 数，包括失败和取消的调用
+   */
+  getUsage(): TokenUsage | undefined {
+    return this.records.reduce<TokenUsage | undefined>((usage, record) => ModelHelpers.mergeUsage(usage, {
+      promptTokens: record.promptTokens,
+      completionTokens: record.completionTokens,
+      totalTokens: record.totalTokens,
+    }), undefined);
+  }
+
+  /**
+   * 保存已记录的用量，保存失败时不影响对话
+   */
+  async flush(): Promise<void> {
+    const records = this.records;
+    this.records = [];
+    this.recordsByCallId.clear();
+    if (records.length === 0) {
+      return;
+    }
+    try {
+      await this.service.save(records);
+    } catch (error) {
+      console.error('保存用量记录失败:', error);
+    }
+  }
+}
+
+/**
+ * 用量记录服务
+ * 按模型调用记录 token 消耗、函数执行、耗时和估算费用，并提供按天、模型、会话和用户的统计
+ */
+export class UsageLedgerService {
+  private usageRecordRepository = new UsageRecordRepository();
+
+  /**
+   * 创建一次请求的用量记录
+   * @param userId 用户ID
+   * @param conversationId 会话ID
+   */
+  createSession(userId: string, conversationId?: string): UsageLedgerSession {
+    return new UsageLedgerSession(this, userId, conversationId);
+  }
+
+  async save(records: Partial<UsageRecord>[]): Promise<void> {
+    await this.usageRecordRepository.createMany(records);
+  }
+
+  /**
+   * 按价格表估算费用，模型名称优先完全匹配，否则使用最长的前缀匹配，没有价格时为0
+   * @param model 模型名称
+   * @param usage 消耗的 token 数
+   * @returns 估算费用（美元）
+   */
+  estimateCost(model: string, usage?: TokenUsage): number {
+    if (!usage) {
+      return 0;
+    }
+    const prices = config.usage.prices;
+    const key = prices[model]
+      ? model
+      : Object.keys(prices).filter(name => model.startsWith(name)).sort((a, b) => b.length - a.length)[0];
+    if (!key) {
+      return 0;
+    }
+    const price = prices[key];
+    return ((usage.promptTokens || 0) * price.input + (usage.completionTokens || 0) * price.output) / 1_000_000;
+  }
+
+  /**
+   * 汇总用量
+   * @param filter 筛选条件，不指定用户时统计所有用户
+   */
+  async getTotals(filter: UsageFilter): Promise<UsageTotals> {
+    const [row] = await this.usageRecordRepository.aggregate(filter);
+    return this.toTotals(row || {});
+  }
+
+  /**
+   * 按字段分组汇总用量
+   * @param filter 筛选条件，不指定用户时统计所有用户
+   * @param groupBy 分组字段
+   */
+  async getBreakdown(filter: UsageFilter, groupBy: UsageGroupBy): Promise<UsageBreakdownItem[]> {
+    const rows = await this.usageRecordRepository.aggregate(filter, groupBy);
+    return rows.map(row => ({ key: row[groupBy] ?? null, ...this.toTotals(row) }));
+  }
+
+  private toTotals(row: Record<string, any>): UsageTotals {
+    return {
+      calls: Number(row.calls) || 0,
+      promptTokens: Number(row.promptTokens) || 0,
+      completionTokens: Number(row.completionTokens) || 0,
+      totalTokens: Number(row.totalTokens) || 0,
+      toolCalls: Number(row.toolCalls) || 0,
+      averageLatency: Math.round(Number(row.averageLatency) || 0),
+      cost: Number(row.cost) || 0,
+      errors: Number(row.errors) || 0,
+    };
+  }
+}
+
+export const usageLedgerService = new UsageLedgerService();
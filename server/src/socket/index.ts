@@ -2,6 +2,11 @@ import { Server, Socket } from 'socket.io';
 import * as jwt from 'jsonwebtoken';
 import { SocketKey } from './key';
 import { AIController } from '../controllers/AIController';
+import { ToolApprovalService, toolApprovalService } from '../services/ToolApprovalService';
+import { McpElicitationService, mcpElicitationService } from '../services/McpElicitationService';
+import { QuotaExceededError, quotaService } from '../services/QuotaService';
+import { parseResourceReferences } from '../utils/mcps';
+import { McpResourceReference } from '@oukek/unified-ai';
 
 // JWT密钥，应该从环境变量中获取
 const JWT_SECRET = process.env.JWT_SECRET || 'unifiedai_secret_key';
@@ -56,22 +61,68 @@ export function setupSocketHandlers(io: Server): void {
     joinRoom(socket.id, SocketKey.room.user(user.id))
     console.log(`用户 ${user.id} 已加入房间: ${SocketKey.room.user(user.id)}`);
     
+    // 进行中的AI请求，按会话ID保存取消控制器
+    const chatControllers = new Map<string, AbortController>();
+
     // 添加断开连接的日志
     socket.on('disconnect', () => {
       console.log(`用户断开连接: ${socket.id}, 用户信息:`, user);
+      // 断开连接时取消所有进行中的AI请求
+      chatControllers.forEach(controller => controller.abort());
+      chatControllers.clear();
+    });
+
+    // 取消AI聊天流式请求
+    socket.on('ai:cancel', (data: { conversationId: string; }, callback?: (res: any) => void) => {
+      const controller = chatControllers.get(data?.conversationId);
+      if (controller) {
+        controller.abort();
+        chatControllers.delete(data.conversationId);
+      }
+      callback?.({ success: !!controller });
+    });
+    
+    // 提交工具调用审批结果
+    socket.on('ai:toolApproval', (data: { approvalId: string; decision: any; }, callback?: (res: any) => void) => {
+      const decision = ToolApprovalService.parseDecision(data?.decision);
+      if (!data?.approvalId || !decision) {
+        callback?.({ success: false, error: '审批结果格式不正确' });
+        return;
+      }
+      const success = toolApprovalService.respond(data.approvalId, user.id, decision);
+      callback?.(success ? { success } : { success, error: '审批请求不存在或已结束' });
+    });
+    
+    // 回答MCP服务的信息征询
+    socket.on('mcp:elicitationResponse', (data: { elicitationId: string; result: any; }, callback?: (res: any) => void) => {
+      const result = McpElicitationService.parseResult(data?.result);
+      if (!data?.elicitationId || !result) {
+        callback?.({ success: false, error: '回答格式不正确' });
+        return;
+      }
+      const success = mcpElicitationService.respond(data.elicitationId, user.id, result);
+      callback?.(success ? { success } : { success, error: '信息征询不存在或已结束' });
     });
     
     // 处理AI聊天流式请求
-    socket.on('ai:chatStream', async (data: { conversationId: string; content: string; }, callback) => {
+    socket.on('ai:chatStream', async (data: { conversationId: string; content: string; attachmentIds?: string[]; resources?: McpResourceReference[]; }, callback) => {
+      const controller = new AbortController();
       try {
-        if (!data.conversationId || !data.content) {
+        if (!data.conversationId || (!data.content && !data.attachmentIds?.length)) {
           callback({ success: false, error: '会话ID和消息内容不能为空' });
           return;
         }
         
+        const resources = parseResourceReferences(data.resources);
+        if (!resources) {
+          callback({ success: false, error: 'resources格式无效' });
+          return;
+        }
+        
         // 创建专门的房间用于此次对话
         const chatRoomId = `chat_${data.conversationId}_${Date.now()}`;
         socket.join(chatRoomId);
+        chatControllers.set(data.conversationId, controller);
         
         // 创建回调函数，将AI事件发送到客户端
         const socketCallback = (eventType: string, eventData: any) => {
@@ -82,12 +133,18 @@ export function setupSocketHandlers(io: Server): void {
           });
         };
 
+        // 先检查会话和附件，再检查并记录配额，无效的请求不占用配额
+        const request = await aiController.checkMessageRequest(user.id, data.conversationId, data.attachmentIds || []);
+        await quotaService.consume(user.id);
+
         // 调用AI处理函数，传入socket回调
         const result = await aiController.handleStreamMessage(
           user.id,
-          data.conversationId,
-          data.content,
+          request,
+          data.content || '',
           socketCallback,
+          controller.signal,
+          resources,
         );
         
         // 发送完成事件
@@ -105,16 +162,22 @@ export function setupSocketHandlers(io: Server): void {
       } catch (error) {
         console.error('AI聊天处理失败:', error);
         const errorMsg = error instanceof Error ? error.message : '处理失败';
+        // 超出配额时附带错误代码和重置时间
+        const errorData = error instanceof QuotaExceededError ? error.toJSON() : { error: errorMsg };
         callback({ 
           success: false, 
-          error: errorMsg
+          ...errorData
         });
         
         // 同时通过WebSocket发送错误通知
         socket.emit('ai:chatError', { 
-          error: errorMsg,
+          ...errorData,
           conversationId: data.conversationId
         });
+      } finally {
+        if (chatControllers.get(data.conversationId) === controller) {
+          chatControllers.delete(data.conversationId);
+        }
       }
     });
   });
@@ -4,6 +4,6 @@ function compose(...key: Array<string | number>) {
 
 export const SocketKey = {
   room: {
-    user: (id: number) => compose('room', 'user', id),
+    user: (id: string | number) => compose('room', 'user', id),
   },
 }
@@ -0,0 +1,16 @@
+/**
+ * 将时间格式化为服务器时区的日期，格式为 YYYY-MM-DD，用于按天统计
+ * @param date 时间，默认为当前时间
+ */
+export function formatDate(date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * 校验 YYYY-MM-DD 格式的日期
+ * @param value 日期字符串
+ */
+export function isValidDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(`${value}T00:00:00`).getTime());
+}
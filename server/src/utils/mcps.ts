@@ -1,9 +1,22 @@
+import { McpResourceReference } from '@oukek/unified-ai';
+
+// MCP传输方式
+export type McpTransportType = 'stdio' | 'sse' | 'streamable-http';
+
+export const mcpTransportTypes: McpTransportType[] = ['stdio', 'sse', 'streamable-http'];
+
 export interface Mcp {
   name: string;
   desc?: string;
-  command: string;
-  args: string[];
+  // 传输方式，默认为stdio
+  transport?: McpTransportType;
+  // stdio：启动MCP服务的命令、参数和环境变量
+  command?: string;
+  args?: string[];
   env?: Record<string, string>;
+  // sse、streamable-http：MCP服务地址和请求头
+  url?: string;
+  headers?: Record<string, string>;
 }
 
 // 内置的MCP列表
@@ -14,4 +27,94 @@ export const availableMcps: Mcp[] = [
     command: 'npx',
     args: ['-y', '@upstash/context7-mcp@latest']
   }
-]; 
\ No newline at end of file
+];
+
+/**
+ * 校验MCP配置
+ * @param name MCP名称
+ * @param config MCP配置
+ * @returns 错误信息，配置有效时返回 null
+ */
+export function validateMcpConfig(name: string, config: any): string | null {
+  // 检查config是否为对象
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return `MCP '${name}' 的配置格式无效`;
+  }
+
+  const transport = config.transport || 'stdio';
+  if (!mcpTransportTypes.includes(transport)) {
+    return `MCP '${name}' 的transport字段无效`;
+  }
+
+  if (transport === 'stdio') {
+    if (!config.command || typeof config.command !== 'string') {
+      return `MCP '${name}' 的command字段无效`;
+    }
+    if (!config.args || !Array.isArray(config.args)) {
+      return `MCP '${name}' 的args字段无效`;
+    }
+    if (config.env && (typeof config.env !== 'object' || Array.isArray(config.env))) {
+      return `MCP '${name}' 的env字段无效`;
+    }
+    return null;
+  }
+
+  try {
+    const url = new URL(config.url);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return `MCP '${name}' 的url字段无效`;
+    }
+  } catch {
+    return `MCP '${name}' 的url字段无效`;
+  }
+  if (config.headers && (typeof config.headers !== 'object' || Array.isArray(config.headers))) {
+    return `MCP '${name}' 的headers字段无效`;
+  }
+  return null;
+}
+
+/**
+ * 校验并规范化客户端提交的MCP资源引用
+ * @param input 客户端提交的数据
+ * @returns 资源引用列表，格式不正确时返回 null
+ */
+export function parseResourceReferences(input: any): McpResourceReference[] | null {
+  if (input === undefined) {
+    return [];
+  }
+  if (!Array.isArray(input)) {
+    return null;
+  }
+
+  const references: McpResourceReference[] = [];
+  for (const item of input) {
+    if (!item || typeof item.uri !== 'string' || !item.uri || (item.server !== undefined && typeof item.server !== 'string')) {
+      return null;
+    }
+    references.push({ uri: item.uri, server: item.server || undefined });
+  }
+  return references;
+}
+
+// MCP采样策略，控制MCP服务能否通过采样请求使用用户的模型
+export interface McpSamplingPolicy {
+  enabled: boolean;
+  // 单次采样允许的最大输出token数，不设置时按服务请求的数量
+  maxTokens?: number;
+}
+
+/**
+ * 校验客户端提交的MCP采样策略
+ * @param input 客户端提交的数据
+ * @returns 采样策略，格式不正确时返回 null
+ */
+export function parseSamplingPolicy(input: any): McpSamplingPolicy | null {
+  if (!input || typeof input !== 'object' || typeof input.enabled !== 'boolean') {
+    return null;
+  }
+  if (input.maxTokens !== undefined && input.maxTokens !== null
+    && (!Number.isInteger(input.maxTokens) || input.maxTokens <= 0)) {
+    return null;
+  }
+  return { enabled: input.enabled, maxTokens: input.maxTokens || undefined };
+}
@@ -1,3 +1,4 @@
+import type { FunctionExecutionContext, FunctionPolicy } from '@oukek/unified-ai'
 import axios from 'axios'
 import dayjs from 'dayjs'
 
@@ -10,7 +11,9 @@ export interface Tool {
   name: string
   description: string
   parameters: Record<string, any>
-  executor: (params: Record<string, any>, config?: Record<string, any>) => Promise<any>
+  executor: (params: Record<string, any>, config?: Record<string, any>, context?: FunctionExecutionContext) => Promise<any>
+  policy?: FunctionPolicy // 超时、重试和停用策略
+  requiresApproval?: boolean // 执行前是否需要用户审批
   configRequired?: {
     name: string
     description: string
@@ -104,30 +107,31 @@ export const searchWebByUrl: Tool = {
     },
     required: ['url'],
   },
-  executor: async (params: Record<string, any>) => {
-    try {
-      const url = params.url as string
-      console.log(`正在爬取网页: ${url}`)
-      const response = await axios.get(url, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-        },
-        timeout: 10000, // 10秒超时
-      })
+  // 慢速网站会拖住整个对话，超时后重试一次，连续失败后本轮对话不再使用
+  policy: {
+    timeout: 15000,
+    retries: 1,
+    backoff: 1000,
+    retryable: (error: any) => error.name === 'TimeoutError' || !error.response || error.response.status >= 500,
+    maxFailures: 3,
+  },
+  // 访问任意网址前需要用户同意
+  requiresApproval: true,
+  executor: async (params: Record<string, any>, _config?: Record<string, any>, context?: FunctionExecutionContext) => {
+    const url = params.url as string
+    console.log(`正在爬取网页: ${url}`)
+    const response = await axios.get(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+      },
+      signal: context?.signal,
+    })
 
-      // 返回网页内容
-      return {
-        content: response.data,
-        status: response.status,
-        url,
-      }
-    }
-    catch (error: any) {
-      console.error(`爬取网页时出错: ${error.message}`)
-      return {
-        error: error.message,
-        url: params.url,
-      }
+    // 返回网页内容
+    return {
+      content: response.data,
+      status: response.status,
+      url,
     }
   },
 }